@@ -1,16 +1,46 @@
 import { useEffect, useState } from "react";
 import { AutoMappingPanel } from "./components/AutoMappingPanel";
+import { CompareModal } from "./components/CompareModal";
 import { EntitySelector } from "./components/EntitySelector";
 import { FieldSelector } from "./components/FieldSelector";
 import { LookupMapper } from "./components/LookupMapper";
+import { MigrationPlanPanel } from "./components/MigrationPlanPanel";
 import { MigrationProgress as MigrationProgressComponent } from "./components/MigrationProgress";
+import { MirrorSyncModal } from "./components/MirrorSyncModal";
 import { OperationSelector } from "./components/OperationSelector";
 import { PreviewData } from "./components/PreviewData";
-import { AutoMappingResult, DataverseEntity, FieldMapping, LookupMapping, MigrationConfig, MigrationOperation, MigrationProgress, PreviewRecord } from "./models/interfaces";
+import { RelationshipSelector } from "./components/RelationshipSelector";
+import { RunJournalBanner } from "./components/RunJournalBanner";
+import {
+    AutoMappingResult,
+    ComparisonReport,
+    DataverseEntity,
+    DryRunReport,
+    FieldMapping,
+    LookupMapping,
+    ManyToManyMapping,
+    MigrationConfig,
+    MigrationOperation,
+    MigrationProgress,
+    MigrationRunJournal,
+    MirrorSyncCandidate,
+    MirrorSyncComparison,
+    PreviewRecord,
+    PrincipalMap,
+    PrincipalSearchResult,
+    PrincipalType,
+    SpreadsheetData,
+} from "./models/interfaces";
 import "./styles/App.css";
+import { deserializeLookupMappings, deserializeMigrationConfig, serializeLookupMappings, serializeMigrationConfig } from "./utils/configSerialization";
 import { DataverseClient } from "./utils/DataverseClient";
-import { isReferenceFieldType } from "./utils/fieldUtils";
+import { downloadFile } from "./utils/exportUtils";
+import { buildSelectFields, isReferenceFieldType, normalizeLookupValues } from "./utils/fieldUtils";
 import { MigrationEngine } from "./utils/MigrationEngine";
+import { buildMigrationPlan } from "./utils/planUtils";
+import { PrincipalMapStorage } from "./utils/principalMapStorage";
+import { RunJournal } from "./utils/runJournal";
+import { buildSpreadsheetRecords, matchSpreadsheetColumns, parseSpreadsheetFile } from "./utils/spreadsheetUtils";
 
 // Extends the published DataverseConnection type to include the environmentColor
 // property that PPTB returns at runtime (user-configurable per connection).
@@ -38,28 +68,54 @@ function App() {
     const [selectedEntity, setSelectedEntity] = useState<DataverseEntity | null>(null);
     const [loadingFields, setLoadingFields] = useState<boolean>(false);
 
+    // Source of the records: the source connection or an imported CSV/Excel file
+    const [sourceType, setSourceType] = useState<"dataverse" | "file">("dataverse");
+    const [spreadsheetData, setSpreadsheetData] = useState<SpreadsheetData | null>(null);
+
     // Migration configuration
     const [operations, setOperations] = useState<MigrationOperation[]>(["create"]);
     const [fieldMappings, setFieldMappings] = useState<FieldMapping[]>([]);
     const [lookupMappings, setLookupMappings] = useState<LookupMapping[]>([]);
     const [filterType, setFilterType] = useState<"odata" | "fetchxml">("odata");
     const [filterQuery, setFilterQuery] = useState<string>("");
+    const [migrationScope, setMigrationScope] = useState<"selected" | "all">("selected");
     const [batchSize, setBatchSize] = useState<number>(50);
+    const [useBulkOperations, setUseBulkOperations] = useState<boolean>(false);
+    const [parallelism, setParallelism] = useState<number>(4);
+    const [manyToManyMappings, setManyToManyMappings] = useState<ManyToManyMapping[]>([]);
+    const [disassociateMissing, setDisassociateMissing] = useState<boolean>(false);
+    const [migrateNotes, setMigrateNotes] = useState<boolean>(false);
+    const [preserveSystemFields, setPreserveSystemFields] = useState<boolean>(false);
+    const [mirrorSyncAction, setMirrorSyncAction] = useState<"delete" | "deactivate">("delete");
 
     // Preview
     const [showPreview, setShowPreview] = useState<boolean>(false);
     const [previewRecords, setPreviewRecords] = useState<PreviewRecord[]>([]);
     const [loadingPreview, setLoadingPreview] = useState<boolean>(false);
 
+    // Mirror sync: target records missing from the source, awaiting confirmation
+    const [mirrorSyncComparison, setMirrorSyncComparison] = useState<MirrorSyncComparison | null>(null);
+    const [loadingMirrorSync, setLoadingMirrorSync] = useState<boolean>(false);
+    const [showCompare, setShowCompare] = useState<boolean>(false);
+
     // Migration progress
     const [migrationProgress, setMigrationProgress] = useState<MigrationProgress | null>(null);
     const [isMigrating, setIsMigrating] = useState<boolean>(false);
 
+    // Journal of the latest run, offered for resume/retry when it was interrupted or has failed records
+    const [runJournal, setRunJournal] = useState<MigrationRunJournal | null>(null);
+
+    // Multi-table migration plan (tables in the order they were added)
+    const [planConfigs, setPlanConfigs] = useState<MigrationConfig[]>([]);
+
     // Auto-mapping
     const [showAutoMapping, setShowAutoMapping] = useState<boolean>(false);
     const [userMappings, setUserMappings] = useState<AutoMappingResult[]>([]);
     const [teamMappings, setTeamMappings] = useState<AutoMappingResult[]>([]);
     const [businessUnitMappings, setBusinessUnitMappings] = useState<AutoMappingResult[]>([]);
+    const [loadingAutoMapping, setLoadingAutoMapping] = useState<boolean>(false);
+    const [defaultOwner, setDefaultOwner] = useState<PrincipalSearchResult | undefined>(undefined);
+    const [principalMapSavedAt, setPrincipalMapSavedAt] = useState<string | undefined>(undefined);
 
     // Step management for better UX - track which steps are expanded
     const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set([1]));
@@ -95,6 +151,14 @@ function App() {
                     if (!secondaryConnection) {
                         setError("Please select a secondary connection as the target environment");
                     }
+
+                    setRunJournal(await RunJournal.load());
+
+                    // Only the map reviewed for this exact source → target pair applies; IDs from other environments would bind to the wrong principals
+                    const principalMap = activeConnection && secondaryConnection ? await PrincipalMapStorage.load(activeConnection.url, secondaryConnection.url) : null;
+                    if (principalMap) {
+                        applyPrincipalMap(principalMap);
+                    }
                 } catch (error) {
                     console.error("Failed to get connections:", error);
                     setError("Failed to get connections from PPTB");
@@ -167,7 +231,7 @@ function App() {
         setExpandedSteps(newExpanded);
     };
 
-    const handleEntitySelect = async (entity: DataverseEntity) => {
+    const handleEntitySelect = async (entity: DataverseEntity, source: "dataverse" | "file" = sourceType) => {
         setSelectedEntity(entity);
         setLoadingFields(true);
         setError("");
@@ -176,8 +240,8 @@ function App() {
         autoCollapseAndExpand(1, 2);
 
         try {
-            // Load fields for the selected entity
-            const client = new DataverseClient("primary");
+            // Load fields for the selected entity (file sources are described by the target table)
+            const client = new DataverseClient(source === "file" ? "secondary" : "primary");
             const fields = await client.fetchEntityFields(entity.logicalName);
 
             // Sort fields by display name
@@ -193,7 +257,7 @@ function App() {
                 isEnabled: !field.isPrimaryId, // Exclude primary ID by default
                 fieldType: field.type,
             }));
-            setFieldMappings(mappings);
+            setFieldMappings(source === "file" && spreadsheetData ? matchSpreadsheetColumns(mappings, sortedFields, spreadsheetData.columns) : mappings);
 
             // Initialize lookup mappings for reference fields
             const lookupFields = fields.filter((f) => isReferenceFieldType(f.type));
@@ -206,6 +270,16 @@ function App() {
             }));
             setLookupMappings(lookups);
 
+            // N:N relationships are optional; a table without them (or without access to them) still migrates.
+            // Spreadsheet rows carry no associations.
+            try {
+                const relationships = source === "file" ? [] : await client.fetchManyToManyRelationships(entity.logicalName);
+                setManyToManyMappings(relationships.sort((a, b) => a.schemaName.localeCompare(b.schemaName)));
+            } catch (relError) {
+                console.warn("Could not fetch many-to-many relationships:", relError);
+                setManyToManyMappings([]);
+            }
+
             // Reset preview and migration progress
             setPreviewRecords([]);
             setMigrationProgress(null);
@@ -216,8 +290,29 @@ function App() {
         }
     };
 
+    const updatePrincipalMappings = (principalType: PrincipalType, results: AutoMappingResult[]) => {
+        if (principalType === "users") {
+            setUserMappings(results);
+        } else if (principalType === "teams") {
+            setTeamMappings(results);
+        } else {
+            setBusinessUnitMappings(results);
+        }
+        migrationEngine.setPrincipalMappings(principalType, results);
+    };
+
+    const applyPrincipalMap = (principalMap: PrincipalMap) => {
+        updatePrincipalMappings("users", principalMap.users);
+        updatePrincipalMappings("teams", principalMap.teams);
+        updatePrincipalMappings("businessUnits", principalMap.businessUnits);
+        setDefaultOwner(principalMap.defaultOwner);
+        migrationEngine.setDefaultOwner(principalMap.defaultOwner?.id);
+        setPrincipalMapSavedAt(principalMap.savedAt);
+    };
+
     const handleAutoMapping = async () => {
         setShowAutoMapping(true);
+        setLoadingAutoMapping(true);
         setError("");
 
         try {
@@ -226,11 +321,54 @@ function App() {
             const teams = await migrationEngine.autoMapTeams();
             const businessUnits = await migrationEngine.autoMapBusinessUnits();
 
-            setUserMappings(users);
-            setTeamMappings(teams);
-            setBusinessUnitMappings(businessUnits);
+            // Manual overrides win over fresh matches so a re-run does not undo the review
+            const keepOverrides = (results: AutoMappingResult[], current: AutoMappingResult[]) => {
+                const overrides = new Map(current.filter((m) => m.matchCriteria === "Manual").map((m) => [m.sourceId, m]));
+                return results.map((r) => overrides.get(r.sourceId) || r);
+            };
+
+            updatePrincipalMappings("users", keepOverrides(users, userMappings));
+            updatePrincipalMappings("teams", keepOverrides(teams, teamMappings));
+            updatePrincipalMappings("businessUnits", keepOverrides(businessUnits, businessUnitMappings));
         } catch (error: any) {
             setError(`Failed to auto-map: ${error.message}`);
+        } finally {
+            setLoadingAutoMapping(false);
+        }
+    };
+
+    const handlePrincipalMappingChange = (principalType: PrincipalType, sourceId: string, target: PrincipalSearchResult | null) => {
+        const current = principalType === "users" ? userMappings : principalType === "teams" ? teamMappings : businessUnitMappings;
+        const updated = current.map((m) =>
+            m.sourceId === sourceId
+                ? { ...m, targetId: target?.id || "", targetDisplayName: target?.name, matchCriteria: "Manual", confidence: target ? ("high" as const) : ("none" as const) }
+                : m,
+        );
+        updatePrincipalMappings(principalType, updated);
+    };
+
+    const handleDefaultOwnerChange = (owner: PrincipalSearchResult | undefined) => {
+        setDefaultOwner(owner);
+        migrationEngine.setDefaultOwner(owner?.id);
+    };
+
+    const handlePrincipalSearch = (principalType: PrincipalType, searchTerm: string) => {
+        return new DataverseClient("secondary").searchPrincipals(principalType, searchTerm);
+    };
+
+    const handleSavePrincipalMap = async () => {
+        try {
+            const saved = await PrincipalMapStorage.save({
+                sourceUrl: connectionUrl,
+                targetUrl: secondaryConnectionUrl,
+                users: userMappings,
+                teams: teamMappings,
+                businessUnits: businessUnitMappings,
+                defaultOwner,
+            });
+            setPrincipalMapSavedAt(saved.savedAt);
+        } catch (error: any) {
+            setError(`Failed to save principal map: ${error.message}`);
         }
     };
 
@@ -245,27 +383,17 @@ function App() {
 
         try {
             const client = new DataverseClient("primary");
-            const selectFields = fieldMappings
-                .filter((m) => m.isEnabled)
-                .map((m) => {
-                    // Dataverse OData Web API represents lookup fields as _fieldname_value in $select
-                    if (isReferenceFieldType(m.fieldType)) {
-                        return `_${m.sourceField}_value`;
-                    }
-                    return m.sourceField;
-                });
-
-            // Add primary ID and primary name fields
-            if (!selectFields.includes(selectedEntity.primaryIdAttribute)) {
-                selectFields.push(selectedEntity.primaryIdAttribute);
-            }
-            if (!selectFields.includes(selectedEntity.primaryNameAttribute)) {
-                selectFields.push(selectedEntity.primaryNameAttribute);
-            }
+            const selectFields = buildSelectFields(fieldMappings, selectedEntity.primaryIdAttribute, selectedEntity.primaryNameAttribute);
 
             let sourceRecords: any[];
 
-            if (filterType === "fetchxml" && filterQuery) {
+            if (sourceType === "file") {
+                // Every row of the file is previewed and can be selected
+                if (!spreadsheetData) {
+                    throw new Error("Import a CSV or Excel file first");
+                }
+                sourceRecords = buildSpreadsheetRecords(spreadsheetData, fieldMappings, selectedEntity.primaryIdAttribute);
+            } else if (filterType === "fetchxml" && filterQuery) {
                 // Use FetchXML query
                 sourceRecords = await client.queryRecordsWithFetchXml(filterQuery);
             } else {
@@ -280,19 +408,8 @@ function App() {
                 );
             }
 
-            // Normalize lookup fields: OData returns _fieldname_value keys, but the preview table
-            // renders cells using the bare logical name. Copy the value so both keys are present.
-            const enabledLookupFields = fieldMappings.filter((m) => m.isEnabled && isReferenceFieldType(m.fieldType)).map((m) => m.sourceField);
-
             const preview: PreviewRecord[] = sourceRecords.map((record) => {
-                const normalizedData = { ...record };
-                for (const fieldName of enabledLookupFields) {
-                    const odataKey = `_${fieldName}_value`;
-                    // OData never returns both keys, but guard against overwriting if it ever does
-                    if (odataKey in normalizedData && !(fieldName in normalizedData)) {
-                        normalizedData[fieldName] = normalizedData[odataKey];
-                    }
-                }
+                const normalizedData = normalizeLookupValues(record, fieldMappings);
                 return {
                     action: (operations[0] || "create").toUpperCase() as "CREATE" | "UPDATE" | "DELETE",
                     data: normalizedData,
@@ -317,7 +434,7 @@ function App() {
             return;
         }
 
-        if (selectedRecords.length === 0) {
+        if (migrationScope === "selected" && selectedRecords.length === 0) {
             setError("No records selected for migration");
             return;
         }
@@ -326,28 +443,221 @@ function App() {
         setIsMigrating(true);
         setError("");
 
-        const config: MigrationConfig = {
-            entityLogicalName: selectedEntity.logicalName,
-            entityDisplayName: selectedEntity.displayName,
-            operations,
-            fieldMappings,
-            lookupMappings,
-            filterQuery: filterQuery || undefined,
-            filterType,
-            batchSize,
-        };
+        const config = buildCurrentConfig(selectedEntity);
 
         try {
-            await migrationEngine.migrateRecords(config, selectedRecords, (progress) => {
+            if (migrationScope === "all") {
+                // The preview is only a sample; stream the complete filtered result set from the source
+                await migrationEngine.migrateAllRecords(config, (progress) => {
+                    setMigrationProgress(progress);
+                });
+            } else {
+                await migrationEngine.migrateRecords(config, selectedRecords, (progress) => {
+                    setMigrationProgress(progress);
+                });
+            }
+        } catch (error: any) {
+            setError(`Migration failed: ${error.message}`);
+        } finally {
+            setIsMigrating(false);
+            setRunJournal(await RunJournal.load());
+        }
+    };
+
+    const handleDryRun = async (selectedRecords: PreviewRecord[]): Promise<DryRunReport> => {
+        if (!selectedEntity) {
+            throw new Error("Please select an entity first");
+        }
+
+        const config = buildCurrentConfig(selectedEntity);
+        if (migrationScope === "all") {
+            return migrationEngine.dryRunAllRecords(config);
+        }
+        return migrationEngine.dryRun(config, selectedRecords.map((record) => record.data));
+    };
+
+    const buildCurrentConfig = (entity: DataverseEntity): MigrationConfig => ({
+        sourceType,
+        entityLogicalName: entity.logicalName,
+        entityDisplayName: entity.displayName,
+        operations,
+        fieldMappings,
+        lookupMappings,
+        filterQuery: filterQuery || undefined,
+        filterType,
+        scope: migrationScope,
+        batchSize,
+        useBulkOperations,
+        parallelism,
+        manyToManyMappings,
+        disassociateMissing,
+        migrateNotes,
+        preserveSystemFields,
+        mirrorSyncAction,
+    });
+
+    const handlePreserveSystemFieldsChange = (checked: boolean) => {
+        setPreserveSystemFields(checked);
+        if (checked) {
+            // Select the system fields that carry the record history; file columns must still be mapped by hand
+            const systemFields = ["createdon", "ownerid", "statecode", "statuscode"];
+            setFieldMappings((current) =>
+                current.map((m) => (systemFields.includes(m.targetField) && (sourceType === "dataverse" || m.sourceColumn) ? { ...m, isEnabled: true } : m)),
+            );
+        }
+    };
+
+    const handleSourceTypeChange = async (type: "dataverse" | "file") => {
+        setSourceType(type);
+        // A file is migrated from the rows selected in the preview
+        if (type === "file") {
+            setMigrationScope("selected");
+        }
+        // Fields come from the target table for file sources, so reload them for the new source
+        if (selectedEntity) {
+            await handleEntitySelect(selectedEntity, type);
+        }
+    };
+
+    const handleSpreadsheetImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setError("");
+        try {
+            const data = await parseSpreadsheetFile(file);
+            if (data.columns.length === 0) {
+                throw new Error("The file has no header row");
+            }
+
+            setSpreadsheetData(data);
+            if (selectedEntity) {
+                setFieldMappings(matchSpreadsheetColumns(fieldMappings, selectedEntity.fields, data.columns));
+            }
+            setPreviewRecords([]);
+        } catch (error: any) {
+            setError(`Failed to import file: ${error.message}`);
+        }
+
+        // Reset input
+        event.target.value = "";
+    };
+
+    const handleMirrorSyncCompare = async () => {
+        if (!selectedEntity) {
+            setError("Please select an entity first");
+            return;
+        }
+
+        setLoadingMirrorSync(true);
+        setError("");
+
+        try {
+            setMirrorSyncComparison(await migrationEngine.compareForMirrorSync(buildCurrentConfig(selectedEntity)));
+        } catch (error: any) {
+            setError(`Mirror sync failed: ${error.message}`);
+        } finally {
+            setLoadingMirrorSync(false);
+        }
+    };
+
+    const handleCompareEnvironments = async (matchFields: string[]): Promise<ComparisonReport> => {
+        if (!selectedEntity) {
+            throw new Error("Please select an entity first");
+        }
+        return migrationEngine.compareEnvironments(buildCurrentConfig(selectedEntity), matchFields);
+    };
+
+    const handleMirrorSyncConfirm = async (candidates: MirrorSyncCandidate[]) => {
+        if (!selectedEntity) {
+            return;
+        }
+
+        setMirrorSyncComparison(null);
+        setIsMigrating(true);
+        setError("");
+
+        try {
+            await migrationEngine.removeTargetRecords(buildCurrentConfig(selectedEntity), candidates, mirrorSyncAction, (progress) => {
                 setMigrationProgress(progress);
             });
         } catch (error: any) {
-            setError(`Migration failed: ${error.message}`);
+            setError(`Mirror sync failed: ${error.message}`);
         } finally {
             setIsMigrating(false);
         }
     };
 
+    const handleAddToPlan = () => {
+        if (!selectedEntity) {
+            setError("Please select an entity first");
+            return;
+        }
+
+        const config = buildCurrentConfig(selectedEntity);
+        setPlanConfigs((prev) => {
+            // Re-adding a table replaces its configuration but keeps its position
+            const existingIndex = prev.findIndex((c) => c.entityLogicalName === config.entityLogicalName);
+            if (existingIndex >= 0) {
+                return prev.map((c, i) => (i === existingIndex ? config : c));
+            }
+            return [...prev, config];
+        });
+    };
+
+    const handleRemoveFromPlan = (entityLogicalName: string) => {
+        setPlanConfigs((prev) => prev.filter((c) => c.entityLogicalName !== entityLogicalName));
+    };
+
+    const handleRunPlan = async () => {
+        if (planConfigs.length === 0) {
+            return;
+        }
+
+        setIsMigrating(true);
+        setError("");
+
+        try {
+            await migrationEngine.migratePlan(buildMigrationPlan(planConfigs), (progress) => {
+                setMigrationProgress(progress);
+            });
+        } catch (error: any) {
+            setError(`Plan failed: ${error.message}`);
+        } finally {
+            setIsMigrating(false);
+            setRunJournal(await RunJournal.load());
+        }
+    };
+
+    const handleResumeRun = async (errorsOnly: boolean) => {
+        if (!runJournal) {
+            return;
+        }
+
+        setIsMigrating(true);
+        setError("");
+
+        try {
+            await migrationEngine.resumeRun(runJournal, errorsOnly, (progress) => {
+                setMigrationProgress(progress);
+            });
+        } catch (error: any) {
+            setError(`${errorsOnly ? "Retry" : "Resume"} failed: ${error.message}`);
+        } finally {
+            setIsMigrating(false);
+            setRunJournal(await RunJournal.load());
+        }
+    };
+
+    const handleDiscardRunJournal = async () => {
+        try {
+            await RunJournal.clear();
+            setRunJournal(null);
+        } catch (error: any) {
+            setError(`Failed to discard run journal: ${error.message}`);
+        }
+    };
+
     if (loading) {
         return (
             <div className="loading-container">
@@ -388,12 +698,10 @@ function App() {
 
     const handleSaveConfiguration = () => {
         // Convert Maps to arrays for JSON serialization
-        const serializedLookupMappings = lookupMappings.map((mapping) => ({
-            ...mapping,
-            manualMappings: mapping.manualMappings ? Array.from(mapping.manualMappings.entries()) : undefined,
-        }));
+        const serializedLookupMappings = serializeLookupMappings(lookupMappings);
 
         const config = {
+            sourceType,
             entityLogicalName: selectedEntity?.logicalName,
             entityDisplayName: selectedEntity?.displayName,
             operations,
@@ -401,18 +709,20 @@ function App() {
             lookupMappings: serializedLookupMappings,
             filterType,
             filterQuery,
+            scope: migrationScope,
             batchSize,
+            useBulkOperations,
+            parallelism,
+            manyToManyMappings,
+            disassociateMissing,
+            migrateNotes,
+            preserveSystemFields,
+            mirrorSyncAction,
+            plan: planConfigs.map(serializeMigrationConfig),
             version: "1.0",
         };
 
-        const json = JSON.stringify(config, null, 2);
-        const blob = new Blob([json], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement("a");
-        link.href = url;
-        link.download = `migration-config-${selectedEntity?.logicalName || "entity"}-${Date.now()}.json`;
-        link.click();
-        URL.revokeObjectURL(url);
+        downloadFile(JSON.stringify(config, null, 2), `migration-config-${selectedEntity?.logicalName || "plan"}-${Date.now()}.json`, "application/json");
     };
 
     const handleLoadConfiguration = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -423,10 +733,16 @@ function App() {
             const text = await file.text();
             const config = JSON.parse(text);
 
+            setPlanConfigs((config.plan || []).map(deserializeMigrationConfig));
+
+            // The file itself is not part of the configuration; its columns are matched again on import
+            const savedSourceType = config.sourceType === "file" ? "file" : "dataverse";
+            setSourceType(savedSourceType);
+
             // Find and select the entity
             const entity = entities.find((e) => e.logicalName === config.entityLogicalName);
             if (entity) {
-                await handleEntitySelect(entity);
+                await handleEntitySelect(entity, savedSourceType);
 
                 // Wait for fields to load, then apply configuration
                 setTimeout(() => {
@@ -434,17 +750,22 @@ function App() {
                     setFieldMappings(config.fieldMappings || []);
 
                     // Convert arrays back to Maps for lookup mappings
-                    const deserializedLookupMappings = (config.lookupMappings || []).map((mapping: any) => ({
-                        ...mapping,
-                        manualMappings: mapping.manualMappings ? new Map(mapping.manualMappings) : undefined,
-                    }));
-                    setLookupMappings(deserializedLookupMappings);
+                    setLookupMappings(deserializeLookupMappings(config.lookupMappings));
 
                     setFilterType(config.filterType || "odata");
                     setFilterQuery(config.filterQuery || "");
+                    setMigrationScope(config.scope === "all" ? "all" : "selected");
                     setBatchSize(config.batchSize || 50);
+                    setUseBulkOperations(!!config.useBulkOperations);
+                    setParallelism(config.parallelism || 4);
+                    const savedRelationships: ManyToManyMapping[] = config.manyToManyMappings || [];
+                    setManyToManyMappings((current) => current.map((r) => ({ ...r, isEnabled: savedRelationships.some((saved) => saved.schemaName === r.schemaName && saved.isEnabled) })));
+                    setDisassociateMissing(!!config.disassociateMissing);
+                    setMigrateNotes(!!config.migrateNotes);
+                    setPreserveSystemFields(!!config.preserveSystemFields);
+                    setMirrorSyncAction(config.mirrorSyncAction === "deactivate" ? "deactivate" : "delete");
                 }, 500);
-            } else {
+            } else if (config.entityLogicalName) {
                 setError(`Entity "${config.entityLogicalName}" not found in this environment`);
             }
         } catch (error: any) {
@@ -457,21 +778,37 @@ function App() {
 
     const handleResetConfiguration = () => {
         // Reset all configuration to initial state
+        setSourceType("dataverse");
+        setSpreadsheetData(null);
         setSelectedEntity(null);
         setFieldMappings([]);
         setLookupMappings([]);
         setOperations(["create"]);
         setFilterType("odata");
         setFilterQuery("");
+        setMigrationScope("selected");
         setBatchSize(50);
+        setUseBulkOperations(false);
+        setParallelism(4);
+        setManyToManyMappings([]);
+        setDisassociateMissing(false);
+        setMigrateNotes(false);
+        setPreserveSystemFields(false);
+        setMirrorSyncAction("delete");
+        setMirrorSyncComparison(null);
+        setShowCompare(false);
         setPreviewRecords([]);
         setMigrationProgress(null);
         setShowPreview(false);
         setError("");
         setExpandedSteps(new Set([1]));
-        setUserMappings([]);
-        setTeamMappings([]);
-        setBusinessUnitMappings([]);
+        updatePrincipalMappings("users", []);
+        updatePrincipalMappings("teams", []);
+        updatePrincipalMappings("businessUnits", []);
+        setDefaultOwner(undefined);
+        migrationEngine.setDefaultOwner(undefined);
+        setPrincipalMapSavedAt(undefined);
+        setPlanConfigs([]);
     };
 
     return (
@@ -488,8 +825,14 @@ function App() {
                                     style={connectionEnvironmentColor ? { borderLeftColor: connectionEnvironmentColor } : undefined}
                                 >
                                     <span className="connection-label">Source</span>
-                                    {connectionName && <span className="connection-name">{connectionName}</span>}
-                                    <span className="connection-url">{new URL(connectionUrl).hostname}</span>
+                                    {sourceType === "file" ? (
+                                        <span className="connection-name">{spreadsheetData?.fileName || "CSV / Excel file"}</span>
+                                    ) : (
+                                        <>
+                                            {connectionName && <span className="connection-name">{connectionName}</span>}
+                                            <span className="connection-url">{new URL(connectionUrl).hostname}</span>
+                                        </>
+                                    )}
                                 </div>
                                 <div className="flow-arrow">→</div>
                                 <div
@@ -507,7 +850,7 @@ function App() {
 
                 {/* Configuration Save/Load */}
                 <div className="config-toolbar">
-                    <button className="btn-secondary" onClick={handleSaveConfiguration} disabled={!selectedEntity} title="Save current configuration">
+                    <button className="btn-secondary" onClick={handleSaveConfiguration} disabled={!selectedEntity && planConfigs.length === 0} title="Save current configuration">
                         💾 Save Configuration
                     </button>
                     <label className="btn-secondary" style={{ cursor: "pointer" }}>
@@ -531,6 +874,27 @@ function App() {
                         </div>
                         {expandedSteps.has(1) && (
                             <div className="step-content">
+                                <div className="filter-type-selector">
+                                    <button className={`filter-type-btn ${sourceType === "dataverse" ? "active" : ""}`} onClick={() => handleSourceTypeChange("dataverse")}>
+                                        Source Connection
+                                    </button>
+                                    <button className={`filter-type-btn ${sourceType === "file" ? "active" : ""}`} onClick={() => handleSourceTypeChange("file")}>
+                                        CSV / Excel File
+                                    </button>
+                                </div>
+                                {sourceType === "file" && (
+                                    <div className="form-group">
+                                        <label className="btn-secondary" style={{ cursor: "pointer", display: "inline-block" }}>
+                                            📄 {spreadsheetData ? "Replace File" : "Import File"}
+                                            <input type="file" accept=".csv,.xlsx" onChange={handleSpreadsheetImport} style={{ display: "none" }} />
+                                        </label>
+                                        <p className="field-hint">
+                                            {spreadsheetData
+                                                ? `${spreadsheetData.fileName}: ${spreadsheetData.rows.length} rows, ${spreadsheetData.columns.length} columns`
+                                                : "The first row holds the column headers. Only the first worksheet of an Excel workbook is read."}
+                                        </p>
+                                    </div>
+                                )}
                                 <EntitySelector entities={entities} selectedEntity={selectedEntity} onEntitySelect={handleEntitySelect} loading={loadingEntities} />
                             </div>
                         )}
@@ -557,76 +921,83 @@ function App() {
                                 </div>
                                 {expandedSteps.has(2) && (
                                     <div className="step-content">
-                                        <FieldSelector fields={selectedEntity.fields} fieldMappings={fieldMappings} onFieldMappingsChange={setFieldMappings} />
+                                        <FieldSelector
+                                            fields={selectedEntity.fields}
+                                            fieldMappings={fieldMappings}
+                                            onFieldMappingsChange={setFieldMappings}
+                                            sourceColumns={sourceType === "file" ? spreadsheetData?.columns || [] : undefined}
+                                        />
                                     </div>
                                 )}
                             </div>
 
-                            {/* Step 3: Filter Configuration */}
-                            <div className={`step-card ${expandedSteps.has(3) ? "active" : "collapsed"}`}>
-                                <div className="step-header" onClick={() => toggleStep(3)}>
-                                    <div className="step-number">3</div>
-                                    <h2 className="step-title">Filter Data</h2>
-                                    <span className="step-badge">Optional</span>
-                                    <span className="step-toggle">{expandedSteps.has(3) ? "−" : "+"}</span>
-                                </div>
-                                {expandedSteps.has(3) && (
-                                    <div className="step-content">
-                                        <div className="filter-type-selector">
-                                            <button className={`filter-type-btn ${filterType === "odata" ? "active" : ""}`} onClick={() => setFilterType("odata")}>
-                                                OData
-                                            </button>
-                                            <button className={`filter-type-btn ${filterType === "fetchxml" ? "active" : ""}`} onClick={() => setFilterType("fetchxml")}>
-                                                FetchXML
-                                            </button>
-                                        </div>
+                            {/* Step 3: Filter Configuration (not available for file sources) */}
+                            {sourceType === "dataverse" && (
+                                <div className={`step-card ${expandedSteps.has(3) ? "active" : "collapsed"}`}>
+                                    <div className="step-header" onClick={() => toggleStep(3)}>
+                                        <div className="step-number">3</div>
+                                        <h2 className="step-title">Filter Data</h2>
+                                        <span className="step-badge">Optional</span>
+                                        <span className="step-toggle">{expandedSteps.has(3) ? "−" : "+"}</span>
+                                    </div>
+                                    {expandedSteps.has(3) && (
+                                        <div className="step-content">
+                                            <div className="filter-type-selector">
+                                                <button className={`filter-type-btn ${filterType === "odata" ? "active" : ""}`} onClick={() => setFilterType("odata")}>
+                                                    OData
+                                                </button>
+                                                <button className={`filter-type-btn ${filterType === "fetchxml" ? "active" : ""}`} onClick={() => setFilterType("fetchxml")}>
+                                                    FetchXML
+                                                </button>
+                                            </div>
 
-                                        <div className="form-group">
-                                            {filterType === "odata" ? (
-                                                <>
-                                                    <label>OData Filter</label>
-                                                    <input
-                                                        type="text"
-                                                        value={filterQuery}
-                                                        onChange={(e) => setFilterQuery(e.target.value)}
-                                                        placeholder="e.g., statecode eq 0"
-                                                        className="modern-input"
-                                                    />
-                                                    <p className="field-hint">Example: statecode eq 0 and createdon gt 2024-01-01</p>
-                                                </>
-                                            ) : (
-                                                <>
-                                                    <div className="fetchxml-label-row">
-                                                        <label>FetchXML Query</label>
-                                                        <button
-                                                            className="btn-secondary btn-fxs"
-                                                            onClick={handleOpenFetchXmlStudio}
-                                                            disabled={isLaunchingFxs}
-                                                            title="Open FetchXML Studio to build or edit this query"
-                                                        >
-                                                            {isLaunchingFxs ? (
-                                                                "Opening..."
-                                                            ) : (
-                                                                <>
-                                                                    <span aria-hidden="true">🔬</span> Open in FetchXML Studio
-                                                                </>
-                                                            )}
-                                                        </button>
-                                                    </div>
-                                                    <textarea
-                                                        value={filterQuery}
-                                                        onChange={(e) => setFilterQuery(e.target.value)}
-                                                        placeholder="<fetch><entity name='account'>...</entity></fetch>"
-                                                        className="modern-textarea"
-                                                        rows={6}
-                                                    />
-                                                    <p className="field-hint">Complete FetchXML query including entity and attributes</p>
-                                                </>
-                                            )}
+                                            <div className="form-group">
+                                                {filterType === "odata" ? (
+                                                    <>
+                                                        <label>OData Filter</label>
+                                                        <input
+                                                            type="text"
+                                                            value={filterQuery}
+                                                            onChange={(e) => setFilterQuery(e.target.value)}
+                                                            placeholder="e.g., statecode eq 0"
+                                                            className="modern-input"
+                                                        />
+                                                        <p className="field-hint">Example: statecode eq 0 and createdon gt 2024-01-01</p>
+                                                    </>
+                                                ) : (
+                                                    <>
+                                                        <div className="fetchxml-label-row">
+                                                            <label>FetchXML Query</label>
+                                                            <button
+                                                                className="btn-secondary btn-fxs"
+                                                                onClick={handleOpenFetchXmlStudio}
+                                                                disabled={isLaunchingFxs}
+                                                                title="Open FetchXML Studio to build or edit this query"
+                                                            >
+                                                                {isLaunchingFxs ? (
+                                                                    "Opening..."
+                                                                ) : (
+                                                                    <>
+                                                                        <span aria-hidden="true">🔬</span> Open in FetchXML Studio
+                                                                    </>
+                                                                )}
+                                                            </button>
+                                                        </div>
+                                                        <textarea
+                                                            value={filterQuery}
+                                                            onChange={(e) => setFilterQuery(e.target.value)}
+                                                            placeholder="<fetch><entity name='account'>...</entity></fetch>"
+                                                            className="modern-textarea"
+                                                            rows={6}
+                                                        />
+                                                        <p className="field-hint">Complete FetchXML query including entity and attributes</p>
+                                                    </>
+                                                )}
+                                            </div>
                                         </div>
-                                    </div>
-                                )}
-                            </div>
+                                    )}
+                                </div>
+                            )}
 
                             {/* Step 4: Settings */}
                             <div className={`step-card ${expandedSteps.has(4) ? "active" : "collapsed"}`}>
@@ -641,6 +1012,20 @@ function App() {
                                             <div className="setting-item">
                                                 <OperationSelector operations={operations} onOperationsChange={setOperations} />
                                             </div>
+                                            {sourceType === "dataverse" && (
+                                                <div className="setting-item">
+                                                    <label>Records to Migrate</label>
+                                                    <select className="modern-input" value={migrationScope} onChange={(e) => setMigrationScope(e.target.value as "selected" | "all")}>
+                                                        <option value="selected">Records selected in the preview</option>
+                                                        <option value="all">All records matching the filter</option>
+                                                    </select>
+                                                    <p className="field-hint">
+                                                        {migrationScope === "all"
+                                                            ? "The preview shows a sample; every page of the source query is read and migrated"
+                                                            : "Only the records selected in the preview (first 100) are migrated"}
+                                                    </p>
+                                                </div>
+                                            )}
                                             <div className="setting-item">
                                                 <label>Batch Size (Max 100)</label>
                                                 <input
@@ -651,8 +1036,59 @@ function App() {
                                                     max="100"
                                                     className="modern-input"
                                                 />
-                                                <p className="field-hint">Records per batch</p>
+                                                <p className="field-hint">{useBulkOperations ? "Records per CreateMultiple/UpdateMultiple request" : "Records per batch"}</p>
+                                            </div>
+                                            {sourceType === "dataverse" && (
+                                                <div className="setting-item">
+                                                    <div className="checkbox-group">
+                                                        <input type="checkbox" id="migrate-notes" checked={migrateNotes} onChange={(e) => setMigrateNotes(e.target.checked)} />
+                                                        <label htmlFor="migrate-notes">
+                                                            <strong>Notes and attachments</strong> - Copy the notes of each migrated record, including attached files
+                                                        </label>
+                                                    </div>
+                                                    <p className="field-hint">Selected File and Image columns are always copied, in 4 MB blocks, after the record is written.</p>
+                                                </div>
+                                            )}
+                                            <div className="setting-item">
+                                                <div className="checkbox-group">
+                                                    <input
+                                                        type="checkbox"
+                                                        id="preserve-system-fields"
+                                                        checked={preserveSystemFields}
+                                                        onChange={(e) => handlePreserveSystemFieldsChange(e.target.checked)}
+                                                    />
+                                                    <label htmlFor="preserve-system-fields">
+                                                        <strong>Preserve system fields</strong> - Keep the created date, owner, and status of the source records
+                                                    </label>
+                                                </div>
+                                                <p className="field-hint">
+                                                    Created On is written to Record Created On, owners are bound through the user/team auto-mappings, and Status/Status Reason are
+                                                    applied with a follow-up update.
+                                                </p>
+                                            </div>
+                                            <div className="setting-item">
+                                                <div className="checkbox-group">
+                                                    <input type="checkbox" id="use-bulk-operations" checked={useBulkOperations} onChange={(e) => setUseBulkOperations(e.target.checked)} />
+                                                    <label htmlFor="use-bulk-operations">
+                                                        <strong>Bulk requests</strong> - Send creates and updates as CreateMultiple/UpdateMultiple
+                                                    </label>
+                                                </div>
+                                                <p className="field-hint">Recommended for large loads. Failed requests are retried record by record so errors stay per record.</p>
                                             </div>
+                                            {useBulkOperations && (
+                                                <div className="setting-item">
+                                                    <label>Parallel Batches (Max 8)</label>
+                                                    <input
+                                                        type="number"
+                                                        value={parallelism}
+                                                        onChange={(e) => setParallelism(Math.min(8, Math.max(1, parseInt(e.target.value) || 1)))}
+                                                        min="1"
+                                                        max="8"
+                                                        className="modern-input"
+                                                    />
+                                                    <p className="field-hint">Batches sent to the target at the same time</p>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 )}
@@ -673,6 +1109,30 @@ function App() {
                                                 lookupMappings={lookupMappings.filter((l) => fieldMappings.find((f) => f.sourceField === l.fieldName && f.isEnabled))}
                                                 onLookupMappingsChange={setLookupMappings}
                                                 onAutoMapping={handleAutoMapping}
+                                                onLoadAlternateKeys={(entityLogicalName) => new DataverseClient("secondary").fetchAlternateKeys(entityLogicalName)}
+                                            />
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Step 6: N:N Relationships */}
+                            {manyToManyMappings.length > 0 && (
+                                <div className={`step-card ${expandedSteps.has(6) ? "active" : "collapsed"}`}>
+                                    <div className="step-header" onClick={() => toggleStep(6)}>
+                                        <div className="step-number">6</div>
+                                        <h2 className="step-title">N:N Relationships</h2>
+                                        <span className="step-count">{manyToManyMappings.filter((r) => r.isEnabled).length} selected</span>
+                                        <span className="step-badge">Optional</span>
+                                        <span className="step-toggle">{expandedSteps.has(6) ? "−" : "+"}</span>
+                                    </div>
+                                    {expandedSteps.has(6) && (
+                                        <div className="step-content">
+                                            <RelationshipSelector
+                                                relationships={manyToManyMappings}
+                                                disassociateMissing={disassociateMissing}
+                                                onRelationshipsChange={setManyToManyMappings}
+                                                onDisassociateMissingChange={setDisassociateMissing}
                                             />
                                         </div>
                                     )}
@@ -684,6 +1144,31 @@ function App() {
                                 <button className="btn-preview" onClick={handlePreview} disabled={loadingPreview || isMigrating}>
                                     {loadingPreview ? "Loading..." : "Preview Data"}
                                 </button>
+                                {sourceType === "dataverse" && (
+                                    <button
+                                        className="btn-secondary"
+                                        onClick={handleMirrorSyncCompare}
+                                        disabled={loadingMirrorSync || isMigrating}
+                                        title="Find target records that no longer exist in the source and delete or deactivate them"
+                                    >
+                                        {loadingMirrorSync ? "Comparing..." : "Mirror Sync"}
+                                    </button>
+                                )}
+                                {sourceType === "dataverse" && (
+                                    <button
+                                        className="btn-secondary"
+                                        onClick={() => setShowCompare(true)}
+                                        disabled={isMigrating}
+                                        title="Report records that exist in one environment only or whose mapped fields differ"
+                                    >
+                                        Compare
+                                    </button>
+                                )}
+                                {sourceType === "dataverse" && (
+                                    <button className="btn-secondary" onClick={handleAddToPlan} disabled={isMigrating} title="Add this table with its current settings to the migration plan">
+                                        {planConfigs.some((c) => c.entityLogicalName === selectedEntity.logicalName) ? "Update in Plan" : "Add to Plan"}
+                                    </button>
+                                )}
                             </div>
 
                             {/* Error Message - appears below preview button */}
@@ -697,8 +1182,24 @@ function App() {
                     )}
                 </div>
 
-                {/* Migration Progress - Always show section when entity is selected */}
-                {selectedEntity && (
+                {/* Interrupted or partially failed run */}
+                {runJournal && !isMigrating && (runJournal.status === "in-progress" || runJournal.records.some((r) => r.status === "error")) && (
+                    <RunJournalBanner journal={runJournal} onResume={() => handleResumeRun(false)} onRetryFailed={() => handleResumeRun(true)} onDiscard={handleDiscardRunJournal} />
+                )}
+
+                {/* Migration Plan */}
+                {planConfigs.length > 0 && (
+                    <MigrationPlanPanel
+                        plan={buildMigrationPlan(planConfigs)}
+                        isMigrating={isMigrating}
+                        onRemoveTable={handleRemoveFromPlan}
+                        onClearPlan={() => setPlanConfigs([])}
+                        onRunPlan={handleRunPlan}
+                    />
+                )}
+
+                {/* Migration Progress - Always show section when entity is selected or a plan exists */}
+                {(selectedEntity || planConfigs.length > 0 || migrationProgress) && (
                     <div className="progress-card">
                         {error && (isMigrating || migrationProgress) && (
                             <div className="error-message-progress">
@@ -723,13 +1224,53 @@ function App() {
                         previewRecords={previewRecords}
                         selectedFields={fieldMappings.filter((m) => m.isEnabled).map((m) => m.sourceField)}
                         fields={selectedEntity.fields}
+                        fieldMappings={fieldMappings}
+                        migrateAllRecords={migrationScope === "all"}
                         onClose={() => setShowPreview(false)}
                         onConfirm={handleStartMigration}
+                        onDryRun={handleDryRun}
+                    />
+                )}
+
+                {/* Mirror Sync Confirmation */}
+                {mirrorSyncComparison && selectedEntity && (
+                    <MirrorSyncModal
+                        comparison={mirrorSyncComparison}
+                        entityDisplayName={selectedEntity.displayName}
+                        action={mirrorSyncAction}
+                        onActionChange={setMirrorSyncAction}
+                        onClose={() => setMirrorSyncComparison(null)}
+                        onConfirm={handleMirrorSyncConfirm}
+                    />
+                )}
+
+                {/* Environment Comparison */}
+                {showCompare && selectedEntity && (
+                    <CompareModal
+                        entityDisplayName={selectedEntity.displayName}
+                        fields={selectedEntity.fields}
+                        fieldMappings={fieldMappings}
+                        onCompare={handleCompareEnvironments}
+                        onClose={() => setShowCompare(false)}
                     />
                 )}
 
                 {/* Auto-Mapping Panel */}
-                {showAutoMapping && <AutoMappingPanel userMappings={userMappings} teamMappings={teamMappings} businessUnitMappings={businessUnitMappings} onClose={() => setShowAutoMapping(false)} />}
+                {showAutoMapping && (
+                    <AutoMappingPanel
+                        userMappings={userMappings}
+                        teamMappings={teamMappings}
+                        businessUnitMappings={businessUnitMappings}
+                        defaultOwner={defaultOwner}
+                        isLoading={loadingAutoMapping}
+                        savedAt={principalMapSavedAt}
+                        onMappingChange={handlePrincipalMappingChange}
+                        onDefaultOwnerChange={handleDefaultOwnerChange}
+                        onSearch={handlePrincipalSearch}
+                        onSave={handleSavePrincipalMap}
+                        onClose={() => setShowAutoMapping(false)}
+                    />
+                )}
             </div>
         </div>
     );
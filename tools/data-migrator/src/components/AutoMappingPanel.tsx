@@ -1,18 +1,169 @@
-import { AutoMappingResult } from "../models/interfaces";
+import { useState } from "react";
+import { AutoMappingResult, PrincipalSearchResult, PrincipalType } from "../models/interfaces";
 
 interface AutoMappingPanelProps {
   userMappings: AutoMappingResult[];
   teamMappings: AutoMappingResult[];
   businessUnitMappings: AutoMappingResult[];
+  /** Target user that owns records whose source user has no match */
+  defaultOwner?: PrincipalSearchResult;
+  /** True while the auto-mapping is running */
+  isLoading?: boolean;
+  /** When the principal map was last saved (ISO timestamp) */
+  savedAt?: string;
+  onMappingChange: (principalType: PrincipalType, sourceId: string, target: PrincipalSearchResult | null) => void;
+  onDefaultOwnerChange: (owner: PrincipalSearchResult | undefined) => void;
+  onSearch: (principalType: PrincipalType, searchTerm: string) => Promise<PrincipalSearchResult[]>;
+  onSave: () => void;
   onClose: () => void;
 }
 
+const needsReview = (mapping: AutoMappingResult) => mapping.confidence === "none" || mapping.confidence === "low" || mapping.confidence === "medium";
+
+interface PrincipalSearchProps {
+  principalType: PrincipalType;
+  onSearch: AutoMappingPanelProps["onSearch"];
+  onSelect: (result: PrincipalSearchResult) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Search box that looks up users, teams or business units in the target
+ */
+function PrincipalSearch({ principalType, onSearch, onSelect, onCancel }: PrincipalSearchProps) {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [results, setResults] = useState<PrincipalSearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const handleSearch = async () => {
+    if (!searchTerm.trim()) return;
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      setResults(await onSearch(principalType, searchTerm));
+    } catch (error: any) {
+      setSearchError(error.message);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="principal-search">
+      <div style={{ display: "flex", gap: "6px" }}>
+        <input
+          type="text"
+          className="modern-input"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          placeholder="Search the target..."
+          style={{ marginBottom: 0, flex: 1 }}
+          autoFocus
+        />
+        <button className="btn-secondary" onClick={handleSearch} disabled={isSearching || !searchTerm.trim()}>
+          {isSearching ? "..." : "Search"}
+        </button>
+        <button className="btn-secondary" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+      {searchError && <div className="preview-warning-text">{searchError}</div>}
+      {results && results.length === 0 && <div className="preview-helper-text">No matching records in the target</div>}
+      {results && results.length > 0 && (
+        <div className="principal-search-results">
+          {results.map((result) => (
+            <button key={result.id} className="principal-search-result" onClick={() => onSelect(result)}>
+              <strong>{result.name}</strong>
+              {result.detail && <span>{result.detail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MappingSectionProps {
+  title: string;
+  principalType: PrincipalType;
+  mappings: AutoMappingResult[];
+  reviewOnly: boolean;
+  onMappingChange: AutoMappingPanelProps["onMappingChange"];
+  onSearch: AutoMappingPanelProps["onSearch"];
+}
+
+function MappingSection({ title, principalType, mappings, reviewOnly, onMappingChange, onSearch }: MappingSectionProps) {
+  const [editingSourceId, setEditingSourceId] = useState<string | null>(null);
+
+  const mappedCount = mappings.filter((m) => m.targetId).length;
+  const displayedMappings = reviewOnly ? mappings.filter(needsReview) : mappings;
+
+  return (
+    <div className="mapping-section">
+      <h4>
+        {title} ({mappedCount} of {mappings.length} mapped)
+      </h4>
+      <div className="mapping-list">
+        {displayedMappings.length === 0 ? (
+          <div className="mapping-item">{reviewOnly ? "Nothing to review" : `No ${title.toLowerCase()} found`}</div>
+        ) : (
+          displayedMappings.map((mapping) => (
+            <div key={mapping.sourceId} className="mapping-item">
+              <div style={{ fontWeight: 500 }}>{mapping.displayName}</div>
+              <div style={{ fontSize: "11px", color: "var(--text-secondary)" }}>
+                {mapping.targetId ? `→ ${mapping.targetDisplayName || mapping.targetId} • ` : ""}
+                {mapping.matchCriteria} • <span className={`confidence-${mapping.confidence}`}>{mapping.confidence}</span>
+              </div>
+              {editingSourceId === mapping.sourceId ? (
+                <PrincipalSearch
+                  principalType={principalType}
+                  onSearch={onSearch}
+                  onSelect={(result) => {
+                    onMappingChange(principalType, mapping.sourceId, result);
+                    setEditingSourceId(null);
+                  }}
+                  onCancel={() => setEditingSourceId(null)}
+                />
+              ) : (
+                <div className="mapping-item-actions">
+                  <button className="btn-mapping-action" onClick={() => setEditingSourceId(mapping.sourceId)}>
+                    {mapping.targetId ? "Change" : "Map"}
+                  </button>
+                  {mapping.targetId && (
+                    <button className="btn-mapping-action" onClick={() => onMappingChange(principalType, mapping.sourceId, null)}>
+                      Unmap
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function AutoMappingPanel({
   userMappings,
   teamMappings,
   businessUnitMappings,
+  defaultOwner,
+  isLoading = false,
+  savedAt,
+  onMappingChange,
+  onDefaultOwnerChange,
+  onSearch,
+  onSave,
   onClose,
 }: AutoMappingPanelProps) {
+  const [reviewOnly, setReviewOnly] = useState(false);
+  const [isEditingDefaultOwner, setIsEditingDefaultOwner] = useState(false);
+
+  const reviewCount = [...userMappings, ...teamMappings, ...businessUnitMappings].filter(needsReview).length;
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal" onClick={(e) => e.stopPropagation()}>
@@ -23,78 +174,72 @@ export function AutoMappingPanel({
           </button>
         </div>
 
-        <div className="mapping-grid">
-          <div className="mapping-section">
-            <h4>Users ({userMappings.length} mapped)</h4>
-            <div className="mapping-list">
-              {userMappings.length === 0 ? (
-                <div className="mapping-item">No users mapped</div>
-              ) : (
-                userMappings.map((mapping, index) => (
-                  <div key={index} className="mapping-item">
-                    <div style={{ fontWeight: 500 }}>{mapping.displayName}</div>
-                    <div
-                      style={{ fontSize: "11px", color: "var(--text-secondary)" }}
-                    >
-                      {mapping.matchCriteria} •{" "}
-                      <span className={`confidence-${mapping.confidence}`}>
-                        {mapping.confidence}
-                      </span>
-                    </div>
-                  </div>
-                ))
-              )}
-            </div>
+        {isLoading ? (
+          <div className="loading-card">
+            <div className="loading-spinner"></div>
+            <p>Matching users, teams, and business units...</p>
           </div>
-
-          <div className="mapping-section">
-            <h4>Teams ({teamMappings.length} mapped)</h4>
-            <div className="mapping-list">
-              {teamMappings.length === 0 ? (
-                <div className="mapping-item">No teams mapped</div>
-              ) : (
-                teamMappings.map((mapping, index) => (
-                  <div key={index} className="mapping-item">
-                    <div style={{ fontWeight: 500 }}>{mapping.displayName}</div>
-                    <div
-                      style={{ fontSize: "11px", color: "var(--text-secondary)" }}
-                    >
-                      {mapping.matchCriteria} •{" "}
-                      <span className={`confidence-${mapping.confidence}`}>
-                        {mapping.confidence}
-                      </span>
-                    </div>
-                  </div>
-                ))
-              )}
+        ) : (
+          <div className="auto-mapping-body">
+            <div className="auto-mapping-toolbar">
+              <div className="checkbox-group" style={{ border: "none", padding: 0 }}>
+                <input type="checkbox" id="review-only" checked={reviewOnly} onChange={(e) => setReviewOnly(e.target.checked)} />
+                <label htmlFor="review-only">Show only unmatched and medium/low confidence ({reviewCount})</label>
+              </div>
+              <div className="default-owner">
+                <span>
+                  Default owner for records with an unmatched owner: <strong>{defaultOwner ? defaultOwner.name : "none"}</strong>
+                </span>
+                {!isEditingDefaultOwner && (
+                  <>
+                    <button className="btn-mapping-action" onClick={() => setIsEditingDefaultOwner(true)}>
+                      {defaultOwner ? "Change" : "Set"}
+                    </button>
+                    {defaultOwner && (
+                      <button className="btn-mapping-action" onClick={() => onDefaultOwnerChange(undefined)}>
+                        Clear
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
             </div>
-          </div>
+            {isEditingDefaultOwner && (
+              <PrincipalSearch
+                principalType="users"
+                onSearch={onSearch}
+                onSelect={(result) => {
+                  onDefaultOwnerChange(result);
+                  setIsEditingDefaultOwner(false);
+                }}
+                onCancel={() => setIsEditingDefaultOwner(false)}
+              />
+            )}
 
-          <div className="mapping-section">
-            <h4>Business Units ({businessUnitMappings.length} mapped)</h4>
-            <div className="mapping-list">
-              {businessUnitMappings.length === 0 ? (
-                <div className="mapping-item">No business units mapped</div>
-              ) : (
-                businessUnitMappings.map((mapping, index) => (
-                  <div key={index} className="mapping-item">
-                    <div style={{ fontWeight: 500 }}>{mapping.displayName}</div>
-                    <div
-                      style={{ fontSize: "11px", color: "var(--text-secondary)" }}
-                    >
-                      {mapping.matchCriteria} •{" "}
-                      <span className={`confidence-${mapping.confidence}`}>
-                        {mapping.confidence}
-                      </span>
-                    </div>
-                  </div>
-                ))
-              )}
+            <div className="mapping-grid">
+              <MappingSection title="Users" principalType="users" mappings={userMappings} reviewOnly={reviewOnly} onMappingChange={onMappingChange} onSearch={onSearch} />
+              <MappingSection title="Teams" principalType="teams" mappings={teamMappings} reviewOnly={reviewOnly} onMappingChange={onMappingChange} onSearch={onSearch} />
+              <MappingSection
+                title="Business Units"
+                principalType="businessUnits"
+                mappings={businessUnitMappings}
+                reviewOnly={reviewOnly}
+                onMappingChange={onMappingChange}
+                onSearch={onSearch}
+              />
             </div>
           </div>
-        </div>
+        )}
 
-        <div style={{ marginTop: "24px", display: "flex", justifyContent: "flex-end" }}>
+        <div className="modal-footer" style={{ alignItems: "center" }}>
+          {savedAt && (
+            <span className="preview-helper-text" style={{ marginRight: "auto" }}>
+              Principal map saved {new Date(savedAt).toLocaleString()}
+            </span>
+          )}
+          <button className="btn-secondary" onClick={onSave} disabled={isLoading} title="Reuse these mappings in later migrations">
+            💾 Save Principal Map
+          </button>
           <button className="btn-primary" onClick={onClose}>
             Close
           </button>
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { ComparisonReport, DataverseField, FieldMapping } from "../models/interfaces";
+import { isFileFieldType } from "../utils/fieldUtils";
+import { ComparisonReportView } from "./ComparisonReportView";
+
+interface CompareModalProps {
+  entityDisplayName: string;
+  fields: DataverseField[];
+  fieldMappings: FieldMapping[];
+  onCompare: (matchFields: string[]) => Promise<ComparisonReport>;
+  onClose: () => void;
+}
+
+type MatchMode = "primaryKey" | "fields";
+
+export function CompareModal({ entityDisplayName, fields, fieldMappings, onCompare, onClose }: CompareModalProps) {
+  const [matchMode, setMatchMode] = useState<MatchMode>("primaryKey");
+  const [matchFields, setMatchFields] = useState<string[]>([]);
+  const [report, setReport] = useState<ComparisonReport | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  const fieldMap = new Map(fields.map((f) => [f.logicalName, f]));
+  const keyCandidates = fieldMappings.filter((m) => m.isEnabled && !isFileFieldType(m.fieldType));
+  const comparedCount = keyCandidates.length;
+
+  const handleToggleMatchField = (fieldName: string) => {
+    setMatchFields((prev) => (prev.includes(fieldName) ? prev.filter((f) => f !== fieldName) : [...prev, fieldName]));
+  };
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setCompareError(null);
+    try {
+      setReport(await onCompare(matchMode === "fields" ? matchFields : []));
+    } catch (error: any) {
+      setCompareError(error.message);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal preview-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>{report ? `Comparison Report: ${entityDisplayName}` : `Compare Environments: ${entityDisplayName}`}</h3>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        {compareError && (
+          <div className="error-message-progress">
+            <span>{compareError}</span>
+            <button onClick={() => setCompareError(null)} aria-label="Dismiss error">
+              ×
+            </button>
+          </div>
+        )}
+
+        {report ? (
+          <ComparisonReportView report={report} />
+        ) : (
+          <div className="preview-info">
+            <p>
+              Runs the current filter against the source and the target and compares the <strong>{comparedCount} selected fields</strong> of the matching records.
+              Nothing is written to either environment.
+            </p>
+            <div className="filter-type-selector" style={{ marginTop: "12px" }}>
+              <button className={`filter-type-btn ${matchMode === "primaryKey" ? "active" : ""}`} onClick={() => setMatchMode("primaryKey")}>
+                Match by Primary ID
+              </button>
+              <button className={`filter-type-btn ${matchMode === "fields" ? "active" : ""}`} onClick={() => setMatchMode("fields")}>
+                Match by Key Fields
+              </button>
+            </div>
+            {matchMode === "fields" && (
+              <>
+                <p className="preview-helper-text">Records whose values are equal in all selected fields are matched (case-insensitive).</p>
+                <div className="field-list" style={{ maxHeight: "240px", marginTop: "8px" }}>
+                  {keyCandidates.map((mapping) => (
+                    <div key={mapping.sourceField} className="checkbox-group">
+                      <input
+                        type="checkbox"
+                        id={`match-field-${mapping.sourceField}`}
+                        checked={matchFields.includes(mapping.sourceField)}
+                        onChange={() => handleToggleMatchField(mapping.sourceField)}
+                      />
+                      <label htmlFor={`match-field-${mapping.sourceField}`}>
+                        <strong>{fieldMap.get(mapping.sourceField)?.displayName || mapping.sourceField}</strong>
+                        <span style={{ color: "#605e5c", fontSize: "12px", marginLeft: "8px" }}>({mapping.sourceField})</span>
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="modal-footer">
+          {report && (
+            <button className="btn-secondary" onClick={() => setReport(null)}>
+              Back to Settings
+            </button>
+          )}
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+          {!report && (
+            <button className="btn-primary" onClick={handleCompare} disabled={isComparing || comparedCount === 0 || (matchMode === "fields" && matchFields.length === 0)}>
+              {isComparing ? "Comparing..." : "Compare"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { ComparisonReport, RecordComparisonResult } from "../models/interfaces";
+import { comparisonReportToCsv, comparisonReportToXlsx, downloadFile } from "../utils/exportUtils";
+
+interface ComparisonReportViewProps {
+  report: ComparisonReport;
+}
+
+type StatusFilter = "all" | RecordComparisonResult["status"];
+
+const MAX_DISPLAYED_RESULTS = 500;
+
+const STATUS_BADGES: Record<RecordComparisonResult["status"], { label: string; className: string }> = {
+  sourceOnly: { label: "only in source", className: "action-create" },
+  targetOnly: { label: "only in target", className: "action-delete" },
+  different: { label: "different", className: "action-update" },
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+export function ComparisonReportView({ report }: ComparisonReportViewProps) {
+  const [filter, setFilter] = useState<StatusFilter>("all");
+
+  const count = (status: RecordComparisonResult["status"]) => report.results.filter((r) => r.status === status).length;
+
+  const filteredResults = report.results.filter((r) => filter === "all" || r.status === filter);
+  const displayedResults = filteredResults.slice(0, MAX_DISPLAYED_RESULTS);
+
+  const fileName = `comparison-${report.entityLogicalName}-${Date.now()}`;
+
+  const handleExportXlsx = async () => {
+    try {
+      downloadFile(await comparisonReportToXlsx(report), `${fileName}.xlsx`, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    } catch (error: any) {
+      console.error("Failed to export the comparison report:", error);
+      alert(`Failed to export the comparison report: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="dry-run-report">
+      <div className="dry-run-summary">
+        <span className="action-badge action-create">{count("sourceOnly")} only in source</span>
+        <span className="action-badge action-delete">{count("targetOnly")} only in target</span>
+        <span className="action-badge action-update">{count("different")} different</span>
+        <span className="action-badge action-skip">{report.identicalCount} identical</span>
+
+        <div style={{ marginLeft: "auto", display: "flex", gap: "8px" }}>
+          <select className="modern-input" value={filter} onChange={(e) => setFilter(e.target.value as StatusFilter)} aria-label="Filter comparison results">
+            <option value="all">All differences</option>
+            <option value="sourceOnly">Only in source</option>
+            <option value="targetOnly">Only in target</option>
+            <option value="different">Different values</option>
+          </select>
+          <button className="btn-secondary" onClick={() => downloadFile(comparisonReportToCsv(report), `${fileName}.csv`, "text/csv")}>
+            Export CSV
+          </button>
+          <button className="btn-secondary" onClick={handleExportXlsx}>
+            Export Excel
+          </button>
+        </div>
+      </div>
+
+      <p className="preview-helper-text">
+        {report.sourceCount} source and {report.targetCount} target records matched by{" "}
+        {report.matchFields.length > 0 ? report.matchFields.join(", ") : "primary ID"}.
+      </p>
+
+      {filteredResults.length > MAX_DISPLAYED_RESULTS && (
+        <p className="preview-helper-text">
+          Showing the first {MAX_DISPLAYED_RESULTS} of {filteredResults.length} records. Export the report to see all of them.
+        </p>
+      )}
+
+      {filteredResults.length > 0 ? (
+        <div className="preview-table-container">
+          <table className="preview-table">
+            <thead>
+              <tr>
+                <th>Status</th>
+                <th>Key</th>
+                <th>Primary Name</th>
+                <th>Differences (source → target)</th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {displayedResults.map((result) => (
+                <tr key={`${result.status}-${result.sourceId || result.targetId}`}>
+                  <td>
+                    <span className={`action-badge ${STATUS_BADGES[result.status].className}`}>{STATUS_BADGES[result.status].label}</span>
+                  </td>
+                  <td>{result.key}</td>
+                  <td>{result.primaryName}</td>
+                  <td>
+                    {result.differences.map((difference) => (
+                      <div key={difference.field} className="dry-run-change">
+                        <strong>{difference.field}</strong>
+                        <span>{formatValue(difference.sourceValue)}</span> → <span className="transform-after">{formatValue(difference.targetValue)}</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td>{result.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="preview-helper-text">{report.results.length === 0 ? "The source and the target are identical for the mapped fields." : "No records match the filter."}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { DryRunReport, DryRunResult } from "../models/interfaces";
+import { downloadFile, dryRunReportToCsv } from "../utils/exportUtils";
+
+interface DryRunReportViewProps {
+  report: DryRunReport;
+}
+
+type ActionFilter = "all" | DryRunResult["action"] | "unresolved";
+
+const MAX_DISPLAYED_RESULTS = 500;
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+export function DryRunReportView({ report }: DryRunReportViewProps) {
+  const [filter, setFilter] = useState<ActionFilter>("all");
+
+  const count = (action: DryRunResult["action"]) => report.results.filter((r) => r.action === action).length;
+  const unresolvedCount = report.results.filter((r) => r.unresolvedLookups.length > 0).length;
+
+  const filteredResults = report.results.filter((r) =>
+    filter === "all" ? true : filter === "unresolved" ? r.unresolvedLookups.length > 0 : r.action === filter
+  );
+  const displayedResults = filteredResults.slice(0, MAX_DISPLAYED_RESULTS);
+
+  const fileName = `dry-run-${report.entityLogicalName}-${Date.now()}`;
+
+  return (
+    <div className="dry-run-report">
+      <div className="dry-run-summary">
+        <span className="action-badge action-create">{count("create")} create</span>
+        <span className="action-badge action-update">{count("update")} update</span>
+        <span className="action-badge action-delete">{count("delete")} delete</span>
+        <span className="action-badge action-skip">{count("skip")} skip</span>
+        {unresolvedCount > 0 && <span className="dry-run-unresolved">⚠️ {unresolvedCount} with unresolved lookups</span>}
+
+        <div style={{ marginLeft: "auto", display: "flex", gap: "8px" }}>
+          <select className="modern-input" value={filter} onChange={(e) => setFilter(e.target.value as ActionFilter)} aria-label="Filter dry-run results">
+            <option value="all">All records</option>
+            <option value="create">Create</option>
+            <option value="update">Update</option>
+            <option value="delete">Delete</option>
+            <option value="skip">Skip</option>
+            <option value="unresolved">Unresolved lookups</option>
+          </select>
+          <button className="btn-secondary" onClick={() => downloadFile(dryRunReportToCsv(report), `${fileName}.csv`, "text/csv")}>
+            Export CSV
+          </button>
+          <button className="btn-secondary" onClick={() => downloadFile(JSON.stringify(report, null, 2), `${fileName}.json`, "application/json")}>
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {filteredResults.length > MAX_DISPLAYED_RESULTS && (
+        <p className="preview-helper-text">
+          Showing the first {MAX_DISPLAYED_RESULTS} of {filteredResults.length} records. Export the report to see all of them.
+        </p>
+      )}
+
+      <div className="preview-table-container">
+        <table className="preview-table">
+          <thead>
+            <tr>
+              <th>Action</th>
+              <th>Primary ID</th>
+              <th>Primary Name</th>
+              <th>Changes</th>
+              <th>Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {displayedResults.map((result) => (
+              <tr key={result.sourceId}>
+                <td>
+                  <span className={`action-badge action-${result.action}`}>{result.action}</span>
+                </td>
+                <td>{result.sourceId}</td>
+                <td>{result.primaryName}</td>
+                <td>
+                  {result.changes.map((change) => (
+                    <div key={change.field} className="dry-run-change">
+                      <strong>{change.field}</strong>
+                      {result.action === "update" && <span className="transform-before">{formatValue(change.currentValue)}</span>}
+                      <span className="transform-after">{formatValue(change.newValue)}</span>
+                    </div>
+                  ))}
+                </td>
+                <td>
+                  {result.unresolvedLookups.map((message) => (
+                    <div key={message} className="dry-run-unresolved">
+                      {message}
+                    </div>
+                  ))}
+                  {result.message && <div>{result.message}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState } from "react";
-import { DataverseField, FieldMapping } from "../models/interfaces";
+import { DataverseField, FieldMapping, FieldTransform } from "../models/interfaces";
+import { isFileFieldType, isReferenceFieldType } from "../utils/fieldUtils";
+import { TransformEditor } from "./TransformEditor";
 
 type SortBy = "name" | "type";
 type SortOrder = "asc" | "desc";
@@ -8,16 +10,20 @@ interface FieldSelectorProps {
   fields: DataverseField[];
   fieldMappings: FieldMapping[];
   onFieldMappingsChange: (mappings: FieldMapping[]) => void;
+  /** Spreadsheet columns that can be mapped to the fields (file sources) */
+  sourceColumns?: string[];
 }
 
 export function FieldSelector({
   fields,
   fieldMappings,
   onFieldMappingsChange,
+  sourceColumns,
 }: FieldSelectorProps) {
   const [searchTerm, setSearchTerm] = useState<string>("");
   const [sortBy, setSortBy] = useState<SortBy>("name");
   const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
+  const [editingTransformsFor, setEditingTransformsFor] = useState<string | null>(null);
 
   const handleToggleField = (fieldName: string) => {
     const updatedMappings = fieldMappings.map((mapping) =>
@@ -28,10 +34,30 @@ export function FieldSelector({
     onFieldMappingsChange(updatedMappings);
   };
 
+  const handleColumnChange = (fieldName: string, column: string) => {
+    const updatedMappings = fieldMappings.map((mapping) =>
+      mapping.sourceField === fieldName
+        ? { ...mapping, sourceColumn: column || undefined, isEnabled: !!column }
+        : mapping
+    );
+    onFieldMappingsChange(updatedMappings);
+  };
+
+  const handleSaveTransforms = (fieldName: string, transforms: FieldTransform[]) => {
+    const updatedMappings = fieldMappings.map((mapping) =>
+      mapping.sourceField === fieldName
+        ? { ...mapping, transforms: transforms.length > 0 ? transforms : undefined }
+        : mapping
+    );
+    onFieldMappingsChange(updatedMappings);
+    setEditingTransformsFor(null);
+  };
+
   const handleSelectAll = () => {
+    // Fields of a file source can only be selected once a column is mapped to them
     const updatedMappings = fieldMappings.map((mapping) => ({
       ...mapping,
-      isEnabled: true,
+      isEnabled: sourceColumns ? !!mapping.sourceColumn : true,
     }));
     onFieldMappingsChange(updatedMappings);
   };
@@ -86,6 +112,7 @@ export function FieldSelector({
     });
 
   const selectedCount = fieldMappings.filter((m) => m.isEnabled).length;
+  const editingMapping = editingTransformsFor ? fieldMappings.find((m) => m.sourceField === editingTransformsFor) : undefined;
 
   return (
     <div className="config-section">
@@ -136,6 +163,7 @@ export function FieldSelector({
                 type="checkbox"
                 id={`field-${mapping.sourceField}`}
                 checked={mapping.isEnabled}
+                disabled={!!sourceColumns && !mapping.sourceColumn}
                 onChange={() => handleToggleField(mapping.sourceField)}
               />
               <label htmlFor={`field-${mapping.sourceField}`}>
@@ -147,6 +175,31 @@ export function FieldSelector({
                   {mapping.fieldType}
                 </span>
               </label>
+              {sourceColumns && !isFileFieldType(mapping.fieldType) && (
+                <select
+                  className="modern-input field-column-select"
+                  value={mapping.sourceColumn || ""}
+                  onChange={(e) => handleColumnChange(mapping.sourceField, e.target.value)}
+                  aria-label={`Column for ${field?.displayName || mapping.sourceField}`}
+                >
+                  <option value="">(not mapped)</option>
+                  {sourceColumns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!isReferenceFieldType(mapping.fieldType) && (
+                <button
+                  className={`btn-transform${mapping.transforms?.length ? " active" : ""}`}
+                  onClick={() => setEditingTransformsFor(mapping.sourceField)}
+                  title="Edit value transformations"
+                  aria-label={`Edit transformations for ${field?.displayName || mapping.sourceField}`}
+                >
+                  ƒx{mapping.transforms?.length ? ` ${mapping.transforms.length}` : ""}
+                </button>
+              )}
             </div>
           );
         })}
@@ -156,6 +209,15 @@ export function FieldSelector({
           </p>
         )}
       </div>
+
+      {editingMapping && (
+        <TransformEditor
+          mapping={editingMapping}
+          fieldDisplayName={fieldMap.get(editingMapping.sourceField)?.displayName || editingMapping.sourceField}
+          onSave={(transforms) => handleSaveTransforms(editingMapping.sourceField, transforms)}
+          onClose={() => setEditingTransformsFor(null)}
+        />
+      )}
     </div>
   );
 }
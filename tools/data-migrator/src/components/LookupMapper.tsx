@@ -1,22 +1,57 @@
 import { useState } from "react";
-import { LookupMapping } from "../models/interfaces";
+import { AlternateKey, LookupMapping, LookupStrategy } from "../models/interfaces";
 
 interface LookupMapperProps {
   lookupMappings: LookupMapping[];
   onLookupMappingsChange: (mappings: LookupMapping[]) => void;
   onAutoMapping: () => void;
+  onLoadAlternateKeys: (entityLogicalName: string) => Promise<AlternateKey[]>;
 }
 
 export function LookupMapper({
   lookupMappings,
   onLookupMappingsChange,
   onAutoMapping,
+  onLoadAlternateKeys,
 }: LookupMapperProps) {
   const [expandedMapping, setExpandedMapping] = useState<string | null>(null);
   // Use a Map to store input values per field to avoid shared state issues
   const [inputValues, setInputValues] = useState<Map<string, { source: string; target: string }>>(new Map());
+  // Alternate keys of the target tables, loaded on demand
+  const [alternateKeys, setAlternateKeys] = useState<Map<string, AlternateKey[]>>(new Map());
+  const [loadingKeysFor, setLoadingKeysFor] = useState<string | null>(null);
 
-  const handleStrategyChange = (fieldName: string, strategy: "auto" | "manual" | "skip") => {
+  const updateMapping = (fieldName: string, changes: Partial<LookupMapping>) => {
+    onLookupMappingsChange(
+      lookupMappings.map((mapping) => (mapping.fieldName === fieldName ? { ...mapping, ...changes } : mapping))
+    );
+  };
+
+  const loadAlternateKeys = async (entityLogicalName: string) => {
+    if (!entityLogicalName || alternateKeys.has(entityLogicalName)) {
+      return;
+    }
+
+    setLoadingKeysFor(entityLogicalName);
+    try {
+      const keys = await onLoadAlternateKeys(entityLogicalName);
+      setAlternateKeys((prev) => new Map(prev).set(entityLogicalName, keys));
+    } catch (error) {
+      console.error(`Failed to load alternate keys for ${entityLogicalName}:`, error);
+      setAlternateKeys((prev) => new Map(prev).set(entityLogicalName, []));
+    } finally {
+      setLoadingKeysFor(null);
+    }
+  };
+
+  const handleMatchModeChange = (mapping: LookupMapping, matchMode: "alternateKey" | "fields") => {
+    updateMapping(mapping.fieldName, { matchMode });
+    if (matchMode === "alternateKey") {
+      loadAlternateKeys(mapping.targetEntity);
+    }
+  };
+
+  const handleStrategyChange = (fieldName: string, strategy: LookupStrategy) => {
     const updatedMappings = lookupMappings.map((mapping) => {
       if (mapping.fieldName === fieldName) {
         const updatedMapping = { ...mapping, strategy };
@@ -24,6 +59,10 @@ export function LookupMapper({
         if (strategy === "manual" && !updatedMapping.manualMappings) {
           updatedMapping.manualMappings = new Map();
         }
+        // Default to matching on fields until the user picks an alternate key
+        if (strategy === "match" && !updatedMapping.matchMode) {
+          updatedMapping.matchMode = "fields";
+        }
         return updatedMapping;
       }
       return mapping;
@@ -129,16 +168,17 @@ export function LookupMapper({
                   onChange={(e) =>
                     handleStrategyChange(
                       mapping.fieldName,
-                      e.target.value as "auto" | "manual" | "skip"
+                      e.target.value as LookupStrategy
                     )
                   }
                   aria-label={`Mapping strategy for ${mapping.fieldDisplayName}`}
                 >
                   <option value="auto">Auto-Map</option>
                   <option value="manual">Manual Map</option>
+                  <option value="match">Match in Target</option>
                   <option value="skip">Skip</option>
                 </select>
-                {mapping.strategy === "manual" && (
+                {(mapping.strategy === "manual" || mapping.strategy === "match") && (
                   <button
                     className="btn-toggle"
                     onClick={() =>
@@ -148,8 +188,8 @@ export function LookupMapper({
                     }
                     aria-label={
                       expandedMapping === mapping.fieldName
-                        ? "Collapse manual mapping panel"
-                        : "Expand manual mapping panel"
+                        ? "Collapse mapping panel"
+                        : "Expand mapping panel"
                     }
                   >
                     {expandedMapping === mapping.fieldName ? "−" : "+"}
@@ -232,6 +272,72 @@ export function LookupMapper({
                 </p>
               </div>
             )}
+
+            {mapping.strategy === "match" && expandedMapping === mapping.fieldName && (
+              <div className="manual-mapping-panel">
+                <div className="match-mapping-row">
+                  <label htmlFor={`match-mode-${mapping.fieldName}`}>Match by</label>
+                  <select
+                    id={`match-mode-${mapping.fieldName}`}
+                    className="modern-input"
+                    value={mapping.matchMode || "fields"}
+                    onChange={(e) => handleMatchModeChange(mapping, e.target.value as "alternateKey" | "fields")}
+                  >
+                    <option value="fields">Match fields</option>
+                    <option value="alternateKey">Alternate key</option>
+                  </select>
+                </div>
+
+                {mapping.matchMode === "alternateKey" ? (
+                  <div className="match-mapping-row">
+                    <label htmlFor={`match-key-${mapping.fieldName}`}>Alternate key</label>
+                    {loadingKeysFor === mapping.targetEntity ? (
+                      <span className="manual-mapping-hint">Loading keys...</span>
+                    ) : (alternateKeys.get(mapping.targetEntity) || []).length === 0 && alternateKeys.has(mapping.targetEntity) ? (
+                      <span className="manual-mapping-hint">No alternate keys are defined on {mapping.targetEntity} in the target</span>
+                    ) : (
+                      <select
+                        id={`match-key-${mapping.fieldName}`}
+                        className="modern-input"
+                        value={mapping.alternateKey || ""}
+                        onFocus={() => loadAlternateKeys(mapping.targetEntity)}
+                        onChange={(e) => updateMapping(mapping.fieldName, { alternateKey: e.target.value || undefined })}
+                      >
+                        <option value="">Select a key...</option>
+                        {(alternateKeys.get(mapping.targetEntity) || []).map((key) => (
+                          <option key={key.logicalName} value={key.logicalName}>
+                            {key.displayName} ({key.keyAttributes.join(", ")})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ) : (
+                  <div className="match-mapping-row">
+                    <label htmlFor={`match-fields-${mapping.fieldName}`}>Match fields</label>
+                    <input
+                      id={`match-fields-${mapping.fieldName}`}
+                      type="text"
+                      className="modern-input"
+                      placeholder="e.g. accountnumber or emailaddress1"
+                      defaultValue={(mapping.matchFields || []).join(", ")}
+                      onBlur={(e) =>
+                        updateMapping(mapping.fieldName, {
+                          matchFields: e.target.value
+                            .split(",")
+                            .map((f) => f.trim().toLowerCase())
+                            .filter((f) => f.length > 0),
+                        })
+                      }
+                    />
+                  </div>
+                )}
+
+                <p className="manual-mapping-hint">
+                  💡 The referenced {mapping.targetEntity} record is read from the source and the target record with the same values is bound. Records that cannot be matched fail instead of keeping the source ID.
+                </p>
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,68 @@
+import { MigrationPlan } from "../models/interfaces";
+
+interface MigrationPlanPanelProps {
+  plan: MigrationPlan;
+  isMigrating: boolean;
+  onRemoveTable: (entityLogicalName: string) => void;
+  onClearPlan: () => void;
+  onRunPlan: () => void;
+}
+
+export function MigrationPlanPanel({
+  plan,
+  isMigrating,
+  onRemoveTable,
+  onClearPlan,
+  onRunPlan,
+}: MigrationPlanPanelProps) {
+  return (
+    <div className="plan-card">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <h3>Migration Plan ({plan.tables.length} {plan.tables.length === 1 ? "table" : "tables"})</h3>
+        <div style={{ display: "flex", gap: "8px" }}>
+          <button className="btn-secondary" onClick={onClearPlan} disabled={isMigrating}>
+            Clear Plan
+          </button>
+          <button className="btn-primary" onClick={onRunPlan} disabled={isMigrating || plan.tables.length === 0}>
+            {isMigrating ? "Running..." : "Run Plan"}
+          </button>
+        </div>
+      </div>
+      <p style={{ fontSize: "12px", color: "#605e5c", margin: "8px 0 12px 0" }}>
+        Tables run in the order below, derived from their lookups. Self-referencing and circular lookups are applied in a second pass, followed by N:N associations.
+      </p>
+
+      <div className="plan-list">
+        {plan.tables.map(({ config, deferredLookups }, index) => (
+          <div key={config.entityLogicalName} className="plan-item">
+            <div className="step-number">{index + 1}</div>
+            <div className="plan-item-details">
+              <div style={{ fontWeight: 500 }}>
+                {config.entityDisplayName} <span className="entity-option-logical">({config.entityLogicalName})</span>
+              </div>
+              <div style={{ fontSize: "11px", color: "var(--text-secondary)", marginTop: "2px" }}>
+                {config.operations.join(", ")} • {config.fieldMappings.filter((m) => m.isEnabled).length} fields
+                {config.filterQuery ? ` • ${config.filterType === "fetchxml" ? "FetchXML" : "OData"} filter` : ""}
+                {config.manyToManyMappings?.some((r) => r.isEnabled) ? ` • ${config.manyToManyMappings.filter((r) => r.isEnabled).length} N:N` : ""}
+              </div>
+              {deferredLookups.length > 0 && (
+                <div style={{ fontSize: "11px", color: "var(--warning-color)", marginTop: "2px" }}>
+                  Second pass: {deferredLookups.join(", ")}
+                </div>
+              )}
+            </div>
+            <button
+              className="btn-delete"
+              onClick={() => onRemoveTable(config.entityLogicalName)}
+              disabled={isMigrating}
+              title="Remove from plan"
+              aria-label={`Remove ${config.entityDisplayName} from plan`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
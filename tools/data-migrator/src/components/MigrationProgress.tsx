@@ -4,9 +4,14 @@ interface MigrationProgressProps {
   progress: MigrationProgressType;
 }
 
+// Rendering every record of a large load would freeze the UI; only the most recent ones are listed
+const MAX_DISPLAYED_RECORDS = 500;
+
 export function MigrationProgress({ progress }: MigrationProgressProps) {
   const progressPercentage =
     progress.total > 0 ? (progress.processed / progress.total) * 100 : 0;
+  const displayedRecords =
+    progress.records.length > MAX_DISPLAYED_RECORDS ? progress.records.slice(-MAX_DISPLAYED_RECORDS) : progress.records;
 
   return (
     <div className="progress-panel">
@@ -14,6 +19,7 @@ export function MigrationProgress({ progress }: MigrationProgressProps) {
         <h3>Migration Progress</h3>
         <span>
           {progress.processed} / {progress.total}
+          {progress.isCounting ? "+ (reading source...)" : ""}
         </span>
       </div>
 
@@ -49,22 +55,40 @@ export function MigrationProgress({ progress }: MigrationProgressProps) {
         </div>
       </div>
 
+      {progress.totalTables && progress.currentTable && (
+        <p style={{ fontSize: "13px", color: "var(--text-secondary)", marginBottom: "4px" }}>
+          {progress.phase === "deferred-lookups" ? "Applying deferred lookups for" : progress.phase === "associations" ? "Replaying N:N associations for" : "Migrating"} table{" "}
+          {progress.currentTableIndex} of {progress.totalTables}: <strong>{progress.currentTable}</strong>
+        </p>
+      )}
+
+      {!progress.totalTables && progress.phase === "associations" && progress.isInProgress && (
+        <p style={{ fontSize: "13px", color: "var(--text-secondary)", marginBottom: "4px" }}>Replaying N:N associations...</p>
+      )}
+
       {progress.currentBatch && progress.totalBatches && (
         <p style={{ fontSize: "13px", color: "var(--text-secondary)", marginBottom: "12px" }}>
           Processing batch {progress.currentBatch} of {progress.totalBatches}
         </p>
       )}
 
-      <h4 style={{ marginBottom: "12px" }}>Records</h4>
+      <h4 style={{ marginBottom: "12px" }}>
+        Records
+        {displayedRecords.length < progress.records.length && (
+          <span style={{ fontSize: "12px", fontWeight: 400, color: "var(--text-secondary)" }}>
+            {" "}(latest {displayedRecords.length} of {progress.records.length})
+          </span>
+        )}
+      </h4>
       <div className="record-list">
-        {progress.records.map((record, index) => (
+        {displayedRecords.map((record, index) => (
           <div key={index} className="record-item">
             <div>
               <div style={{ fontWeight: 500 }}>
                 {record.primaryName || record.displayName}
               </div>
               <div style={{ fontSize: "11px", color: "var(--text-secondary)", marginTop: "2px" }}>
-                ID: {record.sourceId}
+                {progress.totalTables && record.entityLogicalName ? `${record.entityLogicalName} • ` : ""}ID: {record.sourceId}
               </div>
               {record.errorMessage && (
                 <div style={{ fontSize: "12px", color: "var(--error-color)", marginTop: "4px" }}>
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { MirrorSyncCandidate, MirrorSyncComparison } from "../models/interfaces";
+
+interface MirrorSyncModalProps {
+  comparison: MirrorSyncComparison;
+  entityDisplayName: string;
+  action: "delete" | "deactivate";
+  onActionChange: (action: "delete" | "deactivate") => void;
+  onClose: () => void;
+  onConfirm: (candidates: MirrorSyncCandidate[]) => void;
+}
+
+const MAX_DISPLAYED_CANDIDATES = 500;
+
+export function MirrorSyncModal({ comparison, entityDisplayName, action, onActionChange, onClose, onConfirm }: MirrorSyncModalProps) {
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+
+  const { candidates } = comparison;
+  const selectedCandidates = candidates.filter((c) => !excludedIds.has(c.targetId));
+  const displayedCandidates = candidates.slice(0, MAX_DISPLAYED_CANDIDATES);
+  const allSelected = selectedCandidates.length === candidates.length;
+
+  const handleToggle = (targetId: string) => {
+    const updated = new Set(excludedIds);
+    if (updated.has(targetId)) {
+      updated.delete(targetId);
+    } else {
+      updated.add(targetId);
+    }
+    setExcludedIds(updated);
+  };
+
+  const handleToggleAll = () => {
+    setExcludedIds(allSelected ? new Set(candidates.map((c) => c.targetId)) : new Set());
+  };
+
+  const actionLabel = action === "delete" ? "Delete" : "Deactivate";
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal preview-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Mirror Sync: {entityDisplayName}</h3>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="preview-info">
+          <p>
+            The source query returned <strong>{comparison.sourceCount} records</strong> and the same query against the target returned{" "}
+            <strong>{comparison.targetCount} records</strong>. <strong>{candidates.length}</strong> target{" "}
+            {candidates.length === 1 ? "record is" : "records are"} missing from the source.
+          </p>
+          <p className="preview-helper-text">Records are matched by primary ID. Review the list and deselect any record that must be kept.</p>
+          {comparison.sourceCount === 0 && candidates.length > 0 && (
+            <p className="preview-warning-text">⚠️ The source query returned no records, so every target record matching the filter is listed.</p>
+          )}
+          <div className="setting-item" style={{ marginTop: "12px" }}>
+            <label>Action</label>
+            <select className="modern-input" value={action} onChange={(e) => onActionChange(e.target.value as "delete" | "deactivate")}>
+              <option value="delete">Delete the records (cannot be undone)</option>
+              <option value="deactivate">Deactivate the records</option>
+            </select>
+          </div>
+        </div>
+
+        {candidates.length > 0 ? (
+          <div className="preview-table-container">
+            {candidates.length > MAX_DISPLAYED_CANDIDATES && (
+              <p className="preview-helper-text">
+                Showing the first {MAX_DISPLAYED_CANDIDATES} of {candidates.length} records. Records that are not shown stay selected.
+              </p>
+            )}
+            <table className="preview-table">
+              <thead>
+                <tr>
+                  <th style={{ width: "40px" }}>
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={handleToggleAll}
+                      aria-label={allSelected ? "Deselect all records" : "Select all records"}
+                    />
+                  </th>
+                  <th>Target ID</th>
+                  <th>Primary Name</th>
+                </tr>
+              </thead>
+              <tbody>
+                {displayedCandidates.map((candidate) => (
+                  <tr key={candidate.targetId} className={excludedIds.has(candidate.targetId) ? "row-unselected" : ""}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={!excludedIds.has(candidate.targetId)}
+                        onChange={() => handleToggle(candidate.targetId)}
+                        aria-label={`Select record ${candidate.primaryName || candidate.targetId}`}
+                      />
+                    </td>
+                    <td>{candidate.targetId}</td>
+                    <td>{candidate.primaryName}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="preview-info">
+            <p>The target is in sync with the source. Nothing to remove.</p>
+          </div>
+        )}
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onConfirm(selectedCandidates)} disabled={selectedCandidates.length === 0}>
+            {actionLabel} {selectedCandidates.length} {selectedCandidates.length === 1 ? "record" : "records"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
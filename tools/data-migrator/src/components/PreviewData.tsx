@@ -1,20 +1,31 @@
 import { useState } from "react";
-import { PreviewRecord, DataverseField } from "../models/interfaces";
+import { PreviewRecord, DataverseField, DryRunReport, FieldMapping } from "../models/interfaces";
+import { applyFieldTransforms } from "../utils/transformUtils";
+import { DryRunReportView } from "./DryRunReportView";
 
 interface PreviewDataProps {
   previewRecords: PreviewRecord[];
   selectedFields: string[];
   fields: DataverseField[];
+  /** Field mappings, used to show transformed values next to the source values */
+  fieldMappings?: FieldMapping[];
+  /** When true the preview is a sample and the complete filtered result set is migrated */
+  migrateAllRecords?: boolean;
   onClose: () => void;
   onConfirm: (selectedRecords: PreviewRecord[]) => void;
+  /** Simulates the migration of the selected records against the target without writing */
+  onDryRun?: (selectedRecords: PreviewRecord[]) => Promise<DryRunReport>;
 }
 
 export function PreviewData({
   previewRecords,
   selectedFields,
   fields,
+  fieldMappings = [],
+  migrateAllRecords = false,
   onClose,
   onConfirm,
+  onDryRun,
 }: PreviewDataProps) {
   // Initialize local state for selections
   const [records, setRecords] = useState<PreviewRecord[]>(() => 
@@ -25,11 +36,36 @@ export function PreviewData({
   const [currentPage, setCurrentPage] = useState(1);
   const recordsPerPage = 100;
 
+  // Dry run state
+  const [dryRunReport, setDryRunReport] = useState<DryRunReport | null>(null);
+  const [isRunningDryRun, setIsRunningDryRun] = useState(false);
+  const [dryRunError, setDryRunError] = useState<string | null>(null);
+
   const getFieldDisplayName = (logicalName: string) => {
     const field = fields.find((f) => f.logicalName === logicalName);
     return field?.displayName || logicalName;
   };
 
+  const renderCell = (record: PreviewRecord, fieldName: string) => {
+    const before = record.data[fieldName];
+    const mapping = fieldMappings.find((m) => m.sourceField === fieldName);
+    if (!mapping?.transforms?.length) {
+      return before?.toString() || "";
+    }
+
+    const after = applyFieldTransforms(before, mapping.transforms, record.data, mapping.fieldType);
+    if (after === before) {
+      return before?.toString() || "";
+    }
+
+    return (
+      <>
+        <span className="transform-before">{before?.toString() || "(empty)"}</span>
+        <span className="transform-after">{after?.toString() || "(empty)"}</span>
+      </>
+    );
+  };
+
   const selectedCount = records.filter(r => r.isSelected).length;
   const totalPages = Math.ceil(records.length / recordsPerPage);
   const startIndex = (currentPage - 1) * recordsPerPage;
@@ -65,6 +101,19 @@ export function PreviewData({
     onConfirm(selectedRecords);
   };
 
+  const handleDryRun = async () => {
+    if (!onDryRun) return;
+    setIsRunningDryRun(true);
+    setDryRunError(null);
+    try {
+      setDryRunReport(await onDryRun(records.filter(r => r.isSelected)));
+    } catch (error: any) {
+      setDryRunError(error.message);
+    } finally {
+      setIsRunningDryRun(false);
+    }
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div
@@ -72,130 +121,169 @@ export function PreviewData({
         onClick={(e) => e.stopPropagation()}
       >
         <div className="modal-header">
-          <h3>Preview Migration Data</h3>
+          <h3>{dryRunReport ? "Dry Run Report" : "Preview Migration Data"}</h3>
           <button className="modal-close" onClick={onClose}>
             ×
           </button>
         </div>
 
-        <div className="preview-info">
-          <p>
-            <strong>{selectedCount} of {records.length} records</strong> selected for migration.
-          </p>
-          <p className="preview-helper-text">
-            {records.length > recordsPerPage
-              ? `Use checkboxes to select/deselect records. Selections are preserved as you navigate between pages. Currently viewing page ${currentPage} of ${totalPages}.`
-              : "Use checkboxes to select/deselect records before migrating."}
-          </p>
-          {records.length > recordsPerPage && (
-            <p className="preview-warning-text">
-              ⚠️ You have {records.length} records. Use pagination below to review and select records from all pages.
-            </p>
-          )}
-        </div>
+        {dryRunError && (
+          <div className="error-message-progress">
+            <span>{dryRunError}</span>
+            <button onClick={() => setDryRunError(null)} aria-label="Dismiss error">
+              ×
+            </button>
+          </div>
+        )}
+
+        {dryRunReport ? (
+          <DryRunReportView report={dryRunReport} />
+        ) : (
+          <>
+            <div className="preview-info">
+              {migrateAllRecords ? (
+                <p>
+                  Showing a sample of <strong>{records.length} records</strong>. All records matching the filter will be migrated.
+                </p>
+              ) : (
+                <p>
+                  <strong>{selectedCount} of {records.length} records</strong> selected for migration.
+                </p>
+              )}
+              <p className="preview-helper-text">
+                {records.length > recordsPerPage
+                  ? `Use checkboxes to select/deselect records. Selections are preserved as you navigate between pages. Currently viewing page ${currentPage} of ${totalPages}.`
+                  : "Use checkboxes to select/deselect records before migrating."}
+              </p>
+              {records.length > recordsPerPage && (
+                <p className="preview-warning-text">
+                  ⚠️ You have {records.length} records. Use pagination below to review and select records from all pages.
+                </p>
+              )}
+            </div>
 
-        <div className="preview-table-container">
-          <table className="preview-table">
-            <thead>
-              <tr>
-                <th style={{ width: '40px' }}>
-                  <input
-                    type="checkbox"
-                    checked={allDisplayedSelected}
-                    ref={input => {
-                      if (input) input.indeterminate = someDisplayedSelected;
-                    }}
-                    onChange={handleToggleAll}
-                    title={allDisplayedSelected ? "Deselect all displayed" : "Select all displayed"}
-                    aria-label={allDisplayedSelected ? "Deselect all displayed records" : "Select all displayed records"}
-                  />
-                </th>
-                <th>Action</th>
-                <th>Primary ID</th>
-                <th>Primary Name</th>
-                {selectedFields.map((fieldName) => (
-                  <th key={fieldName}>{getFieldDisplayName(fieldName)}</th>
-                ))}
-              </tr>
-            </thead>
-            <tbody>
-              {displayedRecords.map((record, index) => (
-                <tr key={startIndex + index} className={record.isSelected ? '' : 'row-unselected'}>
-                  <td>
-                    <input
-                      type="checkbox"
-                      checked={record.isSelected}
-                      onChange={() => handleToggleRecord(index)}
-                      aria-label={`Select record ${record.primaryName || record.primaryId}`}
-                    />
-                  </td>
-                  <td>
-                    <span className={`action-badge action-${record.action.toLowerCase()}`}>
-                      {record.action}
-                    </span>
-                  </td>
-                  <td>{record.primaryId}</td>
-                  <td>{record.primaryName}</td>
-                  {selectedFields.map((fieldName) => (
-                    <td key={fieldName}>
-                      {record.data[fieldName]?.toString() || ""}
-                    </td>
+            <div className="preview-table-container">
+              <table className="preview-table">
+                <thead>
+                  <tr>
+                    <th style={{ width: '40px' }}>
+                      <input
+                        type="checkbox"
+                        checked={allDisplayedSelected}
+                        ref={input => {
+                          if (input) input.indeterminate = someDisplayedSelected;
+                        }}
+                        onChange={handleToggleAll}
+                        title={allDisplayedSelected ? "Deselect all displayed" : "Select all displayed"}
+                        aria-label={allDisplayedSelected ? "Deselect all displayed records" : "Select all displayed records"}
+                      />
+                    </th>
+                    <th>Action</th>
+                    <th>Primary ID</th>
+                    <th>Primary Name</th>
+                    {selectedFields.map((fieldName) => (
+                      <th key={fieldName}>{getFieldDisplayName(fieldName)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {displayedRecords.map((record, index) => (
+                    <tr key={startIndex + index} className={record.isSelected ? '' : 'row-unselected'}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={record.isSelected}
+                          onChange={() => handleToggleRecord(index)}
+                          aria-label={`Select record ${record.primaryName || record.primaryId}`}
+                        />
+                      </td>
+                      <td>
+                        <span className={`action-badge action-${record.action.toLowerCase()}`}>
+                          {record.action}
+                        </span>
+                      </td>
+                      <td>{record.primaryId}</td>
+                      <td>{record.primaryName}</td>
+                      {selectedFields.map((fieldName) => (
+                        <td key={fieldName}>
+                          {renderCell(record, fieldName)}
+                        </td>
+                      ))}
+                    </tr>
                   ))}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-          {totalPages > 1 && (
-            <div className="preview-pagination">
-              <button 
-                className="pagination-btn" 
-                onClick={() => handlePageChange(1)}
-                disabled={currentPage === 1}
-                aria-label="First page"
-              >
-                «
-              </button>
-              <button 
-                className="pagination-btn" 
-                onClick={() => handlePageChange(currentPage - 1)}
-                disabled={currentPage === 1}
-                aria-label="Previous page"
-              >
-                ‹
-              </button>
-              <span className="pagination-info">
-                Page {currentPage} of {totalPages} (Records {startIndex + 1}-{Math.min(endIndex, records.length)} of {records.length})
-              </span>
-              <button 
-                className="pagination-btn" 
-                onClick={() => handlePageChange(currentPage + 1)}
-                disabled={currentPage === totalPages}
-                aria-label="Next page"
-              >
-                ›
-              </button>
-              <button 
-                className="pagination-btn" 
-                onClick={() => handlePageChange(totalPages)}
-                disabled={currentPage === totalPages}
-                aria-label="Last page"
-              >
-                »
-              </button>
+                </tbody>
+              </table>
+              {totalPages > 1 && (
+                <div className="preview-pagination">
+                  <button 
+                    className="pagination-btn" 
+                    onClick={() => handlePageChange(1)}
+                    disabled={currentPage === 1}
+                    aria-label="First page"
+                  >
+                    «
+                  </button>
+                  <button 
+                    className="pagination-btn" 
+                    onClick={() => handlePageChange(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    aria-label="Previous page"
+                  >
+                    ‹
+                  </button>
+                  <span className="pagination-info">
+                    Page {currentPage} of {totalPages} (Records {startIndex + 1}-{Math.min(endIndex, records.length)} of {records.length})
+                  </span>
+                  <button 
+                    className="pagination-btn" 
+                    onClick={() => handlePageChange(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                    aria-label="Next page"
+                  >
+                    ›
+                  </button>
+                  <button 
+                    className="pagination-btn" 
+                    onClick={() => handlePageChange(totalPages)}
+                    disabled={currentPage === totalPages}
+                    aria-label="Last page"
+                  >
+                    »
+                  </button>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
 
         <div className="modal-footer">
           <button className="btn-secondary" onClick={onClose}>
             Cancel
           </button>
+          {dryRunReport ? (
+            <button className="btn-secondary" onClick={() => setDryRunReport(null)}>
+              Back to Records
+            </button>
+          ) : (
+            onDryRun && (
+              <button
+                className="btn-secondary"
+                onClick={handleDryRun}
+                disabled={isRunningDryRun || (!migrateAllRecords && selectedCount === 0)}
+                title="Compare against the target without writing any data"
+              >
+                {isRunningDryRun ? "Running Dry Run..." : "Dry Run"}
+              </button>
+            )
+          )}
           <button 
             className="btn-primary" 
             onClick={handleConfirm}
-            disabled={selectedCount === 0}
+            disabled={!migrateAllRecords && selectedCount === 0}
           >
-            {selectedCount === 0 
+            {migrateAllRecords
+              ? "Start Migration (All matching records)"
+              : selectedCount === 0 
               ? "Start Migration (No records selected)" 
               : `Start Migration (${selectedCount} ${selectedCount === 1 ? 'record' : 'records'})`}
           </button>
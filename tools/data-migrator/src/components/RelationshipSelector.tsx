@@ -0,0 +1,64 @@
+import { ManyToManyMapping } from "../models/interfaces";
+
+interface RelationshipSelectorProps {
+  relationships: ManyToManyMapping[];
+  disassociateMissing: boolean;
+  onRelationshipsChange: (relationships: ManyToManyMapping[]) => void;
+  onDisassociateMissingChange: (disassociateMissing: boolean) => void;
+}
+
+export function RelationshipSelector({
+  relationships,
+  disassociateMissing,
+  onRelationshipsChange,
+  onDisassociateMissingChange,
+}: RelationshipSelectorProps) {
+  const handleToggle = (schemaName: string) => {
+    onRelationshipsChange(
+      relationships.map((r) => (r.schemaName === schemaName ? { ...r, isEnabled: !r.isEnabled } : r))
+    );
+  };
+
+  return (
+    <div className="config-section">
+      <p className="field-hint" style={{ margin: "0 0 12px 0" }}>
+        Associations of the selected relationships are replayed in the target after the records have been migrated. Related records are matched
+        through the records migrated in the same run (or plan) and otherwise by their ID.
+      </p>
+
+      <div className="field-list">
+        {relationships.map((relationship) => (
+          <div key={relationship.schemaName} className="checkbox-group">
+            <input
+              type="checkbox"
+              id={`relationship-${relationship.schemaName}`}
+              checked={relationship.isEnabled}
+              onChange={() => handleToggle(relationship.schemaName)}
+            />
+            <label htmlFor={`relationship-${relationship.schemaName}`}>
+              <strong>{relationship.schemaName}</strong>
+              <span style={{ color: "#605e5c", fontSize: "12px", marginLeft: "8px" }}>
+                → {relationship.relatedEntityLogicalName}
+              </span>
+              <span style={{ color: "#8a8886", fontSize: "11px", marginLeft: "6px", fontStyle: "italic" }}>
+                {relationship.intersectEntityName}
+              </span>
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <div className="checkbox-group" style={{ marginTop: "12px" }}>
+        <input
+          type="checkbox"
+          id="disassociate-missing"
+          checked={disassociateMissing}
+          onChange={(e) => onDisassociateMissingChange(e.target.checked)}
+        />
+        <label htmlFor="disassociate-missing">
+          <strong>Remove extra associations</strong> - Disassociate target links of the migrated records that do not exist in the source
+        </label>
+      </div>
+    </div>
+  );
+}
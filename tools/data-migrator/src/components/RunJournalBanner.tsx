@@ -0,0 +1,42 @@
+import { MigrationRunJournal } from "../models/interfaces";
+
+interface RunJournalBannerProps {
+  journal: MigrationRunJournal;
+  onResume: () => void;
+  onRetryFailed: () => void;
+  onDiscard: () => void;
+}
+
+export function RunJournalBanner({ journal, onResume, onRetryFailed, onDiscard }: RunJournalBannerProps) {
+  const succeeded = journal.records.filter((r) => r.status === "success").length;
+  const failed = journal.records.filter((r) => r.status === "error").length;
+  const isInterrupted = journal.status === "in-progress";
+  const tableNames = journal.tables.map((t) => t.config.entityDisplayName || t.config.entityLogicalName).join(", ");
+
+  return (
+    <div className="journal-banner">
+      <div>
+        <strong>{isInterrupted ? "Interrupted migration run" : "Previous migration run has failed records"}</strong>
+        <div className="journal-banner-details">
+          {tableNames} • started {new Date(journal.startedAt).toLocaleString()} • {succeeded} succeeded • {failed} failed
+          {isInterrupted && " • stopped before all records were processed"}
+        </div>
+      </div>
+      <div className="journal-banner-actions">
+        <button className="btn-secondary" onClick={onDiscard}>
+          Discard
+        </button>
+        {failed > 0 && (
+          <button className="btn-secondary" onClick={onRetryFailed}>
+            Retry Failed ({failed})
+          </button>
+        )}
+        {isInterrupted && (
+          <button className="btn-primary" onClick={onResume}>
+            Resume
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
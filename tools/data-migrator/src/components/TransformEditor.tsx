@@ -0,0 +1,244 @@
+import { useState } from "react";
+import { FieldMapping, FieldTransform, FieldTransformType } from "../models/interfaces";
+import { createTransform, getSupportedTimeZones, isValidTimeZone, TRANSFORM_LABELS } from "../utils/transformUtils";
+
+const TIME_ZONES = getSupportedTimeZones();
+
+interface TransformEditorProps {
+  mapping: FieldMapping;
+  fieldDisplayName: string;
+  onSave: (transforms: FieldTransform[]) => void;
+  onClose: () => void;
+}
+
+export function TransformEditor({
+  mapping,
+  fieldDisplayName,
+  onSave,
+  onClose,
+}: TransformEditorProps) {
+  const [transforms, setTransforms] = useState<FieldTransform[]>(mapping.transforms || []);
+  const [newType, setNewType] = useState<FieldTransformType>("constant");
+
+  const hasInvalidTimeZone = transforms.some(
+    (t) => t.type === "timeZone" && (!isValidTimeZone(t.fromTimeZone) || !isValidTimeZone(t.toTimeZone)),
+  );
+
+  const updateTransform = (index: number, transform: FieldTransform) => {
+    setTransforms(transforms.map((t, i) => (i === index ? transform : t)));
+  };
+
+  const removeTransform = (index: number) => {
+    setTransforms(transforms.filter((_, i) => i !== index));
+  };
+
+  const moveTransform = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= transforms.length) return;
+    const reordered = [...transforms];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTransforms(reordered);
+  };
+
+  const renderTimeZoneSelect = (value: string, label: string, onChange: (timeZone: string) => void) => (
+    <select className="modern-input" value={value} onChange={(e) => onChange(e.target.value)} aria-label={label}>
+      {/* A zone saved in an older configuration that this runtime does not know */}
+      {!TIME_ZONES.includes(value) && <option value={value}>{value || "(none)"} - not supported</option>}
+      {TIME_ZONES.map((timeZone) => (
+        <option key={timeZone} value={timeZone}>
+          {timeZone}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderParameters = (transform: FieldTransform, index: number) => {
+    switch (transform.type) {
+      case "constant":
+      case "default":
+        return (
+          <input
+            type="text"
+            className="modern-input"
+            placeholder={transform.type === "constant" ? "Value written for every record" : "Value used when the source is empty"}
+            value={transform.value}
+            onChange={(e) => updateTransform(index, { ...transform, value: e.target.value })}
+          />
+        );
+
+      case "template":
+        return (
+          <input
+            type="text"
+            className="modern-input"
+            placeholder="e.g. {firstname} {lastname}"
+            value={transform.template}
+            onChange={(e) => updateTransform(index, { ...transform, template: e.target.value })}
+          />
+        );
+
+      case "text":
+        return (
+          <select
+            className="modern-input"
+            value={transform.operation}
+            onChange={(e) => updateTransform(index, { ...transform, operation: e.target.value as typeof transform.operation })}
+          >
+            <option value="trim">Trim whitespace</option>
+            <option value="uppercase">UPPERCASE</option>
+            <option value="lowercase">lowercase</option>
+            <option value="titlecase">Title Case</option>
+          </select>
+        );
+
+      case "dateShift":
+        return (
+          <div className="transform-inline">
+            <input
+              type="number"
+              className="modern-input"
+              value={transform.days}
+              onChange={(e) => updateTransform(index, { ...transform, days: parseInt(e.target.value) || 0 })}
+              aria-label="Days"
+            />
+            <span>days</span>
+            <input
+              type="number"
+              className="modern-input"
+              value={transform.hours}
+              onChange={(e) => updateTransform(index, { ...transform, hours: parseInt(e.target.value) || 0 })}
+              aria-label="Hours"
+            />
+            <span>hours</span>
+          </div>
+        );
+
+      case "timeZone":
+        return (
+          <div className="transform-inline">
+            {renderTimeZoneSelect(transform.fromTimeZone, "From time zone", (fromTimeZone) => updateTransform(index, { ...transform, fromTimeZone }))}
+            <span>→</span>
+            {renderTimeZoneSelect(transform.toTimeZone, "To time zone", (toTimeZone) => updateTransform(index, { ...transform, toTimeZone }))}
+          </div>
+        );
+
+      case "valueMap":
+        return (
+          <div>
+            {transform.mappings.map((entry, entryIndex) => (
+              <div key={entryIndex} className="transform-inline" style={{ marginBottom: "6px" }}>
+                <input
+                  type="text"
+                  className="modern-input"
+                  placeholder="Source value"
+                  value={entry.source}
+                  onChange={(e) =>
+                    updateTransform(index, {
+                      ...transform,
+                      mappings: transform.mappings.map((m, i) => (i === entryIndex ? { ...m, source: e.target.value } : m)),
+                    })
+                  }
+                  aria-label="Source value"
+                />
+                <span>→</span>
+                <input
+                  type="text"
+                  className="modern-input"
+                  placeholder="Target value"
+                  value={entry.target}
+                  onChange={(e) =>
+                    updateTransform(index, {
+                      ...transform,
+                      mappings: transform.mappings.map((m, i) => (i === entryIndex ? { ...m, target: e.target.value } : m)),
+                    })
+                  }
+                  aria-label="Target value"
+                />
+                <button
+                  className="btn-delete"
+                  onClick={() => updateTransform(index, { ...transform, mappings: transform.mappings.filter((_, i) => i !== entryIndex) })}
+                  aria-label="Remove value mapping"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              className="btn-secondary"
+              onClick={() => updateTransform(index, { ...transform, mappings: [...transform.mappings, { source: "", target: "" }] })}
+            >
+              + Add Value
+            </button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h3>Transformations: {fieldDisplayName}</h3>
+          <button className="modal-close" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <p style={{ fontSize: "12px", color: "#605e5c", margin: "0 0 12px 0" }}>
+          Transformations run top to bottom on the source value before it is written to <strong>{mapping.targetField}</strong>.
+        </p>
+
+        <div className="transform-list">
+          {transforms.length === 0 && <div className="mapping-item">No transformations. The value is copied as-is.</div>}
+          {transforms.map((transform, index) => (
+            <div key={index} className="transform-item">
+              <div className="transform-item-header">
+                <strong>
+                  {index + 1}. {TRANSFORM_LABELS[transform.type]}
+                </strong>
+                <div style={{ display: "flex", gap: "4px" }}>
+                  <button className="pagination-btn" onClick={() => moveTransform(index, -1)} disabled={index === 0} aria-label="Move up">
+                    ↑
+                  </button>
+                  <button className="pagination-btn" onClick={() => moveTransform(index, 1)} disabled={index === transforms.length - 1} aria-label="Move down">
+                    ↓
+                  </button>
+                  <button className="btn-delete" onClick={() => removeTransform(index)} aria-label="Remove transformation">
+                    ✕
+                  </button>
+                </div>
+              </div>
+              {renderParameters(transform, index)}
+            </div>
+          ))}
+        </div>
+
+        <div className="transform-inline" style={{ marginTop: "12px" }}>
+          <select className="modern-input" value={newType} onChange={(e) => setNewType(e.target.value as FieldTransformType)} aria-label="Transformation type">
+            {(Object.keys(TRANSFORM_LABELS) as FieldTransformType[]).map((type) => (
+              <option key={type} value={type}>
+                {TRANSFORM_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <button className="btn-add" onClick={() => setTransforms([...transforms, createTransform(newType)])}>
+            Add
+          </button>
+        </div>
+
+        {hasInvalidTimeZone && (
+          <p style={{ fontSize: "12px", color: "var(--error-color)", margin: "12px 0 0 0" }}>Select a supported time zone for every time zone conversion.</p>
+        )}
+
+        <div className="modal-footer">
+          <button className="btn-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={() => onSave(transforms)} disabled={hasInvalidTimeZone}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -74,6 +74,8 @@ export interface MigrationRecord {
   status: MigrationStatus;
   /** Error message if failed */
   errorMessage?: string;
+  /** Logical name of the table the record belongs to */
+  entityLogicalName?: string;
 }
 
 /**
@@ -88,8 +90,36 @@ export interface FieldMapping {
   isEnabled: boolean;
   /** Field type */
   fieldType: string;
+  /** Value transformations applied in order before the value is written to the target */
+  transforms?: FieldTransform[];
+  /** Spreadsheet column the value is read from (file sources) */
+  sourceColumn?: string;
 }
 
+/**
+ * Value transformation applied to a mapped (non-lookup) field
+ */
+export type FieldTransform =
+  /** Replace the value with a constant */
+  | { type: "constant"; value: string }
+  /** Translate values through a lookup table (e.g. option set value remapping) */
+  | { type: "valueMap"; mappings: { source: string; target: string }[] }
+  /** Build a string from several source fields, e.g. "{firstname} {lastname}" */
+  | { type: "template"; template: string }
+  /** Shift a date/time by a fixed amount */
+  | { type: "dateShift"; days: number; hours: number }
+  /** Keep the wall-clock time but move it from one IANA time zone to another */
+  | { type: "timeZone"; fromTimeZone: string; toTimeZone: string }
+  /** Trim or change the case of text */
+  | { type: "text"; operation: "trim" | "uppercase" | "lowercase" | "titlecase" }
+  /** Use a default when the value is empty */
+  | { type: "default"; value: string };
+
+/**
+ * Field transformation type
+ */
+export type FieldTransformType = FieldTransform["type"];
+
 /**
  * Lookup mapping for reference fields
  */
@@ -101,9 +131,52 @@ export interface LookupMapping {
   /** Target entity type */
   targetEntity: string;
   /** Mapping strategy */
-  strategy: "auto" | "manual" | "skip";
+  strategy: LookupStrategy;
   /** Manual mapping values (source ID -> target ID) */
   manualMappings?: Map<string, string>;
+  /** How the target record is found when strategy is "match" */
+  matchMode?: "alternateKey" | "fields";
+  /** Alternate key logical name on the target table (matchMode "alternateKey") */
+  alternateKey?: string;
+  /** Field logical names whose values must match in the target (matchMode "fields") */
+  matchFields?: string[];
+}
+
+/**
+ * Lookup mapping strategy
+ */
+export type LookupStrategy = "auto" | "manual" | "match" | "skip";
+
+/**
+ * Alternate key defined on a Dataverse table
+ */
+export interface AlternateKey {
+  /** Logical name of the key */
+  logicalName: string;
+  /** Display name of the key */
+  displayName: string;
+  /** Logical names of the attributes that make up the key */
+  keyAttributes: string[];
+}
+
+/**
+ * Many-to-many relationship of a table, oriented from that table's side
+ */
+export interface ManyToManyMapping {
+  /** Relationship schema name */
+  schemaName: string;
+  /** Navigation property of the migrated table, used to associate/disassociate records */
+  navigationPropertyName: string;
+  /** Logical name of the intersect table */
+  intersectEntityName: string;
+  /** Intersect column that holds the ID of the migrated table's record */
+  entityIntersectAttribute: string;
+  /** Logical name of the related table */
+  relatedEntityLogicalName: string;
+  /** Intersect column that holds the ID of the related record */
+  relatedIntersectAttribute: string;
+  /** Whether the associations of this relationship are migrated */
+  isEnabled: boolean;
 }
 
 /**
@@ -112,20 +185,58 @@ export interface LookupMapping {
 export interface AutoMappingResult {
   /** Source ID */
   sourceId: string;
-  /** Target ID */
+  /** Target ID (empty when no match was found) */
   targetId: string;
   /** Display name */
   displayName: string;
-  /** Match confidence */
-  confidence: "high" | "medium" | "low";
+  /** Match confidence ("none" when no match was found) */
+  confidence: "high" | "medium" | "low" | "none";
   /** Match criteria used */
   matchCriteria: string;
+  /** Display name of the matched target record */
+  targetDisplayName?: string;
+}
+
+/**
+ * Kind of principal mapped between environments; matches the keys of the principal mappings
+ */
+export type PrincipalType = "users" | "teams" | "businessUnits";
+
+/**
+ * Target record found when searching for a principal
+ */
+export interface PrincipalSearchResult {
+  /** Record ID */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Secondary information (e.g. domain name) */
+  detail?: string;
+}
+
+/**
+ * Reviewed user, team and business unit mappings, saved for reuse across migrations
+ */
+export interface PrincipalMap {
+  /** When the map was saved (ISO timestamp) */
+  savedAt: string;
+  /** URL of the source connection the mappings were reviewed for */
+  sourceUrl: string;
+  /** URL of the target connection the mappings were reviewed for */
+  targetUrl: string;
+  users: AutoMappingResult[];
+  teams: AutoMappingResult[];
+  businessUnits: AutoMappingResult[];
+  /** Target user that owns records whose source owner has no match */
+  defaultOwner?: PrincipalSearchResult;
 }
 
 /**
  * Migration configuration
  */
 export interface MigrationConfig {
+  /** Where the source records come from: the source Dataverse connection or an imported CSV/Excel file */
+  sourceType?: "dataverse" | "file";
   /** Source entity logical name */
   entityLogicalName: string;
   /** Entity display name */
@@ -140,8 +251,36 @@ export interface MigrationConfig {
   filterQuery?: string;
   /** Filter type */
   filterType?: "odata" | "fetchxml";
-  /** Batch size for migration */
+  /** Which records to migrate: those selected in the preview, or every record matching the filter */
+  scope?: "selected" | "all";
+  /** Batch size for migration (records per request when bulk operations are used) */
   batchSize: number;
+  /** Send creates and updates as CreateMultiple/UpdateMultiple requests instead of one request per record */
+  useBulkOperations?: boolean;
+  /** Number of batches processed in parallel when bulk operations are used */
+  parallelism?: number;
+  /** N:N relationships whose associations are replayed in the target */
+  manyToManyMappings?: ManyToManyMapping[];
+  /** Remove target associations of the migrated records that do not exist in the source */
+  disassociateMissing?: boolean;
+  /** Copy the notes (annotations) of each migrated record, including their attachments */
+  migrateNotes?: boolean;
+  /** Keep the source created date (as overriddencreatedon), owner and state/status reason on the migrated records */
+  preserveSystemFields?: boolean;
+  /** What mirror sync does with target records that no longer exist in the source */
+  mirrorSyncAction?: "delete" | "deactivate";
+}
+
+/**
+ * Rows read from a CSV or Excel file
+ */
+export interface SpreadsheetData {
+  /** Name of the imported file */
+  fileName: string;
+  /** Column headers, in file order */
+  columns: string[];
+  /** Data rows keyed by column header */
+  rows: Record<string, string>[];
 }
 
 /**
@@ -162,10 +301,189 @@ export interface MigrationProgress {
   records: MigrationRecord[];
   /** Whether migration is in progress */
   isInProgress: boolean;
+  /** Whether source pages are still being read (total is not final yet) */
+  isCounting?: boolean;
   /** Current batch being processed */
   currentBatch?: number;
   /** Total batches */
   totalBatches?: number;
+  /** Display name of the table currently being processed (plan runs) */
+  currentTable?: string;
+  /** Index of the table currently being processed (1-based, plan runs) */
+  currentTableIndex?: number;
+  /** Total tables in the plan */
+  totalTables?: number;
+  /** Current phase of the run (records, then deferred lookups of a plan, then N:N associations) */
+  phase?: "records" | "deferred-lookups" | "associations";
+}
+
+/**
+ * A table entry in a multi-table migration plan
+ */
+export interface MigrationPlanTable {
+  /** Migration configuration for the table */
+  config: MigrationConfig;
+  /** Lookup fields that are applied in a second pass (self-referencing or circular) */
+  deferredLookups: string[];
+}
+
+/**
+ * Multi-table migration plan
+ */
+export interface MigrationPlan {
+  /** Tables in execution order */
+  tables: MigrationPlanTable[];
+}
+
+/**
+ * A field value that would change in the target
+ */
+export interface FieldDiff {
+  /** Target field logical name */
+  field: string;
+  /** Current value in the target (undefined for records that would be created) */
+  currentValue: any;
+  /** Value the migration would write */
+  newValue: any;
+}
+
+/**
+ * Dry-run outcome for a single source record
+ */
+export interface DryRunResult {
+  /** Source record ID */
+  sourceId: string;
+  /** Primary name value */
+  primaryName: string;
+  /** What the migration would do with the record */
+  action: "create" | "update" | "delete" | "skip";
+  /** Field values that would be written (create) or changed (update) */
+  changes: FieldDiff[];
+  /** Lookups that would fail to resolve in the target */
+  unresolvedLookups: string[];
+  /** Additional explanation (e.g. why a record is skipped) */
+  message?: string;
+}
+
+/**
+ * Dry-run report for a table
+ */
+export interface DryRunReport {
+  /** Entity logical name */
+  entityLogicalName: string;
+  /** Entity display name */
+  entityDisplayName: string;
+  /** When the report was generated (ISO timestamp) */
+  generatedAt: string;
+  /** Per-record results */
+  results: DryRunResult[];
+}
+
+/**
+ * A target record that mirror sync would remove because it is missing from the source
+ */
+export interface MirrorSyncCandidate {
+  /** Target record ID */
+  targetId: string;
+  /** Primary name value */
+  primaryName: string;
+}
+
+/**
+ * Comparison of the source query result with the same query against the target
+ */
+export interface MirrorSyncComparison {
+  /** Records returned by the source query */
+  sourceCount: number;
+  /** Records returned by the target query */
+  targetCount: number;
+  /** Target records whose ID is not in the source result */
+  candidates: MirrorSyncCandidate[];
+}
+
+/**
+ * A mapped field whose value differs between the source and the target
+ */
+export interface FieldValueDifference {
+  /** Source field logical name */
+  field: string;
+  /** Value in the source */
+  sourceValue: any;
+  /** Value in the target */
+  targetValue: any;
+}
+
+/**
+ * Outcome of comparing one record between the source and the target
+ */
+export interface RecordComparisonResult {
+  /** Whether the record exists on one side only or differs between them */
+  status: "sourceOnly" | "targetOnly" | "different";
+  /** Value of the match key (primary ID or key field values) */
+  key: string;
+  /** Source record ID */
+  sourceId?: string;
+  /** Target record ID */
+  targetId?: string;
+  /** Primary name value */
+  primaryName: string;
+  /** Mapped field values that differ (status "different") */
+  differences: FieldValueDifference[];
+  /** Additional explanation (e.g. why a record could not be matched) */
+  message?: string;
+}
+
+/**
+ * Cross-environment comparison report for a table
+ */
+export interface ComparisonReport {
+  /** Entity logical name */
+  entityLogicalName: string;
+  /** Entity display name */
+  entityDisplayName: string;
+  /** When the report was generated (ISO timestamp) */
+  generatedAt: string;
+  /** Source field logical names used to match records (empty when matched by primary ID) */
+  matchFields: string[];
+  /** Records returned by the source query */
+  sourceCount: number;
+  /** Records returned by the target query */
+  targetCount: number;
+  /** Matched records whose mapped field values are all equal */
+  identicalCount: number;
+  /** Records that exist on one side only or differ */
+  results: RecordComparisonResult[];
+}
+
+/**
+ * Persisted state of a migration run, used to resume it or retry its failed records after the tool
+ * was closed or the connection dropped
+ */
+export interface MigrationRunJournal {
+  /** Unique ID of the run */
+  runId: string;
+  /** When the run started (ISO timestamp) */
+  startedAt: string;
+  /** When the journal was last written (ISO timestamp) */
+  updatedAt: string;
+  /** "completed" once every record was processed, even if some of them failed */
+  status: "in-progress" | "completed";
+  /** Whether the run is a migration plan */
+  isPlan: boolean;
+  /** Serialized table configurations in run order (see serializeMigrationConfig) */
+  tables: { config: Record<string, any>; deferredLookups: string[] }[];
+  /** Source record IDs of a run limited to the records selected in the preview */
+  sourceIds?: string[];
+  /** Outcome of every processed record; the target IDs double as the source → target ID map */
+  records: MigrationRecord[];
+  /** Auto-mapped user, team and business unit IDs (source → target) */
+  principalMappings: {
+    users: [string, string][];
+    teams: [string, string][];
+    businessUnits: [string, string][];
+    /** Fallback owner for unmatched users */
+    defaultOwnerId?: string;
+  };
 }
 
 /**
@@ -1,4 +1,4 @@
-import { BusinessUnitRecord, DataverseEntity, DataverseField, TeamRecord, UserRecord } from "../models/interfaces";
+import { AlternateKey, BusinessUnitRecord, DataverseEntity, DataverseField, ManyToManyMapping, PrincipalSearchResult, PrincipalType, TeamRecord, UserRecord } from "../models/interfaces";
 
 /**
  * Safely extract the localized label from Dataverse metadata fields
@@ -125,6 +125,141 @@ export class DataverseClient {
         }
     }
 
+    /**
+     * Fetch the alternate keys defined on an entity
+     */
+    async fetchAlternateKeys(entityLogicalName: string): Promise<AlternateKey[]> {
+        try {
+            const keys = await window.dataverseAPI.getEntityRelatedMetadata(entityLogicalName, "Keys", ["LogicalName", "DisplayName", "KeyAttributes"], this.connectionTarget);
+
+            return (keys.value || []).map((key: any) => ({
+                logicalName: key.LogicalName,
+                displayName: extractLabel(key.DisplayName) || key.LogicalName,
+                keyAttributes: key.KeyAttributes || [],
+            }));
+        } catch (error: any) {
+            console.error(`Failed to fetch alternate keys for ${entityLogicalName}:`, error);
+            throw new Error(`Failed to fetch alternate keys for ${entityLogicalName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Resolve the statecode named "Inactive" on an entity and the status reason that goes with it.
+     * Returns null when the entity has no such state (e.g. opportunity, incident or quote, which close as Won, Lost, Resolved or Canceled).
+     */
+    async fetchInactiveState(entityLogicalName: string): Promise<{ statecode: number; statuscode: number } | null> {
+        try {
+            const response = await window.dataverseAPI.queryData(
+                `EntityDefinitions(LogicalName='${entityLogicalName}')/Attributes/Microsoft.Dynamics.CRM.StateAttributeMetadata?$select=LogicalName&$expand=OptionSet($select=Options)`,
+                this.connectionTarget,
+            );
+
+            const options: any[] = (response.value?.[0] as any)?.OptionSet?.Options || [];
+            const inactive = options.find((option) => option.InvariantName === "Inactive");
+            if (!inactive || typeof inactive.DefaultStatus !== "number") {
+                return null;
+            }
+
+            return { statecode: inactive.Value, statuscode: inactive.DefaultStatus };
+        } catch (error: any) {
+            console.error(`Failed to fetch state metadata for ${entityLogicalName}:`, error);
+            throw new Error(`Failed to fetch state metadata for ${entityLogicalName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Fetch the many-to-many relationships of an entity, oriented from that entity's side.
+     * Self-referencing relationships are returned once, with the entity on the Entity1 side.
+     */
+    async fetchManyToManyRelationships(entityLogicalName: string): Promise<ManyToManyMapping[]> {
+        try {
+            const relationships = await window.dataverseAPI.getEntityRelatedMetadata(
+                entityLogicalName,
+                "ManyToManyRelationships",
+                [
+                    "SchemaName",
+                    "IntersectEntityName",
+                    "Entity1LogicalName",
+                    "Entity1IntersectAttribute",
+                    "Entity1NavigationPropertyName",
+                    "Entity2LogicalName",
+                    "Entity2IntersectAttribute",
+                    "Entity2NavigationPropertyName",
+                ],
+                this.connectionTarget,
+            );
+
+            return (relationships.value || []).map((relationship: any) => {
+                const isEntity1 = relationship.Entity1LogicalName === entityLogicalName;
+                return {
+                    schemaName: relationship.SchemaName,
+                    navigationPropertyName: (isEntity1 ? relationship.Entity1NavigationPropertyName : relationship.Entity2NavigationPropertyName) || relationship.SchemaName,
+                    intersectEntityName: relationship.IntersectEntityName,
+                    entityIntersectAttribute: isEntity1 ? relationship.Entity1IntersectAttribute : relationship.Entity2IntersectAttribute,
+                    relatedEntityLogicalName: isEntity1 ? relationship.Entity2LogicalName : relationship.Entity1LogicalName,
+                    relatedIntersectAttribute: isEntity1 ? relationship.Entity2IntersectAttribute : relationship.Entity1IntersectAttribute,
+                    isEnabled: false,
+                };
+            });
+        } catch (error: any) {
+            console.error(`Failed to fetch many-to-many relationships for ${entityLogicalName}:`, error);
+            throw new Error(`Failed to fetch many-to-many relationships for ${entityLogicalName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Query the intersect rows of a many-to-many relationship for the given records.
+     * Returns [record ID, related record ID] pairs with lower-cased IDs.
+     */
+    async queryAssociations(relationship: ManyToManyMapping, recordIds: string[]): Promise<[string, string][]> {
+        if (recordIds.length === 0) {
+            return [];
+        }
+
+        const values = recordIds.map((id) => `<value>${id.replace(/[{}]/g, "")}</value>`).join("");
+        const fetchXml = [
+            `<fetch>`,
+            `<entity name="${relationship.intersectEntityName}">`,
+            `<attribute name="${relationship.entityIntersectAttribute}" />`,
+            `<attribute name="${relationship.relatedIntersectAttribute}" />`,
+            `<filter><condition attribute="${relationship.entityIntersectAttribute}" operator="in">${values}</condition></filter>`,
+            `</entity>`,
+            `</fetch>`,
+        ].join("");
+
+        const pairs: [string, string][] = [];
+        await this.queryAllRecordsWithFetchXml(fetchXml, (rows) => {
+            for (const row of rows) {
+                pairs.push([String(row[relationship.entityIntersectAttribute]).toLowerCase(), String(row[relationship.relatedIntersectAttribute]).toLowerCase()]);
+            }
+        });
+        return pairs;
+    }
+
+    /**
+     * Associate two records through a many-to-many relationship
+     */
+    async associateRecords(entityLogicalName: string, recordId: string, relationshipName: string, relatedEntityLogicalName: string, relatedRecordId: string): Promise<void> {
+        try {
+            await window.dataverseAPI.associate(entityLogicalName, recordId, relationshipName, relatedEntityLogicalName, relatedRecordId, this.connectionTarget);
+        } catch (error: any) {
+            console.error(`Failed to associate records through ${relationshipName}:`, error);
+            throw new Error(`Failed to associate records through ${relationshipName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remove the association of two records through a many-to-many relationship
+     */
+    async disassociateRecords(entityLogicalName: string, recordId: string, relationshipName: string, relatedRecordId: string): Promise<void> {
+        try {
+            await window.dataverseAPI.disassociate(entityLogicalName, recordId, relationshipName, relatedRecordId, this.connectionTarget);
+        } catch (error: any) {
+            console.error(`Failed to disassociate records through ${relationshipName}:`, error);
+            throw new Error(`Failed to disassociate records through ${relationshipName}: ${error.message}`);
+        }
+    }
+
     /**
      * Query records from an entity
      */
@@ -167,6 +302,110 @@ export class DataverseClient {
         }
     }
 
+    /**
+     * Query every page of an OData result set, following @odata.nextLink.
+     * Each page is handed to onPage before the next one is requested so callers can stream large sets.
+     * Returns the total number of records read.
+     */
+    async queryAllRecords(
+        entityLogicalName: string,
+        selectFields: string[],
+        filterQuery: string | undefined,
+        onPage: (records: any[]) => Promise<void> | void,
+        entitySetName?: string,
+    ): Promise<number> {
+        try {
+            const resolvedEntitySetName = entitySetName || await window.dataverseAPI.getEntitySetName(entityLogicalName);
+
+            let query: string | undefined = `${resolvedEntitySetName}?$select=${selectFields.join(",")}`;
+            if (filterQuery) {
+                query += `&$filter=${filterQuery}`;
+            }
+
+            let total = 0;
+            while (query) {
+                const response = (await window.dataverseAPI.queryData(query, this.connectionTarget)) as { value?: any[]; "@odata.nextLink"?: string };
+                const records = response.value || [];
+                total += records.length;
+                await onPage(records);
+
+                // nextLink is an absolute URL; queryData expects the part after the API root
+                const nextLink = response["@odata.nextLink"];
+                query = nextLink ? nextLink.replace(/^.*\/api\/data\/v[\d.]+\//, "") : undefined;
+            }
+
+            return total;
+        } catch (error: any) {
+            console.error(`Failed to query records from ${entityLogicalName}:`, error);
+            throw new Error(`Failed to query records: ${error.message}`);
+        }
+    }
+
+    /**
+     * Query every page of a FetchXML result set using the paging cookie.
+     * Each page is handed to onPage before the next one is requested. Returns the total number of records read.
+     */
+    async queryAllRecordsWithFetchXml(fetchXml: string, onPage: (records: any[]) => Promise<void> | void): Promise<number> {
+        try {
+            const document = new DOMParser().parseFromString(fetchXml, "text/xml");
+            const fetchElement = document.documentElement;
+            if (!fetchElement || fetchElement.nodeName !== "fetch") {
+                throw new Error("FetchXML must have a <fetch> root element");
+            }
+
+            // top and paging cannot be combined; a query with top is a single page by definition
+            const isSinglePage = fetchElement.hasAttribute("top");
+
+            let page = 1;
+            let pagingCookie: string | undefined;
+            let total = 0;
+
+            while (true) {
+                if (!isSinglePage) {
+                    fetchElement.setAttribute("page", String(page));
+                    if (pagingCookie) {
+                        fetchElement.setAttribute("paging-cookie", pagingCookie);
+                    }
+                }
+
+                const response = (await window.dataverseAPI.fetchXmlQuery(new XMLSerializer().serializeToString(document), this.connectionTarget)) as {
+                    value?: any[];
+                    "@Microsoft.Dynamics.CRM.fetchxmlpagingcookie"?: string;
+                    "@Microsoft.Dynamics.CRM.morerecords"?: boolean;
+                };
+                const records = response.value || [];
+                total += records.length;
+                await onPage(records);
+
+                if (isSinglePage || !response["@Microsoft.Dynamics.CRM.morerecords"]) {
+                    break;
+                }
+
+                pagingCookie = this.extractPagingCookie(response["@Microsoft.Dynamics.CRM.fetchxmlpagingcookie"]);
+                page++;
+            }
+
+            return total;
+        } catch (error: any) {
+            console.error("Failed to query records with FetchXML:", error);
+            throw new Error(`Failed to query records with FetchXML: ${error.message}`);
+        }
+    }
+
+    /**
+     * Extract the paging cookie from the fetchxmlpagingcookie annotation.
+     * The annotation wraps the cookie in a <cookie pagingcookie="..."> element and the value is URL-encoded twice.
+     */
+    private extractPagingCookie(annotation: string | undefined): string | undefined {
+        if (!annotation) {
+            return undefined;
+        }
+
+        const cookieElement = new DOMParser().parseFromString(annotation, "text/xml").documentElement;
+        const encodedCookie = cookieElement?.getAttribute("pagingcookie");
+        return encodedCookie ? decodeURIComponent(decodeURIComponent(encodedCookie)) : undefined;
+    }
+
     /**
      * Create a record
      */
@@ -182,6 +421,59 @@ export class DataverseClient {
         }
     }
 
+    /**
+     * Create several records with a single CreateMultiple request.
+     * The request is all-or-nothing: if any record fails, none are created.
+     */
+    async createMultipleRecords(entityLogicalName: string, records: any[]): Promise<string[]> {
+        try {
+            const targets = records.map((record) => ({ ...record, "@odata.type": `Microsoft.Dynamics.CRM.${entityLogicalName}` }));
+            return await window.dataverseAPI.createMultiple(entityLogicalName, targets, this.connectionTarget);
+        } catch (error: any) {
+            console.error(`Failed to create records in ${entityLogicalName}:`, error);
+            throw new Error(`Failed to create records: ${error.message}`);
+        }
+    }
+
+    /**
+     * Update several records with a single UpdateMultiple request.
+     * Each record must include its primary ID attribute. The request is all-or-nothing.
+     */
+    async updateMultipleRecords(entityLogicalName: string, records: any[]): Promise<void> {
+        try {
+            const targets = records.map((record) => ({ ...record, "@odata.type": `Microsoft.Dynamics.CRM.${entityLogicalName}` }));
+            await window.dataverseAPI.updateMultiple(entityLogicalName, targets, this.connectionTarget);
+        } catch (error: any) {
+            console.error(`Failed to update records in ${entityLogicalName}:`, error);
+            throw new Error(`Failed to update records: ${error.message}`);
+        }
+    }
+
+    /**
+     * Return the subset of the given record IDs that exist in the environment, using one query
+     */
+    async findExistingRecordIds(entityLogicalName: string, primaryIdAttribute: string, recordIds: string[]): Promise<Set<string>> {
+        const records = await this.retrieveRecordsByIds(entityLogicalName, primaryIdAttribute, recordIds, [primaryIdAttribute]);
+        return new Set(records.keys());
+    }
+
+    /**
+     * Retrieve the records with the given IDs in one query, keyed by lower-cased record ID.
+     * IDs that do not exist are simply missing from the result.
+     */
+    async retrieveRecordsByIds(entityLogicalName: string, primaryIdAttribute: string, recordIds: string[], selectFields: string[]): Promise<Map<string, any>> {
+        if (recordIds.length === 0) {
+            return new Map();
+        }
+
+        const values = recordIds.map((id) => `'${id.replace(/[{}]/g, "")}'`).join(",");
+        const filter = `Microsoft.Dynamics.CRM.In(PropertyName='${primaryIdAttribute}',PropertyValues=[${values}])`;
+        const columns = selectFields.includes(primaryIdAttribute) ? selectFields : [...selectFields, primaryIdAttribute];
+        const records = await this.queryRecords(entityLogicalName, columns, filter);
+
+        return new Map(records.map((record) => [String(record[primaryIdAttribute]).toLowerCase(), record]));
+    }
+
     /**
      * Update a record
      */
@@ -238,6 +530,138 @@ export class DataverseClient {
         }
     }
 
+    /**
+     * Start downloading the content of a file or image column.
+     * The record is passed as an entity reference, which needs the primary ID attribute of the table.
+     */
+    async initializeFileDownload(
+        entityLogicalName: string,
+        primaryIdAttribute: string,
+        recordId: string,
+        fileAttributeName: string,
+    ): Promise<{ continuationToken: string; fileName: string; fileSizeInBytes: number }> {
+        try {
+            const response = await window.dataverseAPI.execute(
+                {
+                    operationName: "InitializeFileBlocksDownload",
+                    operationType: "action",
+                    parameters: {
+                        Target: { "@odata.type": `Microsoft.Dynamics.CRM.${entityLogicalName}`, [primaryIdAttribute]: recordId },
+                        FileAttributeName: fileAttributeName,
+                    },
+                },
+                this.connectionTarget,
+            );
+
+            return {
+                continuationToken: response.FileContinuationToken as string,
+                fileName: response.FileName as string,
+                fileSizeInBytes: Number(response.FileSizeInBytes) || 0,
+            };
+        } catch (error: any) {
+            console.error(`Failed to initialize download of ${fileAttributeName}:`, error);
+            throw new Error(`Failed to initialize download of ${fileAttributeName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Download one block of a file, returned as base64
+     */
+    async downloadFileBlock(continuationToken: string, offset: number, blockLength: number): Promise<string> {
+        try {
+            const response = await window.dataverseAPI.execute(
+                {
+                    operationName: "DownloadBlock",
+                    operationType: "action",
+                    parameters: { Offset: offset, BlockLength: blockLength, FileContinuationToken: continuationToken },
+                },
+                this.connectionTarget,
+            );
+            return response.Data as string;
+        } catch (error: any) {
+            console.error("Failed to download file block:", error);
+            throw new Error(`Failed to download file block: ${error.message}`);
+        }
+    }
+
+    /**
+     * Start uploading content to a file or image column, returning the continuation token
+     */
+    async initializeFileUpload(entityLogicalName: string, primaryIdAttribute: string, recordId: string, fileAttributeName: string, fileName: string): Promise<string> {
+        try {
+            const response = await window.dataverseAPI.execute(
+                {
+                    operationName: "InitializeFileBlocksUpload",
+                    operationType: "action",
+                    parameters: {
+                        Target: { "@odata.type": `Microsoft.Dynamics.CRM.${entityLogicalName}`, [primaryIdAttribute]: recordId },
+                        FileAttributeName: fileAttributeName,
+                        FileName: fileName,
+                    },
+                },
+                this.connectionTarget,
+            );
+            return response.FileContinuationToken as string;
+        } catch (error: any) {
+            console.error(`Failed to initialize upload of ${fileAttributeName}:`, error);
+            throw new Error(`Failed to initialize upload of ${fileAttributeName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Upload one base64 block of a file
+     */
+    async uploadFileBlock(continuationToken: string, blockId: string, blockData: string): Promise<void> {
+        try {
+            await window.dataverseAPI.execute(
+                {
+                    operationName: "UploadBlock",
+                    operationType: "action",
+                    parameters: { BlockId: blockId, BlockData: blockData, FileContinuationToken: continuationToken },
+                },
+                this.connectionTarget,
+            );
+        } catch (error: any) {
+            console.error("Failed to upload file block:", error);
+            throw new Error(`Failed to upload file block: ${error.message}`);
+        }
+    }
+
+    /**
+     * Commit the uploaded blocks of a file in the given order
+     */
+    async commitFileUpload(continuationToken: string, fileName: string, mimeType: string, blockIds: string[]): Promise<void> {
+        try {
+            await window.dataverseAPI.execute(
+                {
+                    operationName: "CommitFileBlocksUpload",
+                    operationType: "action",
+                    parameters: { FileName: fileName, MimeType: mimeType, BlockList: blockIds, FileContinuationToken: continuationToken },
+                },
+                this.connectionTarget,
+            );
+        } catch (error: any) {
+            console.error(`Failed to commit upload of ${fileName}:`, error);
+            throw new Error(`Failed to commit upload of ${fileName}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Fetch the notes (annotations) attached to a record. The attachment content (documentbody) is only read when requested.
+     */
+    async fetchNotes(recordId: string, includeAttachments: boolean): Promise<any[]> {
+        const selectFields = ["annotationid", "subject", "notetext", "filename", "mimetype", "isdocument"];
+        if (includeAttachments) {
+            selectFields.push("documentbody");
+        }
+
+        const notes: any[] = [];
+        await this.queryAllRecords("annotation", selectFields, `_objectid_value eq ${recordId.replace(/[{}]/g, "")}`, (page) => {
+            notes.push(...page);
+        });
+        return notes;
+    }
+
     /**
      * Delete a record
      */
@@ -285,4 +709,35 @@ export class DataverseClient {
             throw new Error(`Failed to fetch business units: ${error.message}`);
         }
     }
+
+    /**
+     * Search active users, teams or business units by name (and domain name for users)
+     */
+    async searchPrincipals(principalType: PrincipalType, searchTerm: string): Promise<PrincipalSearchResult[]> {
+        try {
+            const term = encodeURIComponent(searchTerm.trim().replace(/'/g, "''"));
+
+            if (principalType === "users") {
+                const users: UserRecord[] = await this.queryRecords(
+                    "systemuser",
+                    ["systemuserid", "fullname", "domainname"],
+                    `isdisabled eq false and (contains(fullname,'${term}') or contains(domainname,'${term}'))`,
+                    "fullname asc",
+                    20,
+                );
+                return users.map((u) => ({ id: u.systemuserid, name: u.fullname, detail: u.domainname }));
+            }
+
+            if (principalType === "teams") {
+                const teams: TeamRecord[] = await this.queryRecords("team", ["teamid", "name", "teamtype"], `contains(name,'${term}')`, "name asc", 20);
+                return teams.map((t) => ({ id: t.teamid, name: t.name }));
+            }
+
+            const units: BusinessUnitRecord[] = await this.queryRecords("businessunit", ["businessunitid", "name"], `contains(name,'${term}')`, "name asc", 20);
+            return units.map((u) => ({ id: u.businessunitid, name: u.name }));
+        } catch (error: any) {
+            console.error(`Failed to search ${principalType}:`, error);
+            throw new Error(`Failed to search ${principalType}: ${error.message}`);
+        }
+    }
 }
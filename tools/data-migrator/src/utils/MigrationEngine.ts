@@ -1,6 +1,82 @@
-import type { AutoMappingResult, BusinessUnitRecord, MigrationConfig, MigrationProgress, MigrationRecord, PreviewRecord, TeamRecord, UserRecord } from "../models/interfaces";
+import type {
+    AutoMappingResult,
+    BusinessUnitRecord,
+    ComparisonReport,
+    DryRunReport,
+    DryRunResult,
+    FieldDiff,
+    LookupMapping,
+    ManyToManyMapping,
+    MigrationConfig,
+    MigrationPlan,
+    MigrationProgress,
+    MigrationRecord,
+    MigrationRunJournal,
+    MirrorSyncCandidate,
+    MirrorSyncComparison,
+    PreviewRecord,
+    PrincipalType,
+    RecordComparisonResult,
+    TeamRecord,
+    UserRecord,
+} from "../models/interfaces";
+import { createConcurrencyLimiter, runWithConcurrency } from "./concurrency";
+import { deserializeMigrationConfig, serializeMigrationConfig } from "./configSerialization";
 import { DataverseClient } from "./DataverseClient";
-import { isReferenceFieldType } from "./fieldUtils";
+import { buildSelectFields, isFileFieldType, isGuid, isReferenceFieldType, normalizeLookupValues } from "./fieldUtils";
+import { RunJournal } from "./runJournal";
+import { applyFieldTransforms } from "./transformUtils";
+
+/** Minimum time between two journal writes while a run is in progress */
+const JOURNAL_SAVE_INTERVAL_MS = 2000;
+
+/** Start of the error message of a plan record whose deferred lookups failed after the record was written */
+const DEFERRED_LOOKUP_ERROR = "Deferred lookups";
+
+/** Columns that hold the state of a record; they are applied with a follow-up update when system fields are preserved */
+const STATE_FIELDS = ["statecode", "statuscode"];
+
+/** Columns that can only be written when a record is created */
+const CREATE_ONLY_FIELDS = ["overriddencreatedon"];
+
+/** Size of the blocks file and image content is copied in (the DownloadBlock maximum) */
+const FILE_BLOCK_SIZE = 4 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+    bmp: "image/bmp",
+    csv: "text/csv",
+    doc: "application/msword",
+    docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    gif: "image/gif",
+    jpeg: "image/jpeg",
+    jpg: "image/jpeg",
+    json: "application/json",
+    pdf: "application/pdf",
+    png: "image/png",
+    pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    txt: "text/plain",
+    xls: "application/vnd.ms-excel",
+    xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    xml: "application/xml",
+    zip: "application/zip",
+};
+
+/**
+ * Guess the MIME type of a file from its extension (the download messages do not return it)
+ */
+function guessMimeType(fileName: string): string {
+    const extension = fileName.split(".").pop()?.toLowerCase() || "";
+    return MIME_TYPES[extension] || "application/octet-stream";
+}
+
+/**
+ * Drop the columns that are only valid when a record is created from an update payload
+ */
+function toUpdatePayload(targetData: any): any {
+    const updateData = { ...targetData };
+    CREATE_ONLY_FIELDS.forEach((field) => delete updateData[field]);
+    return updateData;
+}
 
 type EntityMetadataResponse = {
     PrimaryIdAttribute?: string;
@@ -8,6 +84,39 @@ type EntityMetadataResponse = {
     LogicalCollectionName?: string;
 };
 
+/** Runs a target request within the concurrency limit shared by every batch of a bulk run */
+type RequestLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * A record travelling through a bulk (CreateMultiple/UpdateMultiple) batch
+ */
+type BulkItem = {
+    sourceRecord: any;
+    sourceId: string;
+    migrationRecord: MigrationRecord;
+    targetData: any;
+    failed: boolean;
+};
+
+/**
+ * Key of a journaled record: its table and normalized source ID
+ */
+function journalRecordKey(entityLogicalName: string | undefined, sourceId: string): string {
+    return `${entityLogicalName}:${sourceId.replace(/[{}]/g, "").toLowerCase()}`;
+}
+
+/**
+ * Mark a bulk item as failed, keeping the first error that occurred
+ */
+function failBulkItem(item: BulkItem, error: any): void {
+    if (item.failed) {
+        return;
+    }
+    item.failed = true;
+    item.migrationRecord.status = "error";
+    item.migrationRecord.errorMessage = error?.message || String(error);
+}
+
 /**
  * Engine for performing data migration operations
  */
@@ -16,7 +125,23 @@ export class MigrationEngine {
     private targetClient: DataverseClient;
     private userMappings: Map<string, string> = new Map();
     private teamMappings: Map<string, string> = new Map();
+    private defaultOwnerId: string | undefined;
     private businessUnitMappings: Map<string, string> = new Map();
+    /** Source → target record IDs of migrated records, per table */
+    private recordIdMappings: Map<string, Map<string, string>> = new Map();
+    /** Source → target record IDs resolved by the "match" lookup strategy, per target table (null when unmatched) */
+    private lookupMatchCache: Map<string, Map<string, string | null>> = new Map();
+    /** Alternate key attributes per table and key name */
+    private alternateKeyCache: Map<string, string[]> = new Map();
+    /** Attribute types of the tables referenced by "match" lookups, by attribute logical name */
+    private attributeTypeCache: Map<string, Map<string, string>> = new Map();
+    /** Journal of the current run, persisted while records are processed */
+    private journal: MigrationRunJournal | null = null;
+    private journalSavedAt = 0;
+    /** Pending journal write; saves are chained so an older snapshot never overwrites a newer one */
+    private journalSaving: Promise<void> = Promise.resolve();
+    /** Target IDs of records an interrupted run already wrote, by journal record key (see resumeRun) */
+    private resumedTargetIds: Map<string, string> = new Map();
 
     constructor() {
         this.sourceClient = new DataverseClient("primary");
@@ -30,39 +155,43 @@ export class MigrationEngine {
         try {
             const sourceUsers: UserRecord[] = await this.sourceClient.fetchUsers();
             const targetUsers: UserRecord[] = await this.targetClient.fetchUsers();
+            const sameText = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
 
             const results: AutoMappingResult[] = [];
 
             for (const sourceUser of sourceUsers) {
                 // Try to match by domain name first (highest confidence)
-                let targetUser = targetUsers.find((u) => u.domainname === sourceUser.domainname);
-                let confidence: "high" | "medium" | "low" = "high";
+                let targetUser = targetUsers.find((u) => sameText(u.domainname, sourceUser.domainname));
+                let confidence: AutoMappingResult["confidence"] = "high";
                 let matchCriteria = "Domain Name";
 
                 // If not found, try by email
                 if (!targetUser && sourceUser.internalemailaddress) {
-                    targetUser = targetUsers.find((u) => u.internalemailaddress === sourceUser.internalemailaddress);
+                    targetUser = targetUsers.find((u) => sameText(u.internalemailaddress, sourceUser.internalemailaddress));
                     confidence = "high";
                     matchCriteria = "Email Address";
                 }
 
-                // If not found, try by full name
+                // If not found, try by full name; several users with the same name need a review
                 if (!targetUser) {
-                    targetUser = targetUsers.find((u) => u.fullname === sourceUser.fullname);
-                    confidence = "medium";
-                    matchCriteria = "Full Name";
+                    const nameMatches = targetUsers.filter((u) => u.fullname === sourceUser.fullname);
+                    targetUser = nameMatches[0];
+                    confidence = nameMatches.length > 1 ? "low" : "medium";
+                    matchCriteria = nameMatches.length > 1 ? `Full Name (${nameMatches.length} matches)` : "Full Name";
                 }
 
                 if (targetUser) {
                     this.userMappings.set(sourceUser.systemuserid, targetUser.systemuserid);
-                    results.push({
-                        sourceId: sourceUser.systemuserid,
-                        targetId: targetUser.systemuserid,
-                        displayName: sourceUser.fullname,
-                        confidence,
-                        matchCriteria,
-                    });
                 }
+
+                results.push({
+                    sourceId: sourceUser.systemuserid,
+                    targetId: targetUser?.systemuserid || "",
+                    displayName: sourceUser.fullname,
+                    confidence: targetUser ? confidence : "none",
+                    matchCriteria: targetUser ? matchCriteria : "No match",
+                    targetDisplayName: targetUser?.fullname,
+                });
             }
 
             return results;
@@ -88,14 +217,16 @@ export class MigrationEngine {
 
                 if (targetTeam) {
                     this.teamMappings.set(sourceTeam.teamid, targetTeam.teamid);
-                    results.push({
-                        sourceId: sourceTeam.teamid,
-                        targetId: targetTeam.teamid,
-                        displayName: sourceTeam.name,
-                        confidence: "high",
-                        matchCriteria: "Name & Type",
-                    });
                 }
+
+                results.push({
+                    sourceId: sourceTeam.teamid,
+                    targetId: targetTeam?.teamid || "",
+                    displayName: sourceTeam.name,
+                    confidence: targetTeam ? "high" : "none",
+                    matchCriteria: targetTeam ? "Name & Type" : "No match",
+                    targetDisplayName: targetTeam?.name,
+                });
             }
 
             return results;
@@ -121,14 +252,16 @@ export class MigrationEngine {
 
                 if (targetUnit) {
                     this.businessUnitMappings.set(sourceUnit.businessunitid, targetUnit.businessunitid);
-                    results.push({
-                        sourceId: sourceUnit.businessunitid,
-                        targetId: targetUnit.businessunitid,
-                        displayName: sourceUnit.name,
-                        confidence: "high",
-                        matchCriteria: "Name",
-                    });
                 }
+
+                results.push({
+                    sourceId: sourceUnit.businessunitid,
+                    targetId: targetUnit?.businessunitid || "",
+                    displayName: sourceUnit.name,
+                    confidence: targetUnit ? "high" : "none",
+                    matchCriteria: targetUnit ? "Name" : "No match",
+                    targetDisplayName: targetUnit?.name,
+                });
             }
 
             return results;
@@ -138,6 +271,28 @@ export class MigrationEngine {
         }
     }
 
+    /**
+     * Replace the user, team or business unit mappings with reviewed results. Results without a target are left unmapped.
+     */
+    setPrincipalMappings(principalType: PrincipalType, results: AutoMappingResult[]): void {
+        const mappings = new Map(results.filter((r) => r.targetId).map((r) => [r.sourceId, r.targetId]));
+        if (principalType === "users") {
+            this.userMappings = mappings;
+        } else if (principalType === "teams") {
+            this.teamMappings = mappings;
+        } else {
+            this.businessUnitMappings = mappings;
+        }
+    }
+
+    /**
+     * Set the target user that owns records whose source owner has no user mapping.
+     * Other user references (e.g. a custom lookup to systemuser) are not redirected to it.
+     */
+    setDefaultOwner(userId: string | undefined): void {
+        this.defaultOwnerId = userId;
+    }
+
     /**
      * Migrate records based on configuration
      */
@@ -146,7 +301,9 @@ export class MigrationEngine {
             // Use the selected records directly from preview
             // Note: The preview records must contain all field data that is required for the configured field mappings
             // This is ensured by the preview query which fetches all enabled fields from the source
+            this.resetRun();
             const sourceRecords = selectedRecords.map(previewRecord => previewRecord.data);
+            this.lookupMatchCache.clear();
             
             // Validate that preview data contains all required fields from current field mappings
             const enabledMappings = config.fieldMappings.filter(m => m.isEnabled);
@@ -173,24 +330,7 @@ export class MigrationEngine {
                 }
             }
             
-            // Fetch primary ID field from entity metadata
-            const entityMetadata = (await window.dataverseAPI.getEntityMetadata(
-                config.entityLogicalName,
-                true, // searchByLogicalName should be true
-                ["PrimaryIdAttribute"],
-                "primary", // Use primary connection for source
-            )) as EntityMetadataResponse | null;
-
-            if (!entityMetadata || typeof entityMetadata.PrimaryIdAttribute !== "string" || entityMetadata.PrimaryIdAttribute.trim() === "") {
-                throw new Error(`Unable to get primary ID attribute for entity ${config.entityLogicalName}`);
-            }
-
-            const primaryIdField = entityMetadata.PrimaryIdAttribute;
-
-            const entityMetadataForName = (await window.dataverseAPI.getEntityMetadata(config.entityLogicalName, true, ["PrimaryNameAttribute"], "primary")) as EntityMetadataResponse | null;
-
-            const primaryNameField =
-                typeof entityMetadataForName?.PrimaryNameAttribute === "string" && entityMetadataForName.PrimaryNameAttribute.trim() !== "" ? entityMetadataForName.PrimaryNameAttribute : undefined;
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
 
             const totalRecords = sourceRecords.length;
             const totalBatches = Math.ceil(totalRecords / config.batchSize);
@@ -207,195 +347,1831 @@ export class MigrationEngine {
                 totalBatches: totalBatches,
             };
 
-            // Process records in batches
-            for (let i = 0; i < totalRecords; i += config.batchSize) {
-                const batch = sourceRecords.slice(i, i + config.batchSize);
-                progress.currentBatch = Math.floor(i / config.batchSize) + 1;
+            this.beginJournal(
+                progress,
+                [{ config, deferredLookups: [] }],
+                false,
+                sourceRecords.map((record) => record[primaryIdField] as string),
+            );
 
-                for (const sourceRecord of batch) {
-                    const recordId = sourceRecord[primaryIdField] as string;
-                    const primaryName = primaryNameField && sourceRecord[primaryNameField] ? (sourceRecord[primaryNameField] as string) : "";
+            const journaledProgress = this.withJournal(onProgress);
+            await this.processRecords(config, sourceRecords, primaryIdField, primaryNameField, progress, journaledProgress);
+            await this.migrateAssociations(config, progress, journaledProgress);
 
-                    const displayField = config.fieldMappings.find((m) => m.sourceField.includes("name"))?.sourceField;
-                    const displayName = displayField && sourceRecord[displayField] ? sourceRecord[displayField] : primaryName || recordId;
+            progress.isInProgress = false;
+            onProgress({ ...progress });
+            await this.saveJournal(true, true);
+        } catch (error: any) {
+            await this.saveJournal(true);
+            console.error("Failed to migrate records:", error);
+            throw new Error(`Failed to migrate records: ${error.message}`);
+        }
+    }
 
-                    const migrationRecord: MigrationRecord = {
-                        sourceId: recordId,
-                        displayName,
-                        primaryName: primaryName || displayName,
-                        status: "processing",
-                    };
+    /**
+     * Migrate every record matching the configured filter, streaming the source result set page by page.
+     * The total grows as pages are read, so progress reports `isCounting` until the last page has arrived.
+     */
+    async migrateAllRecords(config: MigrationConfig, onProgress: (progress: MigrationProgress) => void): Promise<void> {
+        try {
+            this.resetRun();
+            this.lookupMatchCache.clear();
 
-                    progress.records.push(migrationRecord);
-                    onProgress({ ...progress });
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
 
-                    try {
-                        // Transform record with mappings
-                        const targetData = await this.transformRecord(sourceRecord, config);
+            const progress: MigrationProgress = {
+                total: 0,
+                processed: 0,
+                successful: 0,
+                failed: 0,
+                skipped: 0,
+                records: [],
+                isInProgress: true,
+                isCounting: true,
+            };
+            onProgress({ ...progress });
 
-                        // Perform all selected operations on each record
-                        // First check if record exists in target for smart operation selection
-                        let recordExistsInTarget = false;
-                        try {
-                            const existingRecord = await this.targetClient.retrieveRecord(config.entityLogicalName, recordId, [primaryIdField]);
-                            recordExistsInTarget = !!existingRecord;
-                        } catch (error) {
-                            // Record doesn't exist
-                            recordExistsInTarget = false;
-                        }
+            this.beginJournal(progress, [{ config, deferredLookups: [] }], false);
 
-                        for (const operation of config.operations) {
-                            // Skip create if record already exists and both create and update are selected
-                            if (operation === "create" && recordExistsInTarget && config.operations.includes("update")) {
-                                continue; // Skip create, will be handled by update
-                            }
+            const journaledProgress = this.withJournal(onProgress);
+            await this.processAllRecords(config, primaryIdField, primaryNameField, progress, journaledProgress);
+            await this.migrateAssociations(config, progress, journaledProgress);
 
-                            // Skip update if record doesn't exist and both create and update are selected
-                            if (operation === "update" && !recordExistsInTarget && config.operations.includes("create")) {
-                                continue; // Skip update, will be handled by create
-                            }
+            progress.isCounting = false;
+            progress.isInProgress = false;
+            onProgress({ ...progress });
+            await this.saveJournal(true, true);
+        } catch (error: any) {
+            await this.saveJournal(true);
+            console.error("Failed to migrate records:", error);
+            throw new Error(`Failed to migrate records: ${error.message}`);
+        }
+    }
 
-                            switch (operation) {
-                                case "create":
-                                    const createdId = await this.targetClient.createRecord(config.entityLogicalName, targetData);
-                                    migrationRecord.targetId = createdId;
-                                    break;
+    /**
+     * Resume a journaled run. Records that already reached the target are kept (their target IDs are
+     * reused to resolve lookups) and every other record is migrated again. Records the run was writing
+     * when it stopped, and records that failed after they were written, are looked up in the target and
+     * completed with an update instead of being created again. With `errorsOnly`, only the records that
+     * failed or were interrupted are retried.
+     */
+    async resumeRun(journal: MigrationRunJournal, errorsOnly: boolean, onProgress: (progress: MigrationProgress) => void): Promise<void> {
+        try {
+            this.resetRun();
+            if (journal.tables.some((table) => table.config.sourceType === "file")) {
+                throw new Error("Runs imported from a file cannot be resumed. Import the file again and migrate the remaining rows.");
+            }
 
-                                case "update":
-                                    await this.targetClient.updateRecord(config.entityLogicalName, recordId, targetData);
-                                    migrationRecord.targetId = recordId;
-                                    break;
+            this.recordIdMappings.clear();
+            this.lookupMatchCache.clear();
+            this.userMappings = new Map(journal.principalMappings.users);
+            this.teamMappings = new Map(journal.principalMappings.teams);
+            this.businessUnitMappings = new Map(journal.principalMappings.businessUnits);
+            this.defaultOwnerId = journal.principalMappings.defaultOwnerId;
+
+            const tables = journal.tables.map((table) => ({ config: deserializeMigrationConfig(table.config), deferredLookups: table.deferredLookups }));
+
+            // Plan records whose deferred lookups failed already exist in the target and only need the second pass again
+            const keptRecords = journal.records.filter(
+                (r) => r.status === "success" || (journal.isPlan && r.status === "error" && !!r.targetId && !!r.errorMessage?.startsWith(DEFERRED_LOOKUP_ERROR)),
+            );
+            const keptKeys = new Set(keptRecords.map((r) => journalRecordKey(r.entityLogicalName, r.sourceId)));
+            const retriedRecords = journal.records.filter((r) => (r.status === "error" || r.status === "processing") && !keptKeys.has(journalRecordKey(r.entityLogicalName, r.sourceId)));
+            const failedKeys = new Set(retriedRecords.map((r) => journalRecordKey(r.entityLogicalName, r.sourceId)));
+            await this.findResumedTargetIds(
+                tables.map((table) => table.config),
+                retriedRecords.filter((r) => r.status === "processing" || !!r.targetId),
+            );
+            const shouldProcess = (entityLogicalName: string, sourceId: string) =>
+                errorsOnly ? failedKeys.has(journalRecordKey(entityLogicalName, sourceId)) : !keptKeys.has(journalRecordKey(entityLogicalName, sourceId));
+
+            for (const record of keptRecords) {
+                const config = tables.find((t) => t.config.entityLogicalName === record.entityLogicalName)?.config;
+                if (record.targetId && config && !config.operations.includes("delete")) {
+                    this.setRecordIdMapping(config.entityLogicalName, record.sourceId, record.targetId);
+                }
+                record.status = "success";
+                record.errorMessage = undefined;
+            }
 
-                                case "delete":
-                                    await this.targetClient.deleteRecord(config.entityLogicalName, recordId);
-                                    migrationRecord.targetId = recordId;
-                                    break;
-                            }
-                        }
+            const progress: MigrationProgress = {
+                total: keptRecords.length,
+                processed: keptRecords.length,
+                successful: keptRecords.length,
+                failed: 0,
+                skipped: 0,
+                records: [...keptRecords],
+                isInProgress: true,
+            };
+            onProgress({ ...progress });
 
-                        migrationRecord.status = "success";
-                        progress.successful++;
-                    } catch (error: any) {
-                        migrationRecord.status = "error";
-                        migrationRecord.errorMessage = error.message;
-                        progress.failed++;
+            this.beginJournal(progress, tables, journal.isPlan, journal.sourceIds, journal);
+            const journaledProgress = this.withJournal(onProgress);
+
+            if (journal.isPlan) {
+                progress.totalTables = tables.length;
+                progress.phase = "records";
+                await this.runPlan({ tables }, progress, journaledProgress, shouldProcess);
+            } else {
+                const { config } = tables[0];
+                const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+                const sourceIds = errorsOnly
+                    ? journal.records.filter((r) => failedKeys.has(journalRecordKey(r.entityLogicalName, r.sourceId))).map((r) => r.sourceId)
+                    : journal.sourceIds?.filter((id) => shouldProcess(config.entityLogicalName, id));
+
+                if (sourceIds) {
+                    const sourceRecords = await this.fetchSourceRecordsByIds(config, sourceIds, primaryIdField, primaryNameField || "");
+                    const foundKeys = new Set(sourceRecords.map((record) => journalRecordKey(config.entityLogicalName, record[primaryIdField])));
+                    for (const sourceId of sourceIds.filter((id) => !foundKeys.has(journalRecordKey(config.entityLogicalName, id)))) {
+                        progress.records.push({
+                            sourceId,
+                            displayName: sourceId,
+                            status: "skipped",
+                            errorMessage: "Record no longer exists in the source",
+                            entityLogicalName: config.entityLogicalName,
+                        });
+                        progress.total++;
+                        progress.processed++;
+                        progress.skipped++;
                     }
 
-                    progress.processed++;
-                    onProgress({ ...progress });
+                    progress.total += sourceRecords.length;
+                    progress.currentBatch = 0;
+                    progress.totalBatches = Math.ceil(sourceRecords.length / config.batchSize);
+                    await this.processRecords(config, sourceRecords, primaryIdField, primaryNameField, progress, journaledProgress);
+                } else {
+                    progress.isCounting = true;
+                    await this.processAllRecords(config, primaryIdField, primaryNameField, progress, journaledProgress, (id) => shouldProcess(config.entityLogicalName, id));
                 }
+
+                await this.migrateAssociations(config, progress, journaledProgress);
             }
 
+            progress.isCounting = false;
             progress.isInProgress = false;
             onProgress({ ...progress });
+            await this.saveJournal(true, true);
         } catch (error: any) {
-            console.error("Failed to migrate records:", error);
-            throw new Error(`Failed to migrate records: ${error.message}`);
+            await this.saveJournal(true);
+            console.error("Failed to resume migration run:", error);
+            throw new Error(`Failed to resume migration run: ${error.message}`);
         }
     }
 
     /**
-     * Transform source record to target record with field mappings
+     * Forget the journal and resume state of the previous run, so that a run failing before its journal
+     * is started does not write over the journal of the previous run
      */
-    private async transformRecord(sourceRecord: any, config: MigrationConfig): Promise<any> {
-        const targetRecord: any = {};
+    private resetRun(): void {
+        this.journal = null;
+        this.resumedTargetIds.clear();
+    }
 
-        for (const mapping of config.fieldMappings) {
-            if (!mapping.isEnabled) {
+    /**
+     * Look up the journaled records that may already exist in the target (by their target ID when the journal has one,
+     * otherwise by their source ID) and remember the target IDs that were found in `resumedTargetIds`
+     */
+    private async findResumedTargetIds(configs: MigrationConfig[], records: MigrationRecord[]): Promise<void> {
+        for (const config of configs) {
+            const tableRecords = records.filter((r) => r.entityLogicalName === config.entityLogicalName);
+            if (tableRecords.length === 0 || config.operations.includes("delete")) {
                 continue;
             }
 
-            // Check if this is a lookup field that needs mapping
-            const lookupMapping = config.lookupMappings.find((l) => l.fieldName === mapping.sourceField);
-
-            if (lookupMapping) {
-                if (lookupMapping.strategy === "skip") {
-                    continue;
+            const { primaryIdField } = await this.getPrimaryAttributes(config);
+            for (let i = 0; i < tableRecords.length; i += config.batchSize) {
+                const batch = tableRecords.slice(i, i + config.batchSize);
+                const candidateId = (r: MigrationRecord) => (r.targetId || r.sourceId).replace(/[{}]/g, "").toLowerCase();
+                const existingIds = await this.targetClient.findExistingRecordIds(config.entityLogicalName, primaryIdField, batch.map(candidateId));
+                for (const record of batch.filter((r) => existingIds.has(candidateId(r)))) {
+                    this.resumedTargetIds.set(journalRecordKey(record.entityLogicalName, record.sourceId), candidateId(record));
                 }
+            }
+        }
+    }
 
-                // Extract GUID from lookup value
-                // Lookup values are stored in _fieldname_value format in query results
-                const lookupValueField = `_${mapping.sourceField}_value`;
-                let lookupGuid = sourceRecord[lookupValueField];
+    /**
+     * Stream the complete filtered result set of a table and process it page by page,
+     * optionally limited to the source records accepted by `shouldProcess`
+     */
+    private async processAllRecords(
+        config: MigrationConfig,
+        primaryIdField: string,
+        primaryNameField: string | undefined,
+        progress: MigrationProgress,
+        onProgress: (progress: MigrationProgress) => void,
+        shouldProcess?: (sourceId: string) => boolean,
+    ): Promise<void> {
+        await this.streamSourceRecords(config, primaryIdField, primaryNameField || "", async (records) => {
+            const pendingRecords = shouldProcess ? records.filter((record) => shouldProcess(record[primaryIdField])) : records;
+            progress.total += pendingRecords.length;
+            progress.currentBatch = 0;
+            progress.totalBatches = Math.ceil(pendingRecords.length / config.batchSize);
+            await this.processRecords(config, pendingRecords, primaryIdField, primaryNameField, progress, onProgress);
+        });
+    }
 
-                // Fallback: try direct field access or object formats
-                if (!lookupGuid) {
-                    const sourceValue = sourceRecord[mapping.sourceField];
-                    if (typeof sourceValue === "string") {
-                        lookupGuid = sourceValue;
-                    } else if (sourceValue && sourceValue._value) {
-                        lookupGuid = sourceValue._value;
-                    } else if (sourceValue && sourceValue.id) {
-                        lookupGuid = sourceValue.id;
-                    }
+    /**
+     * Report what migrating the given source records would do without writing anything to the target:
+     * whether each record would be created, updated (with the changed values) or deleted, and which
+     * lookups would fail to resolve.
+     */
+    async dryRun(config: MigrationConfig, sourceRecords: any[]): Promise<DryRunReport> {
+        try {
+            this.lookupMatchCache.clear();
+
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+
+            // Read the mapped columns of the matching target records so updates can be diffed
+            const targetSelectFields = config.fieldMappings
+                .filter((m) => m.isEnabled)
+                .filter((m) => config.lookupMappings.find((l) => l.fieldName === m.sourceField)?.strategy !== "skip")
+                .map((m) => (isReferenceFieldType(m.fieldType) ? `_${m.targetField}_value` : m.targetField));
+
+            const lookupExistsCache = new Map<string, boolean>();
+            const results: DryRunResult[] = [];
+
+            for (let i = 0; i < sourceRecords.length; i += config.batchSize) {
+                const chunk = sourceRecords.slice(i, i + config.batchSize);
+                const targetRecords = await this.targetClient.retrieveRecordsByIds(
+                    config.entityLogicalName,
+                    primaryIdField,
+                    chunk.map((record) => record[primaryIdField] as string),
+                    targetSelectFields,
+                );
+
+                for (const sourceRecord of chunk) {
+                    const sourceId = sourceRecord[primaryIdField] as string;
+                    const targetRecord = targetRecords.get(sourceId.replace(/[{}]/g, "").toLowerCase());
+                    results.push(await this.dryRunRecord(config, sourceRecord, sourceId, primaryNameField, targetRecord, lookupExistsCache));
                 }
+            }
 
-                // Skip if no lookup value found
-                if (!lookupGuid) {
-                    continue;
-                }
+            return {
+                entityLogicalName: config.entityLogicalName,
+                entityDisplayName: config.entityDisplayName,
+                generatedAt: new Date().toISOString(),
+                results,
+            };
+        } catch (error: any) {
+            console.error("Failed to run dry run:", error);
+            throw new Error(`Failed to run dry run: ${error.message}`);
+        }
+    }
 
-                // Remove curly braces if present
-                lookupGuid = lookupGuid.toString().replace(/[{}]/g, "");
+    /**
+     * Dry run every record matching the configured filter (all pages of the source query)
+     */
+    async dryRunAllRecords(config: MigrationConfig): Promise<DryRunReport> {
+        const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+        const sourceRecords = await this.fetchSourceRecords(config, primaryIdField, primaryNameField || "");
+        return this.dryRun(config, sourceRecords);
+    }
 
-                // Apply mapping based on strategy
-                let mappedGuid = lookupGuid;
+    /**
+     * Work out the dry-run outcome of one source record against its current target state
+     */
+    private async dryRunRecord(
+        config: MigrationConfig,
+        sourceRecord: any,
+        sourceId: string,
+        primaryNameField: string | undefined,
+        targetRecord: any | undefined,
+        lookupExistsCache: Map<string, boolean>,
+    ): Promise<DryRunResult> {
+        const primaryName = primaryNameField && sourceRecord[primaryNameField] ? String(sourceRecord[primaryNameField]) : "";
+        const result: DryRunResult = { sourceId, primaryName, action: "skip", changes: [], unresolvedLookups: [] };
+        const exists = !!targetRecord;
+
+        if (config.operations.includes("delete")) {
+            if (exists) {
+                result.action = "delete";
+            } else {
+                result.message = "Record does not exist in the target";
+            }
+            return result;
+        }
 
-                if (lookupMapping.strategy === "auto") {
-                    // Apply auto-mapping based on entity type
-                    if (lookupMapping.targetEntity === "systemuser") {
-                        mappedGuid = this.userMappings.get(lookupGuid) || lookupGuid;
-                    } else if (lookupMapping.targetEntity === "team") {
-                        mappedGuid = this.teamMappings.get(lookupGuid) || lookupGuid;
-                    } else if (lookupMapping.targetEntity === "businessunit") {
-                        mappedGuid = this.businessUnitMappings.get(lookupGuid) || lookupGuid;
-                    }
-                } else if (lookupMapping.strategy === "manual" && lookupMapping.manualMappings) {
-                    // Apply manual mapping
-                    mappedGuid = lookupMapping.manualMappings.get(lookupGuid) || lookupGuid;
-                }
+        let payload: any;
+        try {
+            // The follow-up state update is part of what the record would look like in the target
+            payload = { ...(await this.transformRecord(sourceRecord, config, result.unresolvedLookups)), ...this.getRecordState(config, sourceRecord) };
+        } catch (error: any) {
+            result.message = error.message;
+            return result;
+        }
 
-                // Format as OData lookup reference
-                // Use proper entity set name from dataverse API
-                if (!lookupMapping.targetEntity) {
-                    console.error(`Target entity is missing for lookup field ${mapping.sourceField}`);
-                    continue;
-                }
+        const isUpdate = exists && config.operations.includes("update");
+        if (isUpdate) {
+            payload = toUpdatePayload(payload);
+        }
 
-                let entitySetName: string | undefined;
-                try {
-                    // Get entity metadata to extract the LogicalCollectionName (entity set name)
-                    const entityMetadata = (await window.dataverseAPI.getEntityMetadata(lookupMapping.targetEntity, true, ["LogicalCollectionName"], "primary")) as EntityMetadataResponse | null;
+        // Lookups that keep (or map to) a GUID only resolve if that record exists in the target
+        for (const key of Object.keys(payload).filter((k) => k.endsWith("@odata.bind"))) {
+            const targetField = key.slice(0, -"@odata.bind".length);
+            const fieldMapping = config.fieldMappings.find((m) => m.targetField === targetField);
+            const boundGuid = /\(([^)]+)\)$/.exec(payload[key])?.[1];
+            // Preserved owners are bound to users or teams rather than to the owner lookup target
+            const targetEntity =
+                config.preserveSystemFields && fieldMapping?.fieldType.includes("Owner")
+                    ? payload[key].startsWith("/teams(")
+                        ? "team"
+                        : "systemuser"
+                    : config.lookupMappings.find((l) => l.fieldName === fieldMapping?.sourceField)?.targetEntity;
+            if (!targetEntity || !boundGuid) {
+                continue;
+            }
 
-                    const metadataCollectionName = typeof entityMetadata?.LogicalCollectionName === "string" ? entityMetadata.LogicalCollectionName.trim() : "";
+            const cacheKey = `${targetEntity}:${boundGuid.toLowerCase()}`;
+            if (!lookupExistsCache.has(cacheKey)) {
+                let lookupExists = true;
+                try {
+                    await this.targetClient.retrieveRecord(targetEntity, boundGuid, []);
+                } catch {
+                    lookupExists = false;
+                }
+                lookupExistsCache.set(cacheKey, lookupExists);
+            }
 
-                    // Validate we got a proper entity set name
-                    if (!metadataCollectionName) {
-                        throw new Error("Empty entity set name returned from metadata");
-                    }
+            if (!lookupExistsCache.get(cacheKey)) {
+                result.unresolvedLookups.push(`${targetField}: ${targetEntity} ${boundGuid} does not exist in the target`);
+            }
+        }
 
-                    entitySetName = metadataCollectionName;
-                } catch (error) {
-                    console.error(`Failed to get entity set name for ${lookupMapping.targetEntity}:`, error);
-                    // Fallback to pluralization if API fails
-                    entitySetName = this.pluralizeEntityName(lookupMapping.targetEntity);
-                    console.log(`Using fallback pluralization: ${entitySetName}`);
-                }
+        const changes: FieldDiff[] = Object.keys(payload).map((key) => {
+            const isBind = key.endsWith("@odata.bind");
+            const field = isBind ? key.slice(0, -"@odata.bind".length) : key;
+            const newValue = isBind ? /\(([^)]+)\)$/.exec(payload[key])?.[1] : payload[key];
+            const currentValue = targetRecord ? (isBind ? targetRecord[`_${field}_value`] : targetRecord[field]) : undefined;
+            return { field, currentValue, newValue };
+        });
+
+        if (isUpdate) {
+            result.action = "update";
+            result.changes = changes.filter((change) => !this.valuesEqual(change.currentValue, change.newValue));
+            if (result.changes.length === 0) {
+                result.message = "No field changes";
+            }
+        } else if (config.operations.includes("create")) {
+            result.action = "create";
+            result.changes = changes;
+            if (exists) {
+                result.message = "A record with this ID already exists in the target; create adds a new record";
+            }
+        } else {
+            result.message = "Record does not exist in the target; update would fail";
+        }
 
-                const resolvedEntitySetName = entitySetName || this.pluralizeEntityName(lookupMapping.targetEntity);
+        return result;
+    }
 
-                targetRecord[`${mapping.targetField}@odata.bind`] = `/${resolvedEntitySetName}(${mappedGuid})`;
-            } else {
-                // Regular field (not a lookup)
-                const sourceValue = sourceRecord[mapping.sourceField];
+    /**
+     * Compare a target value with the value the migration would write
+     */
+    private valuesEqual(currentValue: any, newValue: any): boolean {
+        const isEmpty = (value: any) => value === null || value === undefined || value === "";
+        if (isEmpty(currentValue) || isEmpty(newValue)) {
+            return isEmpty(currentValue) && isEmpty(newValue);
+        }
 
-                if (sourceValue !== null && sourceValue !== undefined) {
-                    targetRecord[mapping.targetField] = sourceValue;
-                }
-            }
+        // Dates come back in a different precision/format than they are sent
+        if (typeof currentValue === "string" && typeof newValue === "string" && /^\d{4}-\d{2}-\d{2}T/.test(currentValue) && /^\d{4}-\d{2}-\d{2}T/.test(newValue)) {
+            return new Date(currentValue).getTime() === new Date(newValue).getTime();
         }
 
-        return targetRecord;
+        return String(currentValue).toLowerCase() === String(newValue).toLowerCase();
+    }
+
+    /**
+     * Run a multi-table migration plan as one job.
+     *
+     * Tables are processed in plan order. Deferred lookups (self-referencing or circular) are left out
+     * of the first pass and applied with a follow-up update once every table has been migrated, so the
+     * referenced records are guaranteed to exist in the target.
+     */
+    async migratePlan(plan: MigrationPlan, onProgress: (progress: MigrationProgress) => void): Promise<void> {
+        try {
+            this.resetRun();
+            this.recordIdMappings.clear();
+            this.lookupMatchCache.clear();
+
+            const progress: MigrationProgress = {
+                total: 0,
+                processed: 0,
+                successful: 0,
+                failed: 0,
+                skipped: 0,
+                records: [],
+                isInProgress: true,
+                totalTables: plan.tables.length,
+                phase: "records",
+            };
+
+            this.beginJournal(progress, plan.tables, true);
+
+            await this.runPlan(plan, progress, this.withJournal(onProgress));
+
+            progress.isInProgress = false;
+            onProgress({ ...progress });
+            await this.saveJournal(true, true);
+        } catch (error: any) {
+            await this.saveJournal(true);
+            console.error("Failed to run migration plan:", error);
+            throw new Error(`Failed to run migration plan: ${error.message}`);
+        }
+    }
+
+    /**
+     * Run the filter of a configuration against the source and the target and list the target records
+     * whose ID is not in the source result. Records are matched by primary ID, like update and delete.
+     */
+    async compareForMirrorSync(config: MigrationConfig): Promise<MirrorSyncComparison> {
+        try {
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+            const selectFields = primaryNameField ? [primaryIdField, primaryNameField] : [primaryIdField];
+            const normalizeId = (id: string) => id.replace(/[{}]/g, "").toLowerCase();
+
+            const readAll = (client: DataverseClient, onPage: (records: any[]) => void) =>
+                config.filterType === "fetchxml" && config.filterQuery
+                    ? client.queryAllRecordsWithFetchXml(config.filterQuery, onPage)
+                    : client.queryAllRecords(config.entityLogicalName, selectFields, config.filterQuery || undefined, onPage);
+
+            const sourceIds = new Set<string>();
+            const sourceCount = await readAll(this.sourceClient, (records) => records.forEach((record) => sourceIds.add(normalizeId(record[primaryIdField]))));
+
+            // Linked entities in a FetchXML filter can return a record more than once
+            const candidates: MirrorSyncCandidate[] = [];
+            const candidateIds = new Set<string>();
+            const targetCount = await readAll(this.targetClient, (records) => {
+                for (const record of records) {
+                    const targetId = normalizeId(record[primaryIdField]);
+                    if (!sourceIds.has(targetId) && !candidateIds.has(targetId)) {
+                        candidateIds.add(targetId);
+                        candidates.push({
+                            targetId: record[primaryIdField],
+                            primaryName: primaryNameField && record[primaryNameField] ? String(record[primaryNameField]) : "",
+                        });
+                    }
+                }
+            });
+
+            return { sourceCount, targetCount, candidates };
+        } catch (error: any) {
+            console.error("Failed to compare source and target for mirror sync:", error);
+            throw new Error(`Failed to compare source and target: ${error.message}`);
+        }
+    }
+
+    /**
+     * Compare the records of a configuration between the source and the target without writing anything.
+     *
+     * Records are matched by primary ID, or by the values of the given source fields (read from their mapped
+     * target fields in the target). Matched records are compared on every enabled field mapping; user, team and
+     * business unit references are translated through the auto-mappings, other lookups are compared by ID.
+     */
+    async compareEnvironments(config: MigrationConfig, matchFields: string[]): Promise<ComparisonReport> {
+        try {
+            if (config.sourceType === "file") {
+                throw new Error("Comparison needs a Dataverse source");
+            }
+
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+            const comparedMappings = config.fieldMappings.filter(
+                (m) =>
+                    m.isEnabled &&
+                    !isFileFieldType(m.fieldType) &&
+                    config.lookupMappings.find((l) => l.fieldName === m.sourceField)?.strategy !== "skip",
+            );
+            const keyMappings = matchFields.map((field) => {
+                const mapping = config.fieldMappings.find((m) => m.sourceField === field);
+                if (!mapping) {
+                    throw new Error(`Match field ${field} is not mapped`);
+                }
+                return mapping;
+            });
+
+            const normalizeId = (id: string) => id.replace(/[{}]/g, "").toLowerCase();
+            const readValue = (record: any, field: string, fieldType: string) => (isReferenceFieldType(fieldType) ? record[`_${field}_value`] : record[field]);
+            const readKey = (record: any, side: "sourceField" | "targetField") => {
+                if (keyMappings.length === 0) {
+                    return normalizeId(record[primaryIdField]);
+                }
+                const values = keyMappings.map((m) => readValue(record, m[side], m.fieldType));
+                if (values.every((value) => value === null || value === undefined || value === "")) {
+                    return "";
+                }
+                return values.map((value) => String(value ?? "").trim().toLowerCase()).join("|");
+            };
+            const readPrimaryName = (record: any) => (primaryNameField && record[primaryNameField] ? String(record[primaryNameField]) : "");
+
+            const selectFields = (side: "sourceField" | "targetField") => {
+                const fields = comparedMappings.map((m) => (isReferenceFieldType(m.fieldType) ? `_${m[side]}_value` : m[side]));
+                return Array.from(new Set([...fields, primaryIdField, ...(primaryNameField ? [primaryNameField] : [])]));
+            };
+            const readAll = (client: DataverseClient, side: "sourceField" | "targetField", onPage: (records: any[]) => void) =>
+                config.filterType === "fetchxml" && config.filterQuery
+                    ? client.queryAllRecordsWithFetchXml(config.filterQuery, onPage)
+                    : client.queryAllRecords(config.entityLogicalName, selectFields(side), config.filterQuery || undefined, onPage);
+
+            // Target records by match key; a key shared by several target records keeps the first and flags the others
+            const results: RecordComparisonResult[] = [];
+            const targetRecords = new Map<string, any>();
+            const targetIds = new Set<string>();
+            const targetCount = await readAll(this.targetClient, "targetField", (records) => {
+                for (const record of records) {
+                    const targetId = normalizeId(record[primaryIdField]);
+                    if (targetIds.has(targetId)) {
+                        continue;
+                    }
+                    targetIds.add(targetId);
+
+                    const key = readKey(record, "targetField");
+                    if (!key || targetRecords.has(key)) {
+                        results.push({
+                            status: "targetOnly",
+                            key,
+                            targetId: record[primaryIdField],
+                            primaryName: readPrimaryName(record),
+                            differences: [],
+                            message: key ? "Another target record has the same key" : "Key fields are empty",
+                        });
+                        continue;
+                    }
+                    targetRecords.set(key, record);
+                }
+            });
+
+            let identicalCount = 0;
+            const matchedKeys = new Set<string>();
+            const sourceIds = new Set<string>();
+            const sourceCount = await readAll(this.sourceClient, "sourceField", (records) => {
+                for (const record of records) {
+                    const sourceId = normalizeId(record[primaryIdField]);
+                    if (sourceIds.has(sourceId)) {
+                        continue;
+                    }
+                    sourceIds.add(sourceId);
+
+                    const key = readKey(record, "sourceField");
+                    const targetRecord = key && !matchedKeys.has(key) ? targetRecords.get(key) : undefined;
+                    if (!targetRecord) {
+                        results.push({
+                            status: "sourceOnly",
+                            key,
+                            sourceId: record[primaryIdField],
+                            primaryName: readPrimaryName(record),
+                            differences: [],
+                            message: !key ? "Key fields are empty" : matchedKeys.has(key) ? "Another source record has the same key" : undefined,
+                        });
+                        continue;
+                    }
+                    matchedKeys.add(key);
+
+                    const differences = comparedMappings
+                        .map((m) => {
+                            let sourceValue = readValue(record, m.sourceField, m.fieldType);
+                            if (isReferenceFieldType(m.fieldType) && typeof sourceValue === "string") {
+                                sourceValue = this.userMappings.get(sourceValue) || this.teamMappings.get(sourceValue) || this.businessUnitMappings.get(sourceValue) || sourceValue;
+                            }
+                            return { field: m.sourceField, sourceValue, targetValue: readValue(targetRecord, m.targetField, m.fieldType) };
+                        })
+                        .filter((difference) => !this.valuesEqual(difference.targetValue, difference.sourceValue));
+
+                    if (differences.length === 0) {
+                        identicalCount++;
+                    } else {
+                        results.push({
+                            status: "different",
+                            key,
+                            sourceId: record[primaryIdField],
+                            targetId: targetRecord[primaryIdField],
+                            primaryName: readPrimaryName(record),
+                            differences,
+                        });
+                    }
+                }
+            });
+
+            for (const [key, record] of targetRecords) {
+                if (!matchedKeys.has(key)) {
+                    results.push({ status: "targetOnly", key, targetId: record[primaryIdField], primaryName: readPrimaryName(record), differences: [] });
+                }
+            }
+
+            return {
+                entityLogicalName: config.entityLogicalName,
+                entityDisplayName: config.entityDisplayName,
+                generatedAt: new Date().toISOString(),
+                matchFields,
+                sourceCount,
+                targetCount,
+                identicalCount,
+                results,
+            };
+        } catch (error: any) {
+            console.error("Failed to compare source and target records:", error);
+            throw new Error(`Failed to compare source and target: ${error.message}`);
+        }
+    }
+
+    /**
+     * Delete or deactivate the confirmed mirror sync candidates in the target, reporting each record on the progress
+     */
+    async removeTargetRecords(
+        config: MigrationConfig,
+        candidates: MirrorSyncCandidate[],
+        action: "delete" | "deactivate",
+        onProgress: (progress: MigrationProgress) => void,
+    ): Promise<void> {
+        try {
+            // Tables such as opportunity, incident and quote have no plain inactive state, so refuse before touching any record
+            const inactiveState = action === "deactivate" ? await this.targetClient.fetchInactiveState(config.entityLogicalName) : null;
+            if (action === "deactivate" && !inactiveState) {
+                throw new Error(`${config.entityLogicalName} has no Inactive state; delete the records instead`);
+            }
+
+            const progress: MigrationProgress = {
+                total: candidates.length,
+                processed: 0,
+                successful: 0,
+                failed: 0,
+                skipped: 0,
+                records: [],
+                isInProgress: true,
+                currentBatch: 0,
+                totalBatches: Math.ceil(candidates.length / config.batchSize),
+            };
+            onProgress({ ...progress });
+
+            for (let i = 0; i < candidates.length; i += config.batchSize) {
+                progress.currentBatch = Math.floor(i / config.batchSize) + 1;
+
+                for (const candidate of candidates.slice(i, i + config.batchSize)) {
+                    const migrationRecord: MigrationRecord = {
+                        sourceId: candidate.targetId,
+                        targetId: candidate.targetId,
+                        displayName: candidate.primaryName || candidate.targetId,
+                        primaryName: candidate.primaryName,
+                        status: "processing",
+                        entityLogicalName: config.entityLogicalName,
+                    };
+                    progress.records.push(migrationRecord);
+                    onProgress({ ...progress });
+
+                    try {
+                        if (inactiveState) {
+                            await this.targetClient.updateRecord(config.entityLogicalName, candidate.targetId, inactiveState);
+                        } else {
+                            await this.targetClient.deleteRecord(config.entityLogicalName, candidate.targetId);
+                        }
+                        migrationRecord.status = "success";
+                        progress.successful++;
+                    } catch (error: any) {
+                        migrationRecord.status = "error";
+                        migrationRecord.errorMessage = error.message;
+                        progress.failed++;
+                    }
+
+                    progress.processed++;
+                    onProgress({ ...progress });
+                }
+            }
+
+            progress.isInProgress = false;
+            onProgress({ ...progress });
+        } catch (error: any) {
+            console.error("Failed to remove target records:", error);
+            throw new Error(`Failed to remove target records: ${error.message}`);
+        }
+    }
+
+    /**
+     * Run both passes of a migration plan on the given progress, optionally limited to the source
+     * records accepted by `shouldProcess`. The deferred lookup pass covers every successful record.
+     */
+    private async runPlan(
+        plan: MigrationPlan,
+        progress: MigrationProgress,
+        onProgress: (progress: MigrationProgress) => void,
+        shouldProcess?: (entityLogicalName: string, sourceId: string) => boolean,
+    ): Promise<void> {
+        const sourceRecordsByTable = new Map<string, any[]>();
+
+        for (let index = 0; index < plan.tables.length; index++) {
+            const { config, deferredLookups } = plan.tables[index];
+            progress.currentTable = config.entityDisplayName;
+            progress.currentTableIndex = index + 1;
+            onProgress({ ...progress });
+
+            const { primaryIdField, primaryNameField } = await this.getPrimaryAttributes(config);
+            const sourceRecords = await this.fetchSourceRecords(config, primaryIdField, primaryNameField || "");
+            sourceRecordsByTable.set(config.entityLogicalName, sourceRecords);
+
+            const pendingRecords = shouldProcess ? sourceRecords.filter((record) => shouldProcess(config.entityLogicalName, record[primaryIdField])) : sourceRecords;
+            progress.total += pendingRecords.length;
+            progress.currentBatch = 0;
+            progress.totalBatches = Math.ceil(pendingRecords.length / config.batchSize);
+
+            const firstPassConfig: MigrationConfig = {
+                ...config,
+                fieldMappings: config.fieldMappings.filter((m) => !deferredLookups.includes(m.sourceField)),
+            };
+
+            await this.processRecords(firstPassConfig, pendingRecords, primaryIdField, primaryNameField, progress, onProgress);
+        }
+
+        // Second pass: bind the deferred lookups now that every table exists in the target
+        progress.phase = "deferred-lookups";
+        progress.currentBatch = undefined;
+        progress.totalBatches = undefined;
+
+        // Index the first-pass records once instead of searching them for every source record
+        const recordsByKey = new Map<string, MigrationRecord>();
+        for (const record of progress.records) {
+            const key = `${record.entityLogicalName}|${record.sourceId}`;
+            if (!recordsByKey.has(key)) {
+                recordsByKey.set(key, record);
+            }
+        }
+
+        for (let index = 0; index < plan.tables.length; index++) {
+            const { config, deferredLookups } = plan.tables[index];
+            if (deferredLookups.length === 0 || !config.operations.some((op) => op !== "delete")) {
+                continue;
+            }
+
+            progress.currentTable = config.entityDisplayName;
+            progress.currentTableIndex = index + 1;
+            onProgress({ ...progress });
+
+            const { primaryIdField } = await this.getPrimaryAttributes(config);
+            const secondPassConfig: MigrationConfig = {
+                ...config,
+                fieldMappings: config.fieldMappings.filter((m) => deferredLookups.includes(m.sourceField)),
+            };
+
+            const sourceRecords = sourceRecordsByTable.get(config.entityLogicalName) || [];
+            for (const sourceRecord of sourceRecords) {
+                const sourceId = sourceRecord[primaryIdField] as string;
+                const migrationRecord = recordsByKey.get(`${config.entityLogicalName}|${sourceId}`);
+                if (!migrationRecord || migrationRecord.status !== "success" || !migrationRecord.targetId) {
+                    continue;
+                }
+
+                try {
+                    const lookupData = await this.transformRecord(sourceRecord, secondPassConfig);
+                    if (Object.keys(lookupData).length > 0) {
+                        await this.targetClient.updateRecord(config.entityLogicalName, migrationRecord.targetId, lookupData);
+                    }
+                } catch (error: any) {
+                    migrationRecord.status = "error";
+                    migrationRecord.errorMessage = `${DEFERRED_LOOKUP_ERROR} (${deferredLookups.join(", ")}) failed: ${error.message}`;
+                    progress.successful--;
+                    progress.failed++;
+                    onProgress({ ...progress });
+                }
+            }
+        }
+
+        // Associations come last so that records of every table in the plan can be related
+        progress.phase = "associations";
+        for (let index = 0; index < plan.tables.length; index++) {
+            const { config } = plan.tables[index];
+            if (!config.manyToManyMappings?.some((r) => r.isEnabled)) {
+                continue;
+            }
+
+            progress.currentTable = config.entityDisplayName;
+            progress.currentTableIndex = index + 1;
+            onProgress({ ...progress });
+            await this.migrateAssociations(config, progress, onProgress);
+        }
+    }
+
+    /**
+     * Replay the N:N associations of the successfully migrated records of a table in the target.
+     * Related records are translated through the source → target ID map and otherwise assumed to have
+     * the same ID in the target. Associations that already exist are left alone, and a failing
+     * association marks its record as failed.
+     */
+    private async migrateAssociations(config: MigrationConfig, progress: MigrationProgress, onProgress: (progress: MigrationProgress) => void): Promise<void> {
+        const relationships = (config.manyToManyMappings || []).filter((r) => r.isEnabled);
+        if (config.sourceType === "file" || relationships.length === 0 || !config.operations.some((op) => op !== "delete")) {
+            return;
+        }
+
+        const normalizeId = (id: string) => id.replace(/[{}]/g, "").toLowerCase();
+        const migratedRecords = progress.records.filter((r) => r.entityLogicalName === config.entityLogicalName && r.status === "success" && !!r.targetId);
+        const recordsBySourceId = new Map(migratedRecords.map((r) => [normalizeId(r.sourceId), r]));
+        const recordsByTargetId = new Map(migratedRecords.map((r) => [normalizeId(r.targetId!), r]));
+
+        progress.phase = "associations";
+        onProgress({ ...progress });
+
+        const failAssociation = (record: MigrationRecord | undefined, relationship: ManyToManyMapping, error: any) => {
+            if (!record || record.status === "error") {
+                return;
+            }
+            record.status = "error";
+            record.errorMessage = `N:N ${relationship.schemaName} failed: ${error.message}`;
+            progress.successful--;
+            progress.failed++;
+            onProgress({ ...progress });
+        };
+
+        for (const relationship of relationships) {
+            for (let i = 0; i < migratedRecords.length; i += config.batchSize) {
+                const batch = migratedRecords.slice(i, i + config.batchSize);
+                const sourcePairs = await this.sourceClient.queryAssociations(relationship, batch.map((r) => r.sourceId));
+                const targetPairs = await this.targetClient.queryAssociations(relationship, batch.map((r) => r.targetId!));
+
+                const existing = new Set(targetPairs.map(([targetId, relatedTargetId]) => `${targetId}:${relatedTargetId}`));
+                const expected = new Set<string>();
+
+                for (const [sourceId, relatedSourceId] of sourcePairs) {
+                    const record = recordsBySourceId.get(sourceId);
+                    if (!record) {
+                        continue;
+                    }
+
+                    const targetId = normalizeId(record.targetId!);
+                    const relatedTargetId = normalizeId(this.recordIdMappings.get(relationship.relatedEntityLogicalName)?.get(relatedSourceId) || relatedSourceId);
+                    expected.add(`${targetId}:${relatedTargetId}`);
+                    if (existing.has(`${targetId}:${relatedTargetId}`)) {
+                        continue;
+                    }
+
+                    try {
+                        await this.targetClient.associateRecords(config.entityLogicalName, targetId, relationship.navigationPropertyName, relationship.relatedEntityLogicalName, relatedTargetId);
+                    } catch (error: any) {
+                        failAssociation(record, relationship, error);
+                    }
+                }
+
+                if (!config.disassociateMissing) {
+                    continue;
+                }
+
+                for (const [targetId, relatedTargetId] of targetPairs) {
+                    if (expected.has(`${targetId}:${relatedTargetId}`)) {
+                        continue;
+                    }
+
+                    try {
+                        await this.targetClient.disassociateRecords(config.entityLogicalName, targetId, relationship.navigationPropertyName, relatedTargetId);
+                    } catch (error: any) {
+                        failAssociation(recordsByTargetId.get(targetId), relationship, error);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Query all source records for a configuration (used by plan runs and full dry runs where there is no preview)
+     */
+    private async fetchSourceRecords(config: MigrationConfig, primaryIdField: string, primaryNameField: string): Promise<any[]> {
+        const records: any[] = [];
+        await this.streamSourceRecords(config, primaryIdField, primaryNameField, (page) => {
+            records.push(...page);
+        });
+        return records;
+    }
+
+    /**
+     * Read the given source records of a configuration by ID (records that no longer exist are left out)
+     */
+    private async fetchSourceRecordsByIds(config: MigrationConfig, sourceIds: string[], primaryIdField: string, primaryNameField: string): Promise<any[]> {
+        const selectFields = buildSelectFields(config.fieldMappings, primaryIdField, primaryNameField);
+        const records: any[] = [];
+
+        for (let i = 0; i < sourceIds.length; i += config.batchSize) {
+            const found = await this.sourceClient.retrieveRecordsByIds(config.entityLogicalName, primaryIdField, sourceIds.slice(i, i + config.batchSize), selectFields);
+            records.push(...Array.from(found.values()).map((record) => normalizeLookupValues(record, config.fieldMappings)));
+        }
+
+        return records;
+    }
+
+    /**
+     * Read every page of the source query for a configuration, handing each normalized page to onPage
+     */
+    private async streamSourceRecords(config: MigrationConfig, primaryIdField: string, primaryNameField: string, onPage: (records: any[]) => Promise<void> | void): Promise<number> {
+        const handlePage = (page: any[]) => onPage(page.map((record) => normalizeLookupValues(record, config.fieldMappings)));
+
+        if (config.filterType === "fetchxml" && config.filterQuery) {
+            return this.sourceClient.queryAllRecordsWithFetchXml(config.filterQuery, handlePage);
+        }
+
+        return this.sourceClient.queryAllRecords(
+            config.entityLogicalName,
+            buildSelectFields(config.fieldMappings, primaryIdField, primaryNameField),
+            config.filterQuery || undefined,
+            handlePage,
+        );
+    }
+
+    /**
+     * Resolve the primary ID and primary name attributes of a table from the source metadata
+     * (the target metadata for file sources, which have no source connection)
+     */
+    private async getPrimaryAttributes(config: MigrationConfig): Promise<{ primaryIdField: string; primaryNameField?: string }> {
+        const entityLogicalName = config.entityLogicalName;
+        const connection = this.getSourceConnection(config);
+
+        // Fetch primary ID field from entity metadata
+        const entityMetadata = (await window.dataverseAPI.getEntityMetadata(
+            entityLogicalName,
+            true, // searchByLogicalName should be true
+            ["PrimaryIdAttribute"],
+            connection,
+        )) as EntityMetadataResponse | null;
+
+        if (!entityMetadata || typeof entityMetadata.PrimaryIdAttribute !== "string" || entityMetadata.PrimaryIdAttribute.trim() === "") {
+            throw new Error(`Unable to get primary ID attribute for entity ${entityLogicalName}`);
+        }
+
+        const primaryIdField = entityMetadata.PrimaryIdAttribute;
+
+        const entityMetadataForName = (await window.dataverseAPI.getEntityMetadata(entityLogicalName, true, ["PrimaryNameAttribute"], connection)) as EntityMetadataResponse | null;
+
+        const primaryNameField =
+            typeof entityMetadataForName?.PrimaryNameAttribute === "string" && entityMetadataForName.PrimaryNameAttribute.trim() !== "" ? entityMetadataForName.PrimaryNameAttribute : undefined;
+
+        return { primaryIdField, primaryNameField };
+    }
+
+    /**
+     * Connection that holds the metadata of the source table: file sources are described by the target table
+     */
+    private getSourceConnection(config: MigrationConfig): "primary" | "secondary" {
+        return config.sourceType === "file" ? "secondary" : "primary";
+    }
+
+    /**
+     * Start the journal of a run. The journal shares the records array of the progress object, so every
+     * status change is picked up by the next save. A resumed run keeps the ID and start time of its journal.
+     */
+    private beginJournal(progress: MigrationProgress, tables: MigrationPlan["tables"], isPlan: boolean, sourceIds?: string[], resumedJournal?: MigrationRunJournal): void {
+        const now = new Date().toISOString();
+        this.journal = {
+            runId: resumedJournal?.runId || crypto.randomUUID(),
+            startedAt: resumedJournal?.startedAt || now,
+            updatedAt: now,
+            status: "in-progress",
+            isPlan,
+            tables: tables.map(({ config, deferredLookups }) => ({ config: serializeMigrationConfig(config), deferredLookups })),
+            sourceIds,
+            records: progress.records,
+            principalMappings: {
+                users: Array.from(this.userMappings.entries()),
+                teams: Array.from(this.teamMappings.entries()),
+                businessUnits: Array.from(this.businessUnitMappings.entries()),
+                defaultOwnerId: this.defaultOwnerId,
+            },
+        };
+        this.journalSavedAt = 0;
+    }
+
+    /**
+     * Wrap a progress callback so that the journal is saved while records are processed
+     */
+    private withJournal(onProgress: (progress: MigrationProgress) => void): (progress: MigrationProgress) => void {
+        return (progress) => {
+            onProgress(progress);
+            void this.saveJournal();
+        };
+    }
+
+    /**
+     * Save the journal of the current run. Saves are throttled unless forced, and a failing save
+     * never stops the migration itself. Runs force a save when a write batch starts, so a resumed run
+     * looks up every record that may already exist in the target; the target IDs of created records
+     * are kept in memory and written with the next save.
+     */
+    private async saveJournal(force = false, completed = false): Promise<void> {
+        const journal = this.journal;
+        if (!journal || (!force && Date.now() - this.journalSavedAt < JOURNAL_SAVE_INTERVAL_MS)) {
+            return;
+        }
+
+        this.journalSavedAt = Date.now();
+        if (completed) {
+            journal.status = "completed";
+        }
+
+        this.journalSaving = this.journalSaving
+            .then(() => RunJournal.save(journal))
+            .catch(() => {
+                // Already logged by RunJournal
+            });
+        await this.journalSaving;
+    }
+
+    /**
+     * Process source records in batches, applying the configured operations to the target and
+     * recording the outcome (and the source → target ID mapping) on the shared progress object
+     */
+    private async processRecords(
+        config: MigrationConfig,
+        sourceRecords: any[],
+        primaryIdField: string,
+        primaryNameField: string | undefined,
+        progress: MigrationProgress,
+        onProgress: (progress: MigrationProgress) => void,
+    ): Promise<void> {
+        if (config.useBulkOperations) {
+            await this.processRecordsInBulk(config, sourceRecords, primaryIdField, primaryNameField, progress, onProgress);
+            return;
+        }
+
+        const totalRecords = sourceRecords.length;
+
+        // Process records in batches
+        for (let i = 0; i < totalRecords; i += config.batchSize) {
+            const batch = sourceRecords.slice(i, i + config.batchSize);
+            progress.currentBatch = Math.floor(i / config.batchSize) + 1;
+
+            // The batch is journaled before anything is written, so a record interrupted mid-write is looked up on resume
+            const migrationRecords = batch.map((sourceRecord) => this.createMigrationRecord(config, sourceRecord, primaryIdField, primaryNameField));
+            progress.records.push(...migrationRecords);
+            onProgress({ ...progress });
+            await this.saveJournal(true);
+
+            for (let index = 0; index < batch.length; index++) {
+                const sourceRecord = batch[index];
+                const migrationRecord = migrationRecords[index];
+                const recordId = migrationRecord.sourceId;
+
+                try {
+                    // Transform record with mappings
+                    const targetData = await this.transformRecord(sourceRecord, config);
+
+                    // A record an interrupted run already wrote is completed on that target record instead of being created again
+                    const resumedTargetId = config.operations.includes("delete") ? undefined : this.resumedTargetIds.get(journalRecordKey(config.entityLogicalName, recordId));
+                    if (resumedTargetId) {
+                        await this.targetClient.updateRecord(config.entityLogicalName, resumedTargetId, toUpdatePayload(targetData));
+                        migrationRecord.targetId = resumedTargetId;
+                    } else {
+                        // Perform all selected operations on each record
+                        // First check if record exists in target for smart operation selection
+                        let recordExistsInTarget = false;
+                        try {
+                            const existingRecord = await this.targetClient.retrieveRecord(config.entityLogicalName, recordId, [primaryIdField]);
+                            recordExistsInTarget = !!existingRecord;
+                        } catch (error) {
+                            // Record doesn't exist
+                            recordExistsInTarget = false;
+                        }
+
+                        for (const operation of config.operations) {
+                            // Skip create if record already exists and both create and update are selected
+                            if (operation === "create" && recordExistsInTarget && config.operations.includes("update")) {
+                                continue; // Skip create, will be handled by update
+                            }
+
+                            // Skip update if record doesn't exist and both create and update are selected
+                            if (operation === "update" && !recordExistsInTarget && config.operations.includes("create")) {
+                                continue; // Skip update, will be handled by create
+                            }
+
+                            switch (operation) {
+                                case "create":
+                                    const createdId = await this.targetClient.createRecord(config.entityLogicalName, targetData);
+                                    migrationRecord.targetId = createdId;
+                                    break;
+
+                                case "update":
+                                    await this.targetClient.updateRecord(config.entityLogicalName, recordId, toUpdatePayload(targetData));
+                                    migrationRecord.targetId = recordId;
+                                    break;
+
+                                case "delete":
+                                    await this.targetClient.deleteRecord(config.entityLogicalName, recordId);
+                                    migrationRecord.targetId = recordId;
+                                    break;
+                            }
+                        }
+                    }
+
+                    if (migrationRecord.targetId && !config.operations.includes("delete")) {
+                        this.setRecordIdMapping(config.entityLogicalName, recordId, migrationRecord.targetId);
+                        await this.applyRecordState(config, sourceRecord, migrationRecord.targetId);
+                        await this.migrateAttachments(config, sourceRecord, primaryIdField, recordId, migrationRecord.targetId);
+                    }
+
+                    migrationRecord.status = "success";
+                    progress.successful++;
+                } catch (error: any) {
+                    migrationRecord.status = "error";
+                    migrationRecord.errorMessage = error.message;
+                    progress.failed++;
+                }
+
+                progress.processed++;
+                onProgress({ ...progress });
+            }
+        }
+    }
+
+    /**
+     * Process source records with CreateMultiple/UpdateMultiple requests, running up to
+     * `config.parallelism` batches at a time. When a bulk request fails, its records are retried
+     * one by one so that each error is reported on the record that caused it. Bulk requests and
+     * single-record retries share one limit, so at most `config.parallelism` writes are in flight.
+     */
+    private async processRecordsInBulk(
+        config: MigrationConfig,
+        sourceRecords: any[],
+        primaryIdField: string,
+        primaryNameField: string | undefined,
+        progress: MigrationProgress,
+        onProgress: (progress: MigrationProgress) => void,
+    ): Promise<void> {
+        const parallelism = Math.max(1, config.parallelism || 1);
+        const needsExistenceCheck = config.operations.includes("create") && config.operations.includes("update");
+        const limit = createConcurrencyLimiter(parallelism);
+
+        const batches: any[][] = [];
+        for (let i = 0; i < sourceRecords.length; i += config.batchSize) {
+            batches.push(sourceRecords.slice(i, i + config.batchSize));
+        }
+
+        let completedBatches = 0;
+
+        await runWithConcurrency(batches, parallelism, async (batch) => {
+            const items: BulkItem[] = batch.map((sourceRecord) => {
+                const migrationRecord = this.createMigrationRecord(config, sourceRecord, primaryIdField, primaryNameField);
+                progress.records.push(migrationRecord);
+                return { sourceRecord, sourceId: migrationRecord.sourceId, migrationRecord, targetData: undefined, failed: false };
+            });
+            onProgress({ ...progress });
+            // The batch is journaled before anything is written, so a record interrupted mid-write is looked up on resume
+            await this.saveJournal(true);
+
+            for (const item of items) {
+                try {
+                    item.targetData = await this.transformRecord(item.sourceRecord, config);
+                } catch (error: any) {
+                    failBulkItem(item, error);
+                }
+            }
+
+            // One query per batch replaces the per-record existence check
+            let existingIds = new Set<string>();
+            if (needsExistenceCheck) {
+                try {
+                    existingIds = await this.targetClient.findExistingRecordIds(
+                        config.entityLogicalName,
+                        primaryIdField,
+                        items.filter((item) => !item.failed).map((item) => item.sourceId),
+                    );
+                } catch (error: any) {
+                    items.forEach((item) => failBulkItem(item, error));
+                }
+            }
+
+            // Records an interrupted run already wrote are completed on those target records instead of being created again
+            const resumedItems = config.operations.includes("delete")
+                ? []
+                : items.filter((item) => !item.failed && this.resumedTargetIds.has(journalRecordKey(config.entityLogicalName, item.sourceId)));
+            await runWithConcurrency(resumedItems, parallelism, async (item) => {
+                const resumedTargetId = this.resumedTargetIds.get(journalRecordKey(config.entityLogicalName, item.sourceId))!;
+                try {
+                    await limit(() => this.targetClient.updateRecord(config.entityLogicalName, resumedTargetId, toUpdatePayload(item.targetData)));
+                    item.migrationRecord.targetId = resumedTargetId;
+                } catch (error: any) {
+                    failBulkItem(item, error);
+                }
+            });
+
+            for (const operation of config.operations) {
+                const pending = items.filter((item) => {
+                    if (item.failed || resumedItems.includes(item)) return false;
+                    if (!needsExistenceCheck) return true;
+                    const exists = existingIds.has(item.sourceId.toLowerCase());
+                    // Create handles new records and update handles existing ones when both are selected
+                    return operation === "create" ? !exists : operation === "update" ? exists : true;
+                });
+
+                if (pending.length === 0) {
+                    continue;
+                }
+
+                switch (operation) {
+                    case "create":
+                        await this.bulkCreate(config, pending, parallelism, limit);
+                        break;
+
+                    case "update":
+                        await this.bulkUpdate(config, pending, primaryIdField, parallelism, limit);
+                        break;
+
+                    case "delete":
+                        // There is no DeleteMultiple for standard tables, so deletes run as parallel single requests
+                        await runWithConcurrency(pending, parallelism, async (item) => {
+                            try {
+                                await limit(() => this.targetClient.deleteRecord(config.entityLogicalName, item.sourceId));
+                                item.migrationRecord.targetId = item.sourceId;
+                            } catch (error: any) {
+                                failBulkItem(item, error);
+                            }
+                        });
+                        break;
+                }
+            }
+
+            if (!config.operations.includes("delete")) {
+                await runWithConcurrency(
+                    items.filter((item) => !item.failed && item.migrationRecord.targetId),
+                    parallelism,
+                    async (item) => {
+                        try {
+                            await limit(async () => {
+                                await this.applyRecordState(config, item.sourceRecord, item.migrationRecord.targetId!);
+                                await this.migrateAttachments(config, item.sourceRecord, primaryIdField, item.sourceId, item.migrationRecord.targetId!);
+                            });
+                        } catch (error: any) {
+                            failBulkItem(item, error);
+                        }
+                    },
+                );
+            }
+
+            for (const item of items) {
+                if (item.failed) {
+                    progress.failed++;
+                } else {
+                    item.migrationRecord.status = "success";
+                    progress.successful++;
+                    if (item.migrationRecord.targetId && !config.operations.includes("delete")) {
+                        this.setRecordIdMapping(config.entityLogicalName, item.sourceId, item.migrationRecord.targetId);
+                    }
+                }
+                progress.processed++;
+            }
+
+            completedBatches++;
+            progress.currentBatch = completedBatches;
+            onProgress({ ...progress });
+        });
+    }
+
+    /**
+     * Create the pending items with CreateMultiple, falling back to single creates on failure
+     */
+    private async bulkCreate(config: MigrationConfig, pending: BulkItem[], parallelism: number, limit: RequestLimiter): Promise<void> {
+        try {
+            const createdIds = await limit(() =>
+                this.targetClient.createMultipleRecords(
+                    config.entityLogicalName,
+                    pending.map((item) => item.targetData),
+                ),
+            );
+            pending.forEach((item, index) => {
+                item.migrationRecord.targetId = createdIds[index];
+            });
+        } catch (bulkError) {
+            // CreateMultiple is all-or-nothing, so nothing was created and every record can be retried on its own
+            console.warn(`CreateMultiple failed for ${config.entityLogicalName}, retrying records individually:`, bulkError);
+            await runWithConcurrency(pending, parallelism, async (item) => {
+                try {
+                    item.migrationRecord.targetId = await limit(() => this.targetClient.createRecord(config.entityLogicalName, item.targetData));
+                } catch (error: any) {
+                    failBulkItem(item, error);
+                }
+            });
+        }
+    }
+
+    /**
+     * Update the pending items with UpdateMultiple, falling back to single updates on failure
+     */
+    private async bulkUpdate(config: MigrationConfig, pending: BulkItem[], primaryIdField: string, parallelism: number, limit: RequestLimiter): Promise<void> {
+        try {
+            await limit(() =>
+                this.targetClient.updateMultipleRecords(
+                    config.entityLogicalName,
+                    pending.map((item) => ({ ...toUpdatePayload(item.targetData), [primaryIdField]: item.sourceId })),
+                ),
+            );
+            pending.forEach((item) => {
+                item.migrationRecord.targetId = item.sourceId;
+            });
+        } catch (bulkError) {
+            console.warn(`UpdateMultiple failed for ${config.entityLogicalName}, retrying records individually:`, bulkError);
+            await runWithConcurrency(pending, parallelism, async (item) => {
+                try {
+                    await limit(() => this.targetClient.updateRecord(config.entityLogicalName, item.sourceId, toUpdatePayload(item.targetData)));
+                    item.migrationRecord.targetId = item.sourceId;
+                } catch (error: any) {
+                    failBulkItem(item, error);
+                }
+            });
+        }
+    }
+
+    /**
+     * Build the progress entry for a source record
+     */
+    private createMigrationRecord(config: MigrationConfig, sourceRecord: any, primaryIdField: string, primaryNameField: string | undefined): MigrationRecord {
+        const recordId = sourceRecord[primaryIdField] as string;
+        const primaryName = primaryNameField && sourceRecord[primaryNameField] ? (sourceRecord[primaryNameField] as string) : "";
+
+        const displayField = config.fieldMappings.find((m) => m.sourceField.includes("name"))?.sourceField;
+        const displayName = displayField && sourceRecord[displayField] ? sourceRecord[displayField] : primaryName || recordId;
+
+        return {
+            sourceId: recordId,
+            displayName,
+            primaryName: primaryName || displayName,
+            status: "processing",
+            entityLogicalName: config.entityLogicalName,
+        };
+    }
+
+    /**
+     * Apply the mapped state and status reason of a source record to its target record. Dataverse creates
+     * records active and does not always accept a state change in the same request, so this runs as a
+     * separate update once the record has been written.
+     */
+    private async applyRecordState(config: MigrationConfig, sourceRecord: any, targetId: string): Promise<void> {
+        const stateData = this.getRecordState(config, sourceRecord);
+        if (Object.keys(stateData).length === 0) {
+            return;
+        }
+
+        try {
+            await this.targetClient.updateRecord(config.entityLogicalName, targetId, stateData);
+        } catch (error: any) {
+            throw new Error(`Record state failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read the mapped state and status reason of a source record (empty unless system fields are preserved)
+     */
+    private getRecordState(config: MigrationConfig, sourceRecord: any): Record<string, any> {
+        const stateData: Record<string, any> = {};
+        if (!config.preserveSystemFields) {
+            return stateData;
+        }
+
+        for (const mapping of config.fieldMappings.filter((m) => m.isEnabled && STATE_FIELDS.includes(m.targetField))) {
+            const value = applyFieldTransforms(sourceRecord[mapping.sourceField], mapping.transforms, sourceRecord, mapping.fieldType);
+            if (value !== null && value !== undefined) {
+                stateData[mapping.targetField] = value;
+            }
+        }
+        return stateData;
+    }
+
+    /**
+     * Copy the file and image columns and (when enabled) the notes of a migrated record to its target record
+     */
+    private async migrateAttachments(config: MigrationConfig, sourceRecord: any, primaryIdField: string, sourceId: string, targetId: string): Promise<void> {
+        // Spreadsheet rows have no source record to copy files or notes from
+        if (config.sourceType === "file") {
+            return;
+        }
+
+        for (const mapping of config.fieldMappings.filter((m) => m.isEnabled && isFileFieldType(m.fieldType))) {
+            try {
+                // FetchXML filters may leave the column out of the source record, so its value is read first
+                const fileValue =
+                    mapping.sourceField in sourceRecord
+                        ? sourceRecord[mapping.sourceField]
+                        : (await this.sourceClient.retrieveRecord(config.entityLogicalName, sourceId, [mapping.sourceField]))?.[mapping.sourceField];
+
+                // An empty column has nothing to copy
+                if (!fileValue) {
+                    continue;
+                }
+
+                await this.copyFileColumn(config.entityLogicalName, primaryIdField, sourceId, mapping.sourceField, targetId, mapping.targetField);
+            } catch (error: any) {
+                throw new Error(`File column ${mapping.sourceField} failed: ${error.message}`);
+            }
+        }
+
+        if (config.migrateNotes) {
+            try {
+                await this.copyNotes(config.entityLogicalName, sourceId, targetId);
+            } catch (error: any) {
+                throw new Error(`Notes failed: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Stream the content of a file or image column from the source record to the target record,
+     * uploading each downloaded block as it arrives
+     */
+    private async copyFileColumn(entityLogicalName: string, primaryIdField: string, sourceId: string, sourceField: string, targetId: string, targetField: string): Promise<void> {
+        const download = await this.sourceClient.initializeFileDownload(entityLogicalName, primaryIdField, sourceId, sourceField);
+        const continuationToken = await this.targetClient.initializeFileUpload(entityLogicalName, primaryIdField, targetId, targetField, download.fileName);
+
+        const blockIds: string[] = [];
+        for (let offset = 0; offset < download.fileSizeInBytes; offset += FILE_BLOCK_SIZE) {
+            const blockData = await this.sourceClient.downloadFileBlock(download.continuationToken, offset, Math.min(FILE_BLOCK_SIZE, download.fileSizeInBytes - offset));
+            // Block IDs must be base64 strings of equal length
+            const blockId = btoa(String(blockIds.length).padStart(8, "0"));
+            await this.targetClient.uploadFileBlock(continuationToken, blockId, blockData);
+            blockIds.push(blockId);
+        }
+
+        await this.targetClient.commitFileUpload(continuationToken, download.fileName, guessMimeType(download.fileName), blockIds);
+    }
+
+    /**
+     * Copy the notes of a source record, with their attachments, to the target record.
+     * Notes that already exist on the target record (same subject, text and file name) are not copied again.
+     */
+    private async copyNotes(entityLogicalName: string, sourceId: string, targetId: string): Promise<void> {
+        const sourceNotes = await this.sourceClient.fetchNotes(sourceId, true);
+        if (sourceNotes.length === 0) {
+            return;
+        }
+
+        const noteKey = (note: any) => `${note.subject || ""}|${note.notetext || ""}|${note.filename || ""}`;
+        const existingNotes = new Set((await this.targetClient.fetchNotes(targetId, false)).map(noteKey));
+        const entitySetName = await window.dataverseAPI.getEntitySetName(entityLogicalName);
+
+        for (const note of sourceNotes) {
+            if (existingNotes.has(noteKey(note))) {
+                continue;
+            }
+
+            const targetNote: any = {
+                subject: note.subject,
+                notetext: note.notetext,
+                [`objectid_${entityLogicalName}@odata.bind`]: `/${entitySetName}(${targetId})`,
+            };
+            if (note.isdocument && note.documentbody) {
+                targetNote.filename = note.filename;
+                targetNote.mimetype = note.mimetype || guessMimeType(note.filename || "");
+                targetNote.documentbody = note.documentbody;
+            }
+
+            await this.targetClient.createRecord("annotation", targetNote);
+        }
+    }
+
+    /**
+     * Remember which target record a migrated source record ended up as
+     */
+    private setRecordIdMapping(entityLogicalName: string, sourceId: string, targetId: string): void {
+        let tableMappings = this.recordIdMappings.get(entityLogicalName);
+        if (!tableMappings) {
+            tableMappings = new Map();
+            this.recordIdMappings.set(entityLogicalName, tableMappings);
+        }
+        tableMappings.set(sourceId.replace(/[{}]/g, "").toLowerCase(), targetId);
+    }
+
+    /**
+     * Transform source record to target record with field mappings.
+     * When `unresolvedLookups` is given, lookups that cannot be matched are collected there instead of throwing.
+     */
+    private async transformRecord(sourceRecord: any, config: MigrationConfig, unresolvedLookups?: string[]): Promise<any> {
+        const targetRecord: any = {};
+
+        for (const mapping of config.fieldMappings) {
+            if (!mapping.isEnabled) {
+                continue;
+            }
+
+            // File and image content is uploaded in blocks once the record exists (see migrateAttachments)
+            if (isFileFieldType(mapping.fieldType)) {
+                continue;
+            }
+
+            // State and status reason are applied after the record is written (see applyRecordState)
+            if (config.preserveSystemFields && STATE_FIELDS.includes(mapping.targetField)) {
+                continue;
+            }
+
+            // Check if this is a lookup field that needs mapping
+            const lookupMapping = config.lookupMappings.find((l) => l.fieldName === mapping.sourceField);
+
+            if (lookupMapping) {
+                if (lookupMapping.strategy === "skip") {
+                    continue;
+                }
+
+                // Extract GUID from lookup value
+                // Lookup values are stored in _fieldname_value format in query results
+                const lookupValueField = `_${mapping.sourceField}_value`;
+                let lookupGuid = sourceRecord[lookupValueField];
+
+                // Fallback: try direct field access or object formats
+                if (!lookupGuid) {
+                    const sourceValue = sourceRecord[mapping.sourceField];
+                    if (typeof sourceValue === "string") {
+                        lookupGuid = sourceValue;
+                    } else if (sourceValue && sourceValue._value) {
+                        lookupGuid = sourceValue._value;
+                    } else if (sourceValue && sourceValue.id) {
+                        lookupGuid = sourceValue.id;
+                    }
+                }
+
+                // Skip if no lookup value found
+                if (!lookupGuid) {
+                    continue;
+                }
+
+                // Remove curly braces if present
+                lookupGuid = lookupGuid.toString().replace(/[{}]/g, "");
+
+                // Owners can be users or teams, so they are bound to the matching table through the auto-mappings
+                if (config.preserveSystemFields && mapping.fieldType.includes("Owner")) {
+                    const ownerType = this.getOwnerType(sourceRecord, mapping.sourceField, lookupGuid);
+                    const ownerGuid = ownerType === "team" ? this.teamMappings.get(lookupGuid) || lookupGuid : this.userMappings.get(lookupGuid) || this.defaultOwnerId || lookupGuid;
+                    targetRecord[`${mapping.targetField}@odata.bind`] = `/${this.pluralizeEntityName(ownerType)}(${ownerGuid})`;
+                    continue;
+                }
+
+                // Apply mapping based on strategy
+                let mappedGuid = lookupGuid;
+
+                if (config.sourceType === "file" && !isGuid(lookupGuid)) {
+                    // Spreadsheet cells usually hold the name of the referenced record rather than its ID
+                    let matchedGuid: string | null = null;
+                    let matchError = "";
+                    try {
+                        matchedGuid = await this.resolveLookupByName(lookupMapping, lookupGuid);
+                    } catch (error: any) {
+                        if (!unresolvedLookups) {
+                            throw error;
+                        }
+                        matchError = error.message;
+                    }
+                    if (!matchedGuid) {
+                        const message = matchError || `Could not resolve ${mapping.sourceField}: no ${lookupMapping.targetEntity} record named "${lookupGuid}" found in the target`;
+                        if (unresolvedLookups) {
+                            unresolvedLookups.push(message);
+                            continue;
+                        }
+                        throw new Error(message);
+                    }
+                    mappedGuid = matchedGuid;
+                } else if (lookupMapping.strategy === "auto") {
+                    // Apply auto-mapping based on entity type
+                    if (lookupMapping.targetEntity === "systemuser") {
+                        // The default owner only stands in for owners; other user references such as createdby keep their source ID
+                        const fallbackUserId = mapping.fieldType.includes("Owner") ? this.defaultOwnerId : undefined;
+                        mappedGuid = this.userMappings.get(lookupGuid) || fallbackUserId || lookupGuid;
+                    } else if (lookupMapping.targetEntity === "team") {
+                        mappedGuid = this.teamMappings.get(lookupGuid) || lookupGuid;
+                    } else if (lookupMapping.targetEntity === "businessunit") {
+                        mappedGuid = this.businessUnitMappings.get(lookupGuid) || lookupGuid;
+                    }
+                } else if (lookupMapping.strategy === "manual" && lookupMapping.manualMappings) {
+                    // Apply manual mapping
+                    mappedGuid = lookupMapping.manualMappings.get(lookupGuid) || lookupGuid;
+                } else if (lookupMapping.strategy === "match") {
+                    // Records migrated earlier in this run resolve directly, anything else is searched for in the target
+                    let matchedGuid = this.recordIdMappings.get(lookupMapping.targetEntity)?.get(lookupGuid.toLowerCase()) || null;
+                    let matchError = "";
+                    if (!matchedGuid) {
+                        try {
+                            matchedGuid = await this.resolveLookupByMatch(lookupMapping, lookupGuid);
+                        } catch (error: any) {
+                            if (!unresolvedLookups) {
+                                throw error;
+                            }
+                            matchError = error.message;
+                        }
+                    }
+                    if (!matchedGuid) {
+                        const message = matchError || `Could not resolve ${mapping.sourceField}: no matching ${lookupMapping.targetEntity} record found in the target`;
+                        if (unresolvedLookups) {
+                            unresolvedLookups.push(message);
+                            continue;
+                        }
+                        throw new Error(message);
+                    }
+                    mappedGuid = matchedGuid;
+                }
+
+                // Records migrated earlier in this run may have received a different ID in the target
+                if (mappedGuid === lookupGuid) {
+                    mappedGuid = this.recordIdMappings.get(lookupMapping.targetEntity)?.get(lookupGuid.toLowerCase()) || lookupGuid;
+                }
+
+                // Format as OData lookup reference
+                // Use proper entity set name from dataverse API
+                if (!lookupMapping.targetEntity) {
+                    console.error(`Target entity is missing for lookup field ${mapping.sourceField}`);
+                    continue;
+                }
+
+                let entitySetName: string | undefined;
+                try {
+                    // Get entity metadata to extract the LogicalCollectionName (entity set name)
+                    const entityMetadata = (await window.dataverseAPI.getEntityMetadata(lookupMapping.targetEntity, true, ["LogicalCollectionName"], this.getSourceConnection(config))) as EntityMetadataResponse | null;
+
+                    const metadataCollectionName = typeof entityMetadata?.LogicalCollectionName === "string" ? entityMetadata.LogicalCollectionName.trim() : "";
+
+                    // Validate we got a proper entity set name
+                    if (!metadataCollectionName) {
+                        throw new Error("Empty entity set name returned from metadata");
+                    }
+
+                    entitySetName = metadataCollectionName;
+                } catch (error) {
+                    console.error(`Failed to get entity set name for ${lookupMapping.targetEntity}:`, error);
+                    // Fallback to pluralization if API fails
+                    entitySetName = this.pluralizeEntityName(lookupMapping.targetEntity);
+                    console.log(`Using fallback pluralization: ${entitySetName}`);
+                }
+
+                const resolvedEntitySetName = entitySetName || this.pluralizeEntityName(lookupMapping.targetEntity);
+
+                targetRecord[`${mapping.targetField}@odata.bind`] = `/${resolvedEntitySetName}(${mappedGuid})`;
+            } else {
+                // Regular field (not a lookup)
+                const sourceValue = applyFieldTransforms(sourceRecord[mapping.sourceField], mapping.transforms, sourceRecord, mapping.fieldType);
+
+                // Created On is system-managed; the original date is kept through the "Record Created On" column
+                const targetField = config.preserveSystemFields && mapping.targetField === "createdon" ? "overriddencreatedon" : mapping.targetField;
+
+                if (sourceValue !== null && sourceValue !== undefined) {
+                    targetRecord[targetField] = sourceValue;
+                }
+            }
+        }
+
+        return targetRecord;
+    }
+
+    /**
+     * Find the target record that corresponds to a referenced source record by comparing the values
+     * of an alternate key or of the chosen match fields. Results are cached per target table.
+     */
+    private async resolveLookupByMatch(lookupMapping: LookupMapping, sourceGuid: string): Promise<string | null> {
+        const targetEntity = lookupMapping.targetEntity;
+        let tableCache = this.lookupMatchCache.get(targetEntity);
+        if (!tableCache) {
+            tableCache = new Map();
+            this.lookupMatchCache.set(targetEntity, tableCache);
+        }
+
+        const cacheKey = sourceGuid.toLowerCase();
+        if (tableCache.has(cacheKey)) {
+            return tableCache.get(cacheKey) ?? null;
+        }
+
+        const matchFields = await this.getMatchFields(lookupMapping);
+        if (matchFields.length === 0) {
+            throw new Error(`No match fields configured for lookup ${lookupMapping.fieldName}`);
+        }
+
+        // Lookup attributes are selected and returned as _field_value and are compared as GUIDs
+        const attributeTypes = await this.getAttributeTypes(targetEntity);
+        const fieldTypes = matchFields.map((field) => attributeTypes.get(field) || "");
+        const matchColumns = matchFields.map((field, index) => (isReferenceFieldType(fieldTypes[index]) ? `_${field}_value` : field));
+
+        // Read the match values from the referenced record in the source
+        const sourceRecord = await this.sourceClient.retrieveRecord(targetEntity, sourceGuid, matchColumns);
+
+        // An empty match value identifies nothing, so the lookup stays unresolved instead of matching every empty target record
+        const values = matchColumns.map((column) => sourceRecord[column]);
+        if (values.some((value) => value === null || value === undefined || value === "")) {
+            tableCache.set(cacheKey, null);
+            return null;
+        }
+
+        const conditions = matchColumns.map((column, index) =>
+            isReferenceFieldType(fieldTypes[index]) ? `${column} eq ${values[index]}` : `${column} eq ${this.formatODataValue(values[index], fieldTypes[index])}`,
+        );
+
+        const targetMetadata = (await window.dataverseAPI.getEntityMetadata(targetEntity, true, ["PrimaryIdAttribute"], "secondary")) as EntityMetadataResponse | null;
+        const targetPrimaryId = targetMetadata?.PrimaryIdAttribute;
+        if (!targetPrimaryId) {
+            throw new Error(`Unable to get primary ID attribute for entity ${targetEntity} in the target`);
+        }
+
+        // Ask for two rows so an ambiguous match is detected instead of binding an arbitrary record
+        const matches = await this.targetClient.queryRecords(targetEntity, [targetPrimaryId], conditions.join(" and "), undefined, 2);
+        if (matches.length > 1) {
+            throw new Error(`Lookup ${lookupMapping.fieldName} matches more than one ${targetEntity} record in the target (${matchFields.join(", ")})`);
+        }
+
+        const targetGuid = matches.length === 1 ? (matches[0][targetPrimaryId] as string) : null;
+        tableCache.set(cacheKey, targetGuid);
+        return targetGuid;
+    }
+
+    /**
+     * Find the target record referenced by name in a spreadsheet cell. The name is compared with the single
+     * match field of the lookup when one is configured, otherwise with the primary name of the target table.
+     * Results are cached per target table.
+     */
+    private async resolveLookupByName(lookupMapping: LookupMapping, name: string): Promise<string | null> {
+        const targetEntity = lookupMapping.targetEntity;
+        let tableCache = this.lookupMatchCache.get(targetEntity);
+        if (!tableCache) {
+            tableCache = new Map();
+            this.lookupMatchCache.set(targetEntity, tableCache);
+        }
+
+        const cacheKey = `name:${name.toLowerCase()}`;
+        if (tableCache.has(cacheKey)) {
+            return tableCache.get(cacheKey) ?? null;
+        }
+
+        const targetMetadata = (await window.dataverseAPI.getEntityMetadata(targetEntity, true, ["PrimaryIdAttribute", "PrimaryNameAttribute"], "secondary")) as EntityMetadataResponse | null;
+        const targetPrimaryId = targetMetadata?.PrimaryIdAttribute;
+        if (!targetPrimaryId) {
+            throw new Error(`Unable to get primary ID attribute for entity ${targetEntity} in the target`);
+        }
+
+        const matchFields = lookupMapping.strategy === "match" && lookupMapping.matchMode === "fields" ? lookupMapping.matchFields || [] : [];
+        const nameField = matchFields.length === 1 ? matchFields[0] : targetMetadata?.PrimaryNameAttribute;
+        if (!nameField) {
+            throw new Error(`Unable to get primary name attribute for entity ${targetEntity} in the target`);
+        }
+
+        // Ask for two rows so an ambiguous name is detected instead of binding an arbitrary record
+        const matches = await this.targetClient.queryRecords(targetEntity, [targetPrimaryId], `${nameField} eq ${this.formatODataValue(name)}`, undefined, 2);
+        if (matches.length > 1) {
+            throw new Error(`Lookup ${lookupMapping.fieldName} matches more than one ${targetEntity} record named "${name}" in the target`);
+        }
+
+        const targetGuid = matches.length === 1 ? (matches[0][targetPrimaryId] as string) : null;
+        tableCache.set(cacheKey, targetGuid);
+        return targetGuid;
+    }
+
+    /**
+     * Resolve the fields used to match a lookup: the attributes of the chosen alternate key, or the chosen match fields
+     */
+    private async getMatchFields(lookupMapping: LookupMapping): Promise<string[]> {
+        if (lookupMapping.matchMode !== "alternateKey") {
+            return lookupMapping.matchFields || [];
+        }
+
+        if (!lookupMapping.alternateKey) {
+            throw new Error(`No alternate key selected for lookup ${lookupMapping.fieldName}`);
+        }
+
+        const cacheKey = `${lookupMapping.targetEntity}:${lookupMapping.alternateKey}`;
+        let keyAttributes = this.alternateKeyCache.get(cacheKey);
+        if (!keyAttributes) {
+            const keys = await this.targetClient.fetchAlternateKeys(lookupMapping.targetEntity);
+            const key = keys.find((k) => k.logicalName === lookupMapping.alternateKey);
+            if (!key) {
+                throw new Error(`Alternate key ${lookupMapping.alternateKey} not found on ${lookupMapping.targetEntity} in the target`);
+            }
+            keyAttributes = key.keyAttributes;
+            this.alternateKeyCache.set(cacheKey, keyAttributes);
+        }
+
+        return keyAttributes;
+    }
+
+    /**
+     * Read the attribute types of a table from the source metadata (cached per table)
+     */
+    private async getAttributeTypes(entityLogicalName: string): Promise<Map<string, string>> {
+        let attributes = this.attributeTypeCache.get(entityLogicalName);
+        if (!attributes) {
+            const fields = await this.sourceClient.fetchEntityFields(entityLogicalName);
+            attributes = new Map(fields.map((field) => [field.logicalName, field.type]));
+            this.attributeTypeCache.set(entityLogicalName, attributes);
+        }
+        return attributes;
+    }
+
+    /**
+     * Format a value as an OData literal for a $filter condition. Date and time values are written
+     * unquoted in their ISO form, as OData compares them as DateTimeOffset or Date literals.
+     */
+    private formatODataValue(value: unknown, fieldType = ""): string {
+        if (value === null || value === undefined) {
+            return "null";
+        }
+        if (typeof value === "number" || typeof value === "boolean") {
+            return String(value);
+        }
+        if (fieldType.includes("DateTime")) {
+            return encodeURIComponent(String(value));
+        }
+        return `'${encodeURIComponent(String(value).replace(/'/g, "''"))}'`;
+    }
+
+    /**
+     * Tell whether an owner value references a user or a team: from the lookup annotation when the query
+     * returned it, otherwise from the team auto-mappings
+     */
+    private getOwnerType(sourceRecord: any, fieldName: string, ownerGuid: string): "systemuser" | "team" {
+        const annotatedType = sourceRecord[`_${fieldName}_value@Microsoft.Dynamics.CRM.lookuplogicalname`];
+        if (annotatedType === "team" || annotatedType === "systemuser") {
+            return annotatedType;
+        }
+        return this.teamMappings.has(ownerGuid) ? "team" : "systemuser";
     }
 
     /**
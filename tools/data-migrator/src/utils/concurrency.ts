@@ -0,0 +1,46 @@
+/**
+ * Run an async worker over a list of items with at most `limit` workers in flight.
+ * Resolves once every item has been processed; the worker is expected to handle its own errors.
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    let nextIndex = 0;
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+
+    const runners = Array.from({ length: workerCount }, async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            await worker(items[index], index);
+        }
+    });
+
+    await Promise.all(runners);
+}
+
+/**
+ * Create a limiter that runs at most `limit` tasks at a time across all of its callers.
+ * Tasks started while every slot is taken wait for the next free slot, in call order.
+ */
+export function createConcurrencyLimiter(limit: number): <T>(task: () => Promise<T>) => Promise<T> {
+    let active = 0;
+    const waiting: (() => void)[] = [];
+
+    return async <T>(task: () => Promise<T>): Promise<T> => {
+        if (active >= Math.max(1, limit)) {
+            // The finishing task hands its slot over, so active stays the same
+            await new Promise<void>((resolve) => waiting.push(resolve));
+        } else {
+            active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = waiting.shift();
+            if (next) {
+                next();
+            } else {
+                active--;
+            }
+        }
+    };
+}
@@ -0,0 +1,44 @@
+import type { LookupMapping, MigrationConfig } from "../models/interfaces";
+
+/**
+ * Converts lookup mappings to a JSON-friendly shape (Maps become arrays of entries)
+ */
+export function serializeLookupMappings(lookupMappings: LookupMapping[]): any[] {
+    return lookupMappings.map((mapping) => ({
+        ...mapping,
+        manualMappings: mapping.manualMappings ? Array.from(mapping.manualMappings.entries()) : undefined,
+    }));
+}
+
+/**
+ * Restores lookup mappings saved with serializeLookupMappings
+ */
+export function deserializeLookupMappings(lookupMappings: any[] | undefined): LookupMapping[] {
+    return (lookupMappings || []).map((mapping: any) => ({
+        ...mapping,
+        manualMappings: mapping.manualMappings ? new Map(mapping.manualMappings) : undefined,
+    }));
+}
+
+/**
+ * Converts a migration configuration to a JSON-friendly object
+ */
+export function serializeMigrationConfig(config: MigrationConfig): Record<string, any> {
+    return {
+        ...config,
+        lookupMappings: serializeLookupMappings(config.lookupMappings),
+    };
+}
+
+/**
+ * Restores a migration configuration saved with serializeMigrationConfig
+ */
+export function deserializeMigrationConfig(config: any): MigrationConfig {
+    return {
+        ...config,
+        operations: config.operations || ["create"],
+        fieldMappings: config.fieldMappings || [],
+        lookupMappings: deserializeLookupMappings(config.lookupMappings),
+        batchSize: config.batchSize || 50,
+    };
+}
@@ -0,0 +1,124 @@
+import ExcelJS from "exceljs";
+import type { ComparisonReport, DryRunReport } from "../models/interfaces";
+
+/**
+ * Downloads text or binary content as a file through a temporary object URL
+ */
+export function downloadFile(content: string | Uint8Array<ArrayBuffer>, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Formats a value for a CSV cell, quoting it when it contains separators, quotes or line breaks
+ */
+function toCsvCell(value: any): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds CSV text from a header row and data rows
+ */
+export function toCsv(header: string[], rows: any[][]): string {
+    return [header, ...rows].map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
+
+/**
+ * Flattens a dry-run report to CSV with one row per changed field
+ */
+export function dryRunReportToCsv(report: DryRunReport): string {
+    const header = ["Source ID", "Primary Name", "Action", "Field", "Current Value", "New Value", "Unresolved Lookups", "Message"];
+    const rows: any[][] = [];
+
+    for (const result of report.results) {
+        const unresolved = result.unresolvedLookups.join("; ");
+        if (result.changes.length === 0) {
+            rows.push([result.sourceId, result.primaryName, result.action, "", "", "", unresolved, result.message]);
+            continue;
+        }
+        for (const change of result.changes) {
+            rows.push([result.sourceId, result.primaryName, result.action, change.field, change.currentValue, change.newValue, unresolved, result.message]);
+        }
+    }
+
+    return toCsv(header, rows);
+}
+
+const COMPARISON_STATUS_LABELS: Record<ComparisonReport["results"][number]["status"], string> = {
+    sourceOnly: "Only in source",
+    targetOnly: "Only in target",
+    different: "Different",
+};
+
+/**
+ * Flattens a comparison report to a header and rows with one row per differing field
+ */
+function comparisonReportToRows(report: ComparisonReport): { header: string[]; rows: any[][] } {
+    const header = ["Status", "Key", "Source ID", "Target ID", "Primary Name", "Field", "Source Value", "Target Value", "Message"];
+    const rows: any[][] = [];
+
+    for (const result of report.results) {
+        const status = COMPARISON_STATUS_LABELS[result.status];
+        if (result.differences.length === 0) {
+            rows.push([status, result.key, result.sourceId, result.targetId, result.primaryName, "", "", "", result.message]);
+            continue;
+        }
+        for (const difference of result.differences) {
+            rows.push([status, result.key, result.sourceId, result.targetId, result.primaryName, difference.field, difference.sourceValue, difference.targetValue, result.message]);
+        }
+    }
+
+    return { header, rows };
+}
+
+/**
+ * Flattens a comparison report to CSV with one row per differing field
+ */
+export function comparisonReportToCsv(report: ComparisonReport): string {
+    const { header, rows } = comparisonReportToRows(report);
+    return toCsv(header, rows);
+}
+
+/**
+ * Flattens a comparison report to an Excel workbook with one row per differing field
+ */
+export async function comparisonReportToXlsx(report: ComparisonReport): Promise<Uint8Array<ArrayBuffer>> {
+    const { header, rows } = comparisonReportToRows(report);
+    return toXlsx("Comparison", header, rows);
+}
+
+/**
+ * Formats a value for an XLSX cell: numbers stay numeric, objects are written as JSON and everything else as text
+ */
+function toXlsxCell(value: any): ExcelJS.CellValue {
+    if (value === null || value === undefined || value === "") {
+        return null;
+    }
+    if (typeof value === "number" && Number.isFinite(value)) {
+        return value;
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Builds a single-sheet XLSX workbook from a header row and data rows
+ */
+export async function toXlsx(sheetName: string, header: string[], rows: any[][]): Promise<Uint8Array<ArrayBuffer>> {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(sheetName);
+    worksheet.addRow(header);
+    for (const row of rows) {
+        worksheet.addRow(row.map(toXlsxCell));
+    }
+
+    return new Uint8Array(await workbook.xlsx.writeBuffer());
+}
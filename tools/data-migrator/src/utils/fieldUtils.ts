@@ -1,3 +1,5 @@
+import type { FieldMapping } from "../models/interfaces";
+
 /**
  * Returns true when the Dataverse field type is a reference (Lookup, Owner, or Customer).
  * These fields must be queried as `_fieldname_value` in an OData $select clause.
@@ -5,3 +7,80 @@
 export function isReferenceFieldType(fieldType: string): boolean {
     return fieldType.includes("Lookup") || fieldType.includes("Owner") || fieldType.includes("Customer");
 }
+
+/**
+ * Returns true when the Dataverse field type stores file content (File or Image).
+ * Their content cannot be written with the record and is copied in blocks afterwards.
+ */
+export function isFileFieldType(fieldType: string): boolean {
+    return fieldType.includes("File") || fieldType.includes("Image");
+}
+
+/**
+ * Returns true when the value is a GUID (with or without braces)
+ */
+export function isGuid(value: string): boolean {
+    return /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i.test(value.trim());
+}
+
+/**
+ * Builds the OData $select list for the enabled field mappings, always including the
+ * primary ID and primary name attributes and any fields referenced by string templates.
+ */
+export function buildSelectFields(fieldMappings: FieldMapping[], primaryIdAttribute: string, primaryNameAttribute: string): string[] {
+    const selectFields = fieldMappings
+        .filter((m) => m.isEnabled)
+        .map((m) => {
+            // Dataverse OData Web API represents lookup fields as _fieldname_value in $select
+            if (isReferenceFieldType(m.fieldType)) {
+                return `_${m.sourceField}_value`;
+            }
+            return m.sourceField;
+        });
+
+    // String templates can read fields that are not migrated themselves
+    for (const mapping of fieldMappings) {
+        if (!mapping.isEnabled) {
+            continue;
+        }
+        for (const transform of mapping.transforms || []) {
+            if (transform.type !== "template") {
+                continue;
+            }
+            for (const match of transform.template.matchAll(/\{([^}]+)\}/g)) {
+                const fieldName = match[1].trim();
+                if (fieldName && !selectFields.includes(fieldName)) {
+                    selectFields.push(fieldName);
+                }
+            }
+        }
+    }
+
+    if (primaryIdAttribute && !selectFields.includes(primaryIdAttribute)) {
+        selectFields.push(primaryIdAttribute);
+    }
+    if (primaryNameAttribute && !selectFields.includes(primaryNameAttribute)) {
+        selectFields.push(primaryNameAttribute);
+    }
+
+    return selectFields;
+}
+
+/**
+ * OData returns lookups as _fieldname_value keys, but the rest of the tool works with the bare
+ * logical name. Returns a copy of the record with both keys present for enabled lookup fields.
+ */
+export function normalizeLookupValues(record: Record<string, any>, fieldMappings: FieldMapping[]): Record<string, any> {
+    const normalizedData = { ...record };
+    for (const mapping of fieldMappings) {
+        if (!mapping.isEnabled || !isReferenceFieldType(mapping.fieldType)) {
+            continue;
+        }
+        const odataKey = `_${mapping.sourceField}_value`;
+        // OData never returns both keys, but guard against overwriting if it ever does
+        if (odataKey in normalizedData && !(mapping.sourceField in normalizedData)) {
+            normalizedData[mapping.sourceField] = normalizedData[odataKey];
+        }
+    }
+    return normalizedData;
+}
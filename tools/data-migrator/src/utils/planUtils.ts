@@ -0,0 +1,49 @@
+import type { MigrationConfig, MigrationPlan, MigrationPlanTable } from "../models/interfaces";
+
+/**
+ * Returns the enabled lookup fields of a configuration together with the table they point to.
+ * Skipped lookups and lookups without a known target are ignored since they never bind a record.
+ */
+function getActiveLookups(config: MigrationConfig): { fieldName: string; targetEntity: string }[] {
+    return config.lookupMappings
+        .filter((lookup) => lookup.strategy !== "skip" && !!lookup.targetEntity)
+        .filter((lookup) => config.fieldMappings.some((m) => m.sourceField === lookup.fieldName && m.isEnabled))
+        .map((lookup) => ({ fieldName: lookup.fieldName, targetEntity: lookup.targetEntity }));
+}
+
+/**
+ * Orders the tables of a migration plan so that referenced tables are migrated before the
+ * tables that look them up.
+ *
+ * Self-referencing lookups (e.g. account.parentaccountid) are always deferred to the second pass.
+ * When the remaining tables reference each other in a cycle, the table added to the plan first is
+ * emitted next and its lookups to the still pending tables are deferred as well.
+ */
+export function buildMigrationPlan(configs: MigrationConfig[]): MigrationPlan {
+    const planEntities = new Set(configs.map((c) => c.entityLogicalName));
+    const pending = [...configs];
+    const emitted = new Set<string>();
+    const tables: MigrationPlanTable[] = [];
+
+    const dependenciesOf = (config: MigrationConfig) =>
+        getActiveLookups(config).filter((l) => l.targetEntity !== config.entityLogicalName && planEntities.has(l.targetEntity));
+
+    while (pending.length > 0) {
+        // Prefer the first table whose dependencies have all been emitted
+        let nextIndex = pending.findIndex((config) => dependenciesOf(config).every((d) => emitted.has(d.targetEntity)));
+        const isCycle = nextIndex === -1;
+        if (isCycle) {
+            nextIndex = 0;
+        }
+
+        const [config] = pending.splice(nextIndex, 1);
+        const deferredLookups = getActiveLookups(config)
+            .filter((l) => l.targetEntity === config.entityLogicalName || (isCycle && planEntities.has(l.targetEntity) && !emitted.has(l.targetEntity)))
+            .map((l) => l.fieldName);
+
+        tables.push({ config, deferredLookups });
+        emitted.add(config.entityLogicalName);
+    }
+
+    return { tables };
+}
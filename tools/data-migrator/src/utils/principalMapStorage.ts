@@ -0,0 +1,65 @@
+import type { PrincipalMap } from "../models/interfaces";
+
+const SETTINGS_KEY = "data-migrator-principal-maps";
+
+/**
+ * Normalize a connection URL so the same environment matches regardless of casing or a trailing slash
+ */
+function normalizeUrl(url: string): string {
+    return url.trim().toLowerCase().replace(/\/+$/, "");
+}
+
+/**
+ * Utility class for persisting the reviewed user, team and business unit mappings using PPTB tool settings.
+ * Principal IDs only make sense between the two environments they were reviewed for, so one map is kept per source → target connection pair.
+ */
+export class PrincipalMapStorage {
+    /**
+     * Load all saved principal maps
+     */
+    private static async loadAll(): Promise<PrincipalMap[]> {
+        const principalMaps = await window.toolboxAPI.settings.get(SETTINGS_KEY);
+        return Array.isArray(principalMaps) ? (principalMaps as PrincipalMap[]) : [];
+    }
+
+    /**
+     * Load the principal map saved for a source → target connection pair, if any
+     */
+    static async load(sourceUrl: string, targetUrl: string): Promise<PrincipalMap | null> {
+        try {
+            if (!window.toolboxAPI) {
+                console.warn("PPTB API not available");
+                return null;
+            }
+
+            const source = normalizeUrl(sourceUrl);
+            const target = normalizeUrl(targetUrl);
+            const principalMaps = await this.loadAll();
+            return principalMaps.find((principalMap) => normalizeUrl(principalMap.sourceUrl) === source && normalizeUrl(principalMap.targetUrl) === target) || null;
+        } catch (error) {
+            console.error("Error loading principal map:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Save the principal map, replacing the previous one of the same connection pair
+     */
+    static async save(principalMap: Omit<PrincipalMap, "savedAt">): Promise<PrincipalMap> {
+        try {
+            if (!window.toolboxAPI) {
+                throw new Error("PPTB API not available");
+            }
+
+            const source = normalizeUrl(principalMap.sourceUrl);
+            const target = normalizeUrl(principalMap.targetUrl);
+            const saved: PrincipalMap = { ...principalMap, savedAt: new Date().toISOString() };
+            const principalMaps = (await this.loadAll()).filter((existing) => normalizeUrl(existing.sourceUrl) !== source || normalizeUrl(existing.targetUrl) !== target);
+            await window.toolboxAPI.settings.set(SETTINGS_KEY, [...principalMaps, saved]);
+            return saved;
+        } catch (error) {
+            console.error("Error saving principal map:", error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import type { MigrationRunJournal } from "../models/interfaces";
+
+const SETTINGS_KEY = "data-migrator-run-journal";
+
+/**
+ * Utility class for persisting the journal of the latest migration run using PPTB tool settings
+ */
+export class RunJournal {
+    /**
+     * Load the journal of the latest run, if any
+     */
+    static async load(): Promise<MigrationRunJournal | null> {
+        try {
+            if (!window.toolboxAPI) {
+                console.warn("PPTB API not available");
+                return null;
+            }
+
+            const journal = await window.toolboxAPI.settings.get(SETTINGS_KEY);
+            return journal && journal.runId ? (journal as MigrationRunJournal) : null;
+        } catch (error) {
+            console.error("Error loading run journal:", error);
+            return null;
+        }
+    }
+
+    /**
+     * Save the journal, replacing the previous run
+     */
+    static async save(journal: MigrationRunJournal): Promise<void> {
+        try {
+            if (!window.toolboxAPI) {
+                throw new Error("PPTB API not available");
+            }
+
+            await window.toolboxAPI.settings.set(SETTINGS_KEY, { ...journal, updatedAt: new Date().toISOString() });
+        } catch (error) {
+            console.error("Error saving run journal:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Remove the stored journal
+     */
+    static async clear(): Promise<void> {
+        try {
+            if (!window.toolboxAPI) {
+                throw new Error("PPTB API not available");
+            }
+
+            await window.toolboxAPI.settings.set(SETTINGS_KEY, null);
+        } catch (error) {
+            console.error("Error clearing run journal:", error);
+            throw error;
+        }
+    }
+}
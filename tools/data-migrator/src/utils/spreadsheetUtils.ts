@@ -0,0 +1,199 @@
+import ExcelJS from "exceljs";
+import type { DataverseField, FieldMapping, SpreadsheetData } from "../models/interfaces";
+import { isFileFieldType, isGuid, isReferenceFieldType } from "./fieldUtils";
+import { coerceFieldValue } from "./transformUtils";
+
+/**
+ * Read a CSV or XLSX file into a header row and data rows
+ */
+export async function parseSpreadsheetFile(file: File): Promise<SpreadsheetData> {
+    const extension = file.name.split(".").pop()?.toLowerCase();
+
+    if (extension === "csv" || extension === "txt") {
+        return toSpreadsheetData(file.name, parseCsv(await file.text()));
+    }
+
+    if (extension === "xlsx") {
+        return toSpreadsheetData(file.name, await parseXlsx(await file.arrayBuffer()));
+    }
+
+    throw new Error(`Unsupported file type ".${extension}". Use a .csv or .xlsx file.`);
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting). The delimiter (comma, semicolon or tab) is detected from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+    const content = text.replace(/^﻿/, "");
+    const firstLine = content.split(/\r?\n/, 1)[0] || "";
+    const delimiter = [",", ";", "\t"].reduce((best, candidate) => (firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best), ",");
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && content[i + 1] === "\n") {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== "" || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook as rows of cell text.
+ * Dates are returned as ISO strings and booleans as "true"/"false".
+ */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+    const workbook = new ExcelJS.Workbook();
+    try {
+        await workbook.xlsx.load(buffer);
+    } catch (error: any) {
+        throw new Error(`The file is not a valid XLSX workbook: ${error.message}`);
+    }
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+        throw new Error("The workbook does not contain any worksheet");
+    }
+
+    const rows: string[][] = [];
+    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+        const cells: string[] = [];
+        row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+            cells[columnNumber - 1] = cellValueToText(cell.value);
+        });
+        rows[rowNumber - 1] = Array.from(cells, (value) => value ?? "");
+    });
+
+    return Array.from(rows, (row) => row ?? []);
+}
+
+/**
+ * Turn raw rows into spreadsheet data: the first non-empty row is the header, empty rows are dropped
+ */
+function toSpreadsheetData(fileName: string, rawRows: string[][]): SpreadsheetData {
+    const nonEmptyRows = rawRows.filter((row) => row.some((cell) => cell.trim() !== ""));
+    const [header = [], ...dataRows] = nonEmptyRows;
+
+    const columns: string[] = [];
+    header.forEach((name, index) => {
+        const baseName = name.trim() || `Column ${index + 1}`;
+        let columnName = baseName;
+        for (let suffix = 2; columns.includes(columnName); suffix++) {
+            columnName = `${baseName} (${suffix})`;
+        }
+        columns.push(columnName);
+    });
+
+    const rows = dataRows.map((row) => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ""])));
+    return { fileName, columns, rows };
+}
+
+/**
+ * Assign spreadsheet columns to the field mappings whose logical, schema or display name matches the column header.
+ * Fields without a matching column are disabled; file and image columns cannot be imported and are never matched.
+ */
+export function matchSpreadsheetColumns(fieldMappings: FieldMapping[], fields: DataverseField[], columns: string[]): FieldMapping[] {
+    const normalize = (value: string) => value.trim().toLowerCase();
+
+    return fieldMappings.map((mapping) => {
+        const field = fields.find((f) => f.logicalName === mapping.targetField);
+        const names = [mapping.targetField, field?.schemaName, field?.displayName].filter((name): name is string => !!name).map(normalize);
+        const sourceColumn = isFileFieldType(mapping.fieldType) ? undefined : columns.find((column) => names.includes(normalize(column)));
+        return { ...mapping, sourceColumn, isEnabled: !!sourceColumn };
+    });
+}
+
+/**
+ * Build source records from spreadsheet rows, keyed by the logical names of the mapped fields so they run through
+ * the same pipeline as Dataverse records. Values are converted to the field type; lookup cells keep their text (an ID
+ * or the name of the referenced record). Unmapped columns stay available under their header for string templates.
+ * Rows without an ID column get a generated ID so each row can be tracked through the migration.
+ */
+export function buildSpreadsheetRecords(data: SpreadsheetData, fieldMappings: FieldMapping[], primaryIdAttribute: string): Record<string, any>[] {
+    const mappedFields = fieldMappings.filter((m) => m.isEnabled && m.sourceColumn);
+
+    return data.rows.map((row) => {
+        const record: Record<string, any> = {};
+
+        for (const mapping of mappedFields) {
+            const raw = (row[mapping.sourceColumn!] ?? "").trim();
+            record[mapping.sourceField] = isReferenceFieldType(mapping.fieldType) ? raw || null : coerceFieldValue(raw, mapping.fieldType);
+        }
+
+        for (const column of data.columns) {
+            if (!(column in record)) {
+                record[column] = row[column];
+            }
+        }
+
+        const recordId = record[primaryIdAttribute];
+        if (typeof recordId !== "string" || !isGuid(recordId)) {
+            record[primaryIdAttribute] = crypto.randomUUID();
+        }
+
+        return record;
+    });
+}
+
+/**
+ * Text of a cell value: formulas give their result, rich text and hyperlinks their text, and dates an ISO date
+ * (or date and time when the cell has a time part)
+ */
+function cellValueToText(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    if (value instanceof Date) {
+        const isoString = value.toISOString();
+        return isoString.endsWith("T00:00:00.000Z") ? isoString.slice(0, 10) : isoString;
+    }
+    if (typeof value !== "object") {
+        return String(value);
+    }
+    if ("richText" in value) {
+        return value.richText.map((run) => run.text).join("");
+    }
+    if ("hyperlink" in value) {
+        return typeof value.text === "string" ? value.text : cellValueToText(value.text as ExcelJS.CellValue);
+    }
+    if ("formula" in value || "sharedFormula" in value) {
+        return cellValueToText(value.result as ExcelJS.CellValue);
+    }
+    if ("error" in value) {
+        return value.error;
+    }
+    return "";
+}
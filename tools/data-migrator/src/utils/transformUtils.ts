@@ -0,0 +1,203 @@
+import type { FieldTransform, FieldTransformType } from "../models/interfaces";
+
+/**
+ * Display labels for the transformation types
+ */
+export const TRANSFORM_LABELS: Record<FieldTransformType, string> = {
+    constant: "Constant value",
+    valueMap: "Value remapping",
+    template: "String template",
+    dateShift: "Date shift",
+    timeZone: "Time zone conversion",
+    text: "Trim / change case",
+    default: "Default when empty",
+};
+
+/** Time zones offered when the runtime cannot list the ones it supports */
+const FALLBACK_TIME_ZONES = [
+    "UTC",
+    "America/Los_Angeles",
+    "America/Denver",
+    "America/Chicago",
+    "America/New_York",
+    "America/Sao_Paulo",
+    "Europe/London",
+    "Europe/Paris",
+    "Europe/Berlin",
+    "Africa/Johannesburg",
+    "Asia/Dubai",
+    "Asia/Kolkata",
+    "Asia/Singapore",
+    "Asia/Tokyo",
+    "Australia/Sydney",
+    "Pacific/Auckland",
+];
+
+/**
+ * IANA time zones the runtime supports, offered by the time zone conversion
+ */
+export function getSupportedTimeZones(): string[] {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+    const timeZones = intl.supportedValuesOf ? intl.supportedValuesOf("timeZone") : FALLBACK_TIME_ZONES;
+    return timeZones.includes("UTC") ? timeZones : ["UTC", ...timeZones];
+}
+
+/**
+ * Returns true when the runtime can convert dates to and from the time zone
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    if (!timeZone) {
+        return false;
+    }
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Create a transformation of the given type with empty parameters
+ */
+export function createTransform(type: FieldTransformType): FieldTransform {
+    switch (type) {
+        case "constant":
+            return { type, value: "" };
+        case "valueMap":
+            return { type, mappings: [] };
+        case "template":
+            return { type, template: "" };
+        case "dateShift":
+            return { type, days: 0, hours: 0 };
+        case "timeZone":
+            return { type, fromTimeZone: "UTC", toTimeZone: "UTC" };
+        case "text":
+            return { type, operation: "trim" };
+        case "default":
+            return { type, value: "" };
+    }
+}
+
+/**
+ * Apply the transformations of a field mapping to a source value, in order
+ */
+export function applyFieldTransforms(value: any, transforms: FieldTransform[] | undefined, sourceRecord: Record<string, any>, fieldType: string): any {
+    if (!transforms || transforms.length === 0) {
+        return value;
+    }
+
+    return transforms.reduce((current, transform) => applyTransform(current, transform, sourceRecord, fieldType), value);
+}
+
+function applyTransform(value: any, transform: FieldTransform, sourceRecord: Record<string, any>, fieldType: string): any {
+    switch (transform.type) {
+        case "constant":
+            return coerceFieldValue(transform.value, fieldType);
+
+        case "valueMap": {
+            if (isEmpty(value)) {
+                return value;
+            }
+            const entry = transform.mappings.find((m) => m.source.trim() === String(value));
+            return entry ? coerceFieldValue(entry.target, fieldType) : value;
+        }
+
+        case "template":
+            return transform.template.replace(/\{([^}]+)\}/g, (_match, fieldName: string) => {
+                const fieldValue = sourceRecord[fieldName.trim()];
+                return isEmpty(fieldValue) ? "" : String(fieldValue);
+            });
+
+        case "dateShift": {
+            const date = toDate(value);
+            if (!date) {
+                return value;
+            }
+            const offsetMs = ((transform.days || 0) * 24 + (transform.hours || 0)) * 60 * 60 * 1000;
+            return new Date(date.getTime() + offsetMs).toISOString();
+        }
+
+        case "timeZone": {
+            const date = toDate(value);
+            // Configurations saved before the zones were validated can hold an unknown zone, which Intl rejects
+            if (!date || !isValidTimeZone(transform.fromTimeZone) || !isValidTimeZone(transform.toTimeZone)) {
+                return value;
+            }
+            const shifted = date.getTime() + getTimeZoneOffset(transform.fromTimeZone, date) - getTimeZoneOffset(transform.toTimeZone, date);
+            return new Date(shifted).toISOString();
+        }
+
+        case "text": {
+            if (typeof value !== "string") {
+                return value;
+            }
+            switch (transform.operation) {
+                case "trim":
+                    return value.trim();
+                case "uppercase":
+                    return value.toUpperCase();
+                case "lowercase":
+                    return value.toLowerCase();
+                case "titlecase":
+                    return value.toLowerCase().replace(/(^|\s)\S/g, (c) => c.toUpperCase());
+            }
+            return value;
+        }
+
+        case "default":
+            return isEmpty(value) ? coerceFieldValue(transform.value, fieldType) : value;
+    }
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === "";
+}
+
+/**
+ * Convert a string entered in the UI (or read from a spreadsheet) to the JavaScript type Dataverse expects for the field
+ */
+export function coerceFieldValue(raw: string, fieldType: string): any {
+    if (raw === "") {
+        return null;
+    }
+
+    const type = fieldType.toLowerCase();
+    if (type.includes("boolean")) {
+        return ["true", "1", "yes"].includes(raw.trim().toLowerCase());
+    }
+    if (/integer|bigint|decimal|double|money|picklist|state|status/.test(type) && !type.includes("multiselect")) {
+        const numeric = Number(raw);
+        return Number.isNaN(numeric) ? raw : numeric;
+    }
+    return raw;
+}
+
+function toDate(value: any): Date | null {
+    if (isEmpty(value)) {
+        return null;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Offset (in ms) of a time zone from UTC at the given instant
+ */
+function getTimeZoneOffset(timeZone: string, date: Date): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+    const wallClockAsUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+
+    return wallClockAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
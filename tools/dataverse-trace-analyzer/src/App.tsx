@@ -1,7 +1,12 @@
 import { useCallback, useEffect, useState, useRef } from "react";
-import { FilterOption, PluginTraceLog, SavedFilter, TraceLogFilter } from "./models/interfaces";
+import { AlertRule, FilterOption, PluginTraceLog, SavedFilter, TraceLogContinuation, TraceLogFilter, TriggeredAlert } from "./models/interfaces";
 import { DataverseClient } from "./utils/DataverseClient";
 import { FilterStorage } from "./utils/filterStorage";
+import { filterTraceLogs } from "./utils/LogFilter";
+import { evaluateAlertRules } from "./utils/AlertEvaluator";
+import { parsePluginTypeName } from "./utils/PluginParser";
+import { formatDateTime } from "./utils/DataParser";
+import { parseTraceLogFile, traceLogsToCsv, traceLogsToJson } from "./utils/TraceLogFile";
 import { CommandBar } from "./components/CommandBar";
 import { FilterModal } from "./components/FilterModal";
 import { SaveFilterModal } from "./components/SaveFilterModal";
@@ -10,6 +15,16 @@ import { AutoRefreshModal } from "./components/AutoRefreshModal";
 import { TracingControlModal } from "./components/TracingControlModal";
 import { LogList } from "./components/LogList";
 import { LogDetail } from "./components/LogDetail";
+import { CorrelationTimeline } from "./components/CorrelationTimeline";
+import { AnalyticsView } from "./components/AnalyticsView";
+import { ExportModal } from "./components/ExportModal";
+import { BulkDeleteModal } from "./components/BulkDeleteModal";
+
+/** Number of raised alerts kept in the alert list */
+const MAX_TRIGGERED_ALERTS = 50;
+
+/** Newest logs read by each auto-refresh, whatever the maximum of the list is */
+const AUTO_REFRESH_MAX_LOGS = 100;
 
 function App() {
     const [isPPTB, setIsPPTB] = useState<boolean>(false);
@@ -21,12 +36,24 @@ function App() {
     const [selectedLog, setSelectedLog] = useState<PluginTraceLog | null>(null);
     const [loadingLogs, setLoadingLogs] = useState<boolean>(false);
 
+    // Paging: maximum logs per load (0 = all matching logs) and where the next load continues
+    const [maxLogs, setMaxLogs] = useState<number>(100);
+    const [totalLogCount, setTotalLogCount] = useState<number | undefined>(undefined);
+    const [continuation, setContinuation] = useState<TraceLogContinuation | undefined>(undefined);
+    const [loadingMoreLogs, setLoadingMoreLogs] = useState<boolean>(false);
+
+    // Imported log set (offline analysis): while set, logs are filtered from it instead of retrieved
+    const [importedLogs, setImportedLogs] = useState<PluginTraceLog[] | null>(null);
+    const [importedFileName, setImportedFileName] = useState<string>("");
+
     // Filter modal state
     const [showFilterModal, setShowFilterModal] = useState<boolean>(false);
     const [showSaveFilterModal, setShowSaveFilterModal] = useState<boolean>(false);
     const [showLoadFilterModal, setShowLoadFilterModal] = useState<boolean>(false);
     const [showAutoRefreshModal, setShowAutoRefreshModal] = useState<boolean>(false);
     const [showTracingControlModal, setShowTracingControlModal] = useState<boolean>(false);
+    const [showExportModal, setShowExportModal] = useState<boolean>(false);
+    const [showBulkDeleteModal, setShowBulkDeleteModal] = useState<boolean>(false);
     
     // Saved filters
     const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
@@ -37,9 +64,23 @@ function App() {
     const [newLogsCount, setNewLogsCount] = useState<number>(0);
     const autoRefreshTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+    // Alert rules of the notify mode and the alerts they raised (newest first)
+    const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+    const [triggeredAlerts, setTriggeredAlerts] = useState<TriggeredAlert[]>([]);
+
+    // Main view: the log list with details, or statistics over the loaded logs
+    const [viewMode, setViewMode] = useState<'logs' | 'analytics'>('logs');
+    const [groupByException, setGroupByException] = useState<boolean>(false);
+
     // Highlighting similar records
     const [highlightedLogIds, setHighlightedLogIds] = useState<Set<string>>(new Set());
 
+    // Detail panel tab and the logs of the selected log's correlation (for the timeline)
+    const [detailTab, setDetailTab] = useState<'details' | 'timeline'>('details');
+    const [correlationLogs, setCorrelationLogs] = useState<PluginTraceLog[]>([]);
+    const [timelineCorrelationId, setTimelineCorrelationId] = useState<string>("");
+    const [loadingCorrelationLogs, setLoadingCorrelationLogs] = useState<boolean>(false);
+
     // Resizable panel state
     const [logsPanelWidth, setLogsPanelWidth] = useState<number>(400);
     const [isResizing, setIsResizing] = useState<boolean>(false);
@@ -79,6 +120,7 @@ function App() {
     const [selectedModes, setSelectedModes] = useState<number[]>([]);
     const [correlationFilter, setCorrelationFilter] = useState<string>("");
     const [exceptionOnly, setExceptionOnly] = useState<boolean>(false);
+    const [searchText, setSearchText] = useState<string>("");
 
     // Temporary filter states (for modal before applying)
     const [tempDateFrom, setTempDateFrom] = useState<string>("");
@@ -89,6 +131,7 @@ function App() {
     const [tempSelectedModes, setTempSelectedModes] = useState<number[]>([]);
     const [tempCorrelationFilter, setTempCorrelationFilter] = useState<string>("");
     const [tempExceptionOnly, setTempExceptionOnly] = useState<boolean>(false);
+    const [tempSearchText, setTempSearchText] = useState<string>("");
 
     // Filter options (populated from trace logs)
     const [pluginOptions, setPluginOptions] = useState<FilterOption[]>([]);
@@ -146,7 +189,6 @@ function App() {
     const loadTraceLogs = useCallback(async () => {
         try {
             setLoadingLogs(true);
-            const client = new DataverseClient();
 
             const filter: TraceLogFilter = {
                 startDate: dateFrom || undefined,
@@ -157,31 +199,65 @@ function App() {
                 modes: selectedModes.length > 0 ? selectedModes : undefined,
                 correlationId: correlationFilter || undefined,
                 hasException: exceptionOnly || undefined,
+                searchText: searchText || undefined,
             };
 
-            const logs = await client.fetchPluginTraceLogs(filter);
-            setTraceLogs(logs);
+            if (importedLogs) {
+                setTraceLogs(filterTraceLogs(importedLogs, filter));
+                setTotalLogCount(undefined);
+                setContinuation(undefined);
+            } else {
+                const client = new DataverseClient();
+                const page = await client.fetchPluginTraceLogs(filter, maxLogs);
+                setTraceLogs(page.logs);
+                setTotalLogCount(page.totalCount);
+                setContinuation(page.continuation);
+            }
             setSelectedLog(null);
+            setTimelineCorrelationId("");
         } catch (error: any) {
             showError(`Failed to load trace logs: ${error.message}`);
         } finally {
             setLoadingLogs(false);
         }
-    }, [dateFrom, dateTo, selectedPlugins, selectedMessage, selectedEntities, selectedModes, correlationFilter, exceptionOnly]);
+    }, [dateFrom, dateTo, selectedPlugins, selectedMessage, selectedEntities, selectedModes, correlationFilter, exceptionOnly, searchText, maxLogs, importedLogs]);
+
+    const loadMoreTraceLogs = async () => {
+        if (!continuation || loadingMoreLogs || loadingLogs) {
+            return;
+        }
+
+        try {
+            setLoadingMoreLogs(true);
+            const client = new DataverseClient();
+            const page = await client.fetchPluginTraceLogs(undefined, maxLogs, continuation);
+
+            // Auto-refresh may already have added some of these logs
+            setTraceLogs(prev => {
+                const existingIds = new Set(prev.map(log => log.plugintracelogid));
+                return [...prev, ...page.logs.filter(log => !existingIds.has(log.plugintracelogid))];
+            });
+            setContinuation(page.continuation);
+        } catch (error: any) {
+            showError(`Failed to load more trace logs: ${error.message}`);
+        } finally {
+            setLoadingMoreLogs(false);
+        }
+    };
 
-    // Load trace logs when connection is available
+    // Load trace logs when connection is available or a log set is imported
     useEffect(() => {
-        if (connectionUrl) {
+        if (connectionUrl || importedLogs) {
             loadTraceLogs();
         }
-    }, [connectionUrl, loadTraceLogs]);
+    }, [connectionUrl, importedLogs, loadTraceLogs]);
 
     const showError = (message: string) => {
         setError(message);
         setTimeout(() => setError(""), 5000);
     };
 
-    const showNotification = async (title: string, body: string, type: "success" | "error" | "info" = "success") => {
+    const showNotification = async (title: string, body: string, type: "success" | "error" | "info" | "warning" = "success") => {
         if (isPPTB && window.toolboxAPI) {
             await window.toolboxAPI.utils.showNotification({
                 title,
@@ -217,6 +293,11 @@ function App() {
         }
         setHighlightedLogIds(similarLogIds);
 
+        // Imported logs are complete already and may not exist in the connected environment
+        if (importedLogs) {
+            return;
+        }
+
         try {
             const client = new DataverseClient();
             const detailedLog = await client.getTraceLogDetails(log.plugintracelogid);
@@ -230,6 +311,55 @@ function App() {
         }
     };
 
+    // Load every log of the selected correlation (not only the loaded ones) when the timeline is shown
+    useEffect(() => {
+        const correlationId = selectedLog?.correlationid;
+        if (detailTab !== 'timeline' || !correlationId || correlationId === timelineCorrelationId) {
+            return;
+        }
+
+        if (importedLogs) {
+            setTimelineCorrelationId(correlationId);
+            setCorrelationLogs(importedLogs.filter(log => log.correlationid === correlationId));
+            return;
+        }
+
+        // The correlation only counts as loaded once its logs arrive, so a failed or interrupted load is retried
+        let cancelled = false;
+        const loadCorrelationLogs = async () => {
+            setCorrelationLogs(traceLogs.filter(log => log.correlationid === correlationId));
+            setLoadingCorrelationLogs(true);
+            try {
+                const client = new DataverseClient();
+                const page = await client.fetchPluginTraceLogs({ correlationId });
+                if (!cancelled) {
+                    setCorrelationLogs(page.logs);
+                    setTimelineCorrelationId(correlationId);
+                }
+            } catch (error: any) {
+                if (!cancelled) {
+                    showError(`Failed to load correlated trace logs: ${error.message}`);
+                }
+            } finally {
+                if (!cancelled) {
+                    setLoadingCorrelationLogs(false);
+                }
+            }
+        };
+
+        loadCorrelationLogs();
+        return () => {
+            cancelled = true;
+            setLoadingCorrelationLogs(false);
+        };
+    }, [detailTab, selectedLog?.correlationid]);
+
+    const handleTimelineSelect = (log: PluginTraceLog) => {
+        if (log.plugintracelogid !== selectedLog?.plugintracelogid) {
+            handleLogSelect(log);
+        }
+    };
+
     // Auto-refresh functionality
     const loadTraceLogsForAutoRefresh = useCallback(async () => {
         try {
@@ -244,24 +374,31 @@ function App() {
                 modes: selectedModes.length > 0 ? selectedModes : undefined,
                 correlationId: correlationFilter || undefined,
                 hasException: exceptionOnly || undefined,
+                searchText: searchText || undefined,
             };
 
-            const logs = await client.fetchPluginTraceLogs(filter);
+            const page = await client.fetchPluginTraceLogs(filter, AUTO_REFRESH_MAX_LOGS);
             
             // Compare with existing logs to find new ones
             const existingIds = new Set(traceLogs.map(log => log.plugintracelogid));
-            const newLogs = logs.filter(log => !existingIds.has(log.plugintracelogid));
+            const newLogs = page.logs.filter(log => !existingIds.has(log.plugintracelogid));
             
             if (newLogs.length > 0) {
-                setTraceLogs(logs);
+                // New logs go on top so logs loaded with "load more" are kept
+                setTraceLogs([...newLogs, ...traceLogs]);
+                setTotalLogCount(page.totalCount);
                 setNewLogsCount(newLogs.length);
                 
                 if (autoRefreshMode === 'notify') {
-                    await showNotification(
-                        "New Trace Logs",
-                        `${newLogs.length} new trace log(s) found`,
-                        "info"
-                    );
+                    if (alertRules.some(rule => rule.enabled)) {
+                        await raiseAlerts(evaluateAlertRules(newLogs, alertRules));
+                    } else {
+                        await showNotification(
+                            "New Trace Logs",
+                            `${newLogs.length} new trace log(s) found`,
+                            "info"
+                        );
+                    }
                 }
                 
                 // Clear new logs count after 5 seconds
@@ -270,7 +407,7 @@ function App() {
         } catch (error: any) {
             console.error('Auto-refresh failed:', error);
         }
-    }, [dateFrom, dateTo, selectedPlugins, selectedMessage, selectedEntities, selectedModes, correlationFilter, exceptionOnly, traceLogs, autoRefreshMode]);
+    }, [dateFrom, dateTo, selectedPlugins, selectedMessage, selectedEntities, selectedModes, correlationFilter, exceptionOnly, searchText, traceLogs, autoRefreshMode, alertRules]);
 
     // Setup auto-refresh timer
     useEffect(() => {
@@ -279,7 +416,7 @@ function App() {
             autoRefreshTimerRef.current = null;
         }
 
-        if (autoRefreshMode !== 'off' && connectionUrl) {
+        if (autoRefreshMode !== 'off' && connectionUrl && !importedLogs) {
             autoRefreshTimerRef.current = setInterval(() => {
                 loadTraceLogsForAutoRefresh();
             }, autoRefreshInterval * 1000);
@@ -290,12 +427,49 @@ function App() {
                 clearInterval(autoRefreshTimerRef.current);
             }
         };
-    }, [autoRefreshMode, autoRefreshInterval, connectionUrl, loadTraceLogsForAutoRefresh]);
+    }, [autoRefreshMode, autoRefreshInterval, connectionUrl, importedLogs, loadTraceLogsForAutoRefresh]);
 
-    const handleAutoRefreshSave = (mode: 'off' | 'auto' | 'notify', intervalSeconds: number) => {
+    const handleAutoRefreshSave = async (mode: 'off' | 'auto' | 'notify', intervalSeconds: number, rules: AlertRule[]) => {
         setAutoRefreshMode(mode);
         setAutoRefreshInterval(intervalSeconds);
         setNewLogsCount(0);
+
+        if (JSON.stringify(rules) !== JSON.stringify(alertRules)) {
+            setAlertRules(rules);
+            try {
+                await FilterStorage.saveAlertRules(rules);
+            } catch (error: any) {
+                showError(`Failed to save alert rules: ${error.message}`);
+            }
+        }
+    };
+
+    // One notification per rule; the alert list keeps every matching log to jump to
+    const raiseAlerts = async (alerts: TriggeredAlert[]) => {
+        if (alerts.length === 0) {
+            return;
+        }
+
+        setTriggeredAlerts(prev => [...alerts, ...prev].slice(0, MAX_TRIGGERED_ALERTS));
+
+        const ruleIds = Array.from(new Set(alerts.map(alert => alert.rule.id)));
+        for (const ruleId of ruleIds) {
+            const ruleAlerts = alerts.filter(alert => alert.rule.id === ruleId);
+            const latest = ruleAlerts[0].log;
+            await showNotification(
+                `Alert: ${ruleAlerts[0].rule.name}`,
+                `${ruleAlerts.length} new trace log(s) matched, latest ${parsePluginTypeName(latest.typename).step} (${latest.messagename}). Open the alert list in the tool to view it.`,
+                "warning"
+            );
+        }
+    };
+
+    const handleAlertSelect = (alert: TriggeredAlert) => {
+        setViewMode('logs');
+        setDetailTab('details');
+        if (selectedLog?.plugintracelogid !== alert.log.plugintracelogid) {
+            handleLogSelect(alert.log);
+        }
     };
 
     const handleTracingSave = (enabled: boolean, mode: 'Exception' | 'All') => {
@@ -305,6 +479,12 @@ function App() {
     };
 
     const handleDeleteLog = async (logId: string) => {
+        // Deleting from an imported set only removes the log from the set
+        if (importedLogs) {
+            setImportedLogs(importedLogs.filter((log) => log.plugintracelogid !== logId));
+            return;
+        }
+
         if (!confirm("Are you sure you want to delete this trace log?")) {
             return;
         }
@@ -314,6 +494,7 @@ function App() {
             await client.deleteTraceLog(logId);
             await showNotification("Success", "Trace log deleted successfully", "success");
             setTraceLogs(traceLogs.filter((log) => log.plugintracelogid !== logId));
+            setCorrelationLogs(correlationLogs.filter((log) => log.plugintracelogid !== logId));
             if (selectedLog?.plugintracelogid === logId) {
                 setSelectedLog(null);
             }
@@ -322,6 +503,51 @@ function App() {
         }
     };
 
+    const handleImportLogs = async () => {
+        try {
+            const path = await window.toolboxAPI.fileSystem.selectPath({
+                type: "file",
+                title: "Import Trace Logs",
+                filters: [{ name: "Trace logs", extensions: ["json", "csv"] }],
+            });
+            if (!path) {
+                return;
+            }
+
+            const content = await window.toolboxAPI.fileSystem.readText(path);
+            const logs = parseTraceLogFile(content, path);
+            setImportedLogs(logs);
+            setImportedFileName(path.split(/[\\/]/).pop() || path);
+            await showNotification("Import Complete", `${logs.length} trace log(s) imported`, "success");
+        } catch (error: any) {
+            showError(`Failed to import trace logs: ${error.message}`);
+        }
+    };
+
+    const handleCloseImport = () => {
+        setImportedLogs(null);
+        setImportedFileName("");
+        if (!connectionUrl) {
+            setTraceLogs([]);
+            setSelectedLog(null);
+        }
+    };
+
+    const handleExportLogs = async (format: 'json' | 'csv') => {
+        const content = format === 'csv' ? traceLogsToCsv(traceLogs) : traceLogsToJson(traceLogs, importedLogs ? importedFileName : connectionUrl);
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-").substring(0, 19);
+        const fileName = `plugin-trace-logs-${timestamp}.${format}`;
+
+        try {
+            const savedPath = await window.toolboxAPI.fileSystem.saveFile(fileName, content);
+            if (savedPath) {
+                await showNotification("Export Complete", `${traceLogs.length} trace log(s) exported to ${savedPath}`, "success");
+            }
+        } catch (error: any) {
+            showError(`Failed to export trace logs: ${error.message}`);
+        }
+    };
+
     const openFilterModal = () => {
         setTempDateFrom(dateFrom);
         setTempDateTo(dateTo);
@@ -331,6 +557,7 @@ function App() {
         setTempSelectedModes([...selectedModes]);
         setTempCorrelationFilter(correlationFilter);
         setTempExceptionOnly(exceptionOnly);
+        setTempSearchText(searchText);
         setShowFilterModal(true);
     };
 
@@ -347,6 +574,7 @@ function App() {
         setSelectedModes([...tempSelectedModes]);
         setCorrelationFilter(tempCorrelationFilter);
         setExceptionOnly(tempExceptionOnly);
+        setSearchText(tempSearchText.trim());
         setShowFilterModal(false);
     };
 
@@ -359,6 +587,7 @@ function App() {
         setTempSelectedModes([]);
         setTempCorrelationFilter("");
         setTempExceptionOnly(false);
+        setTempSearchText("");
     };
 
     const getActiveFilterCount = () => {
@@ -371,6 +600,7 @@ function App() {
         if (selectedModes.length > 0) count++;
         if (correlationFilter) count++;
         if (exceptionOnly) count++;
+        if (searchText) count++;
         return count;
     };
 
@@ -392,11 +622,12 @@ function App() {
         );
     };
 
-    // Load saved filters on initialization
+    // Load saved filters and alert rules on initialization
     useEffect(() => {
         const loadSavedFilters = async () => {
             const filters = await FilterStorage.loadFilters();
             setSavedFilters(filters);
+            setAlertRules(await FilterStorage.loadAlertRules());
         };
         if (isPPTB) {
             loadSavedFilters();
@@ -405,18 +636,7 @@ function App() {
 
     const handleSaveFilter = async (name: string) => {
         try {
-            const currentFilter: TraceLogFilter = {
-                startDate: dateFrom || undefined,
-                endDate: dateTo || undefined,
-                pluginNames: selectedPlugins.length > 0 ? selectedPlugins : undefined,
-                messageName: selectedMessage || undefined,
-                entityNames: selectedEntities.length > 0 ? selectedEntities : undefined,
-                modes: selectedModes.length > 0 ? selectedModes : undefined,
-                correlationId: correlationFilter || undefined,
-                hasException: exceptionOnly || undefined,
-            };
-
-            await FilterStorage.saveFilter(name, currentFilter);
+            await FilterStorage.saveFilter(name, getCurrentFilter());
             await showNotification("Success", `Filter "${name}" saved successfully`, "success");
             
             // Reload saved filters
@@ -437,6 +657,7 @@ function App() {
         setSelectedModes(filter.filter.modes || []);
         setCorrelationFilter(filter.filter.correlationId || "");
         setExceptionOnly(filter.filter.hasException || false);
+        setSearchText(filter.filter.searchText || "");
         
         showNotification("Success", `Filter "${filter.name}" loaded successfully`, "info");
     };
@@ -454,6 +675,18 @@ function App() {
         }
     };
 
+    const getCurrentFilter = (): TraceLogFilter => ({
+        startDate: dateFrom || undefined,
+        endDate: dateTo || undefined,
+        pluginNames: selectedPlugins.length > 0 ? selectedPlugins : undefined,
+        messageName: selectedMessage || undefined,
+        entityNames: selectedEntities.length > 0 ? selectedEntities : undefined,
+        modes: selectedModes.length > 0 ? selectedModes : undefined,
+        correlationId: correlationFilter || undefined,
+        hasException: exceptionOnly || undefined,
+        searchText: searchText || undefined,
+    });
+
     const hasActiveFilters = () => {
         return getActiveFilterCount() > 0;
     };
@@ -485,8 +718,18 @@ function App() {
                 onLoadFilter={() => setShowLoadFilterModal(true)}
                 onOpenAutoRefresh={() => setShowAutoRefreshModal(true)}
                 onOpenTracingControl={() => setShowTracingControlModal(true)}
+                onImport={handleImportLogs}
+                onExport={() => setShowExportModal(true)}
+                onBulkDelete={() => setShowBulkDeleteModal(true)}
+                isOffline={!!importedLogs}
                 isLoading={loadingLogs}
                 logCount={traceLogs.length}
+                totalLogCount={totalLogCount}
+                hasMoreLogs={!!continuation}
+                maxLogs={maxLogs}
+                onMaxLogsChange={setMaxLogs}
+                viewMode={viewMode}
+                onViewModeChange={setViewMode}
                 activeFilterCount={getActiveFilterCount()}
                 hasFiltersToSave={hasActiveFilters()}
                 autoRefreshMode={autoRefreshMode}
@@ -506,6 +749,7 @@ function App() {
                 selectedModes={tempSelectedModes}
                 correlationFilter={tempCorrelationFilter}
                 exceptionOnly={tempExceptionOnly}
+                searchText={tempSearchText}
                 onDateFromChange={setTempDateFrom}
                 onDateToChange={setTempDateTo}
                 onTogglePlugin={toggleTempPlugin}
@@ -514,6 +758,7 @@ function App() {
                 onToggleMode={toggleTempMode}
                 onCorrelationChange={setTempCorrelationFilter}
                 onExceptionOnlyChange={setTempExceptionOnly}
+                onSearchTextChange={setTempSearchText}
                 pluginOptions={pluginOptions}
                 messageOptions={messageOptions}
                 entityOptions={entityOptions}
@@ -539,6 +784,7 @@ function App() {
                 onClose={() => setShowAutoRefreshModal(false)}
                 currentMode={autoRefreshMode}
                 currentInterval={autoRefreshInterval}
+                currentAlertRules={alertRules}
                 onSave={handleAutoRefreshSave}
             />
 
@@ -548,31 +794,116 @@ function App() {
                 onSave={handleTracingSave}
             />
 
-            <div className="main-content">
-                <div className="logs-panel" style={{ width: `${logsPanelWidth}px` }}>
-                    <LogList
-                        logs={traceLogs}
-                        selectedLogId={selectedLog?.plugintracelogid || null}
-                        highlightedLogIds={highlightedLogIds}
-                        onSelectLog={handleLogSelect}
-                        isLoading={loadingLogs}
-                    />
+            <ExportModal
+                isOpen={showExportModal}
+                onClose={() => setShowExportModal(false)}
+                onExport={handleExportLogs}
+                logCount={traceLogs.length}
+                isPartial={!!continuation}
+            />
+
+            <BulkDeleteModal
+                isOpen={showBulkDeleteModal}
+                onClose={() => setShowBulkDeleteModal(false)}
+                filter={getCurrentFilter()}
+                activeFilterCount={getActiveFilterCount()}
+                onDeleted={loadTraceLogs}
+            />
+
+            {triggeredAlerts.length > 0 && (
+                <div className="alert-banner">
+                    <div className="alert-banner-header">
+                        <strong>🔔 {triggeredAlerts.length} alert(s)</strong>
+                        <button className="btn btn-secondary btn-sm" onClick={() => setTriggeredAlerts([])}>Dismiss all</button>
+                    </div>
+                    <div className="alert-banner-list">
+                        {triggeredAlerts.map(alert => (
+                            <div key={`${alert.rule.id}-${alert.log.plugintracelogid}`} className="alert-banner-item">
+                                <span className="alert-banner-rule">{alert.rule.name}</span>
+                                <span className="alert-banner-log">
+                                    {parsePluginTypeName(alert.log.typename).step} | {alert.log.messagename} | {formatDateTime(alert.log.createdon)}
+                                </span>
+                                <button className="btn btn-primary btn-sm" onClick={() => handleAlertSelect(alert)}>View log</button>
+                            </div>
+                        ))}
+                    </div>
                 </div>
-                
-                <div 
-                    className="resize-handle"
-                    onMouseDown={() => setIsResizing(true)}
-                />
-
-                {selectedLog && (
-                    <div className="detail-panel">
-                        <LogDetail
-                            log={selectedLog}
-                            onDelete={handleDeleteLog}
+            )}
+
+            {importedLogs && (
+                <div className="import-banner">
+                    <span>
+                        📁 Offline analysis of <strong>{importedFileName}</strong> ({importedLogs.length} logs) - filters apply to the imported logs
+                    </span>
+                    <button className="btn btn-secondary btn-sm" onClick={handleCloseImport}>
+                        {connectionUrl ? "Back to live logs" : "Close"}
+                    </button>
+                </div>
+            )}
+
+            {viewMode === 'analytics' ? (
+                <div className="main-content">
+                    <div className="analytics-panel">
+                        <AnalyticsView logs={traceLogs} isPartial={!!continuation} />
+                    </div>
+                </div>
+            ) : (
+                <div className="main-content">
+                    <div className="logs-panel" style={{ width: `${logsPanelWidth}px` }}>
+                        <LogList
+                            logs={traceLogs}
+                            selectedLogId={selectedLog?.plugintracelogid || null}
+                            highlightedLogIds={highlightedLogIds}
+                            onSelectLog={handleLogSelect}
+                            isLoading={loadingLogs}
+                            hasMore={!!continuation}
+                            isLoadingMore={loadingMoreLogs}
+                            onLoadMore={loadMoreTraceLogs}
+                            isGrouped={groupByException}
+                            onGroupedChange={setGroupByException}
                         />
                     </div>
-                )}
-            </div>
+                
+                    <div 
+                        className="resize-handle"
+                        onMouseDown={() => setIsResizing(true)}
+                    />
+
+                    {selectedLog && (
+                        <div className="detail-panel">
+                            <div className="detail-tabs">
+                                <button className={`detail-tab ${detailTab === 'details' ? 'active' : ''}`} onClick={() => setDetailTab('details')}>
+                                    Details
+                                </button>
+                                <button
+                                    className={`detail-tab ${detailTab === 'timeline' ? 'active' : ''}`}
+                                    onClick={() => setDetailTab('timeline')}
+                                    disabled={!selectedLog.correlationid}
+                                    title="Show every execution of this log's correlation on a timeline"
+                                >
+                                    ⏱️ Timeline
+                                </button>
+                            </div>
+                            {detailTab === 'timeline' && selectedLog.correlationid ? (
+                                <CorrelationTimeline
+                                    correlationId={selectedLog.correlationid}
+                                    logs={correlationLogs}
+                                    selectedLogId={selectedLog.plugintracelogid}
+                                    onSelectLog={handleTimelineSelect}
+                                    isLoading={loadingCorrelationLogs}
+                                />
+                            ) : (
+                                <LogDetail
+                                    log={selectedLog}
+                                    highlightText={searchText}
+                                    canResolveStep={!importedLogs}
+                                    onDelete={handleDeleteLog}
+                                />
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
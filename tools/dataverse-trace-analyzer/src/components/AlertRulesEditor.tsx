@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { AlertRule, AlertRuleType } from "../models/interfaces";
+import { describeAlertRule } from "../utils/AlertEvaluator";
+
+interface AlertRulesEditorProps {
+    rules: AlertRule[];
+    onChange: (rules: AlertRule[]) => void;
+}
+
+const RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+    pluginException: "Exception from a plugin",
+    duration: "Duration above a threshold",
+    text: "Text in the trace",
+    entityMessage: "Entity and/or message",
+};
+
+export function AlertRulesEditor({ rules, onChange }: AlertRulesEditorProps) {
+    const [type, setType] = useState<AlertRuleType>("pluginException");
+    const [name, setName] = useState<string>("");
+    const [pluginName, setPluginName] = useState<string>("");
+    const [durationMs, setDurationMs] = useState<number>(2000);
+    const [text, setText] = useState<string>("");
+    const [entityName, setEntityName] = useState<string>("");
+    const [messageName, setMessageName] = useState<string>("");
+
+    const isValid =
+        type === "pluginException" ||
+        (type === "duration" && durationMs > 0) ||
+        (type === "text" && !!text.trim()) ||
+        (type === "entityMessage" && (!!entityName.trim() || !!messageName.trim()));
+
+    const handleAdd = () => {
+        const rule: AlertRule = {
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            name: "",
+            type,
+            enabled: true,
+            pluginName: (type === "pluginException" || type === "duration") && pluginName.trim() ? pluginName.trim() : undefined,
+            durationMs: type === "duration" ? durationMs : undefined,
+            text: type === "text" ? text.trim() : undefined,
+            entityName: type === "entityMessage" && entityName.trim() ? entityName.trim() : undefined,
+            messageName: type === "entityMessage" && messageName.trim() ? messageName.trim() : undefined,
+        };
+        rule.name = name.trim() || describeAlertRule(rule);
+
+        onChange([...rules, rule]);
+        setName("");
+        setPluginName("");
+        setText("");
+        setEntityName("");
+        setMessageName("");
+    };
+
+    const toggleRule = (id: string) => {
+        onChange(rules.map(rule => (rule.id === id ? { ...rule, enabled: !rule.enabled } : rule)));
+    };
+
+    const removeRule = (id: string) => {
+        onChange(rules.filter(rule => rule.id !== id));
+    };
+
+    return (
+        <div className="alert-rules">
+            {rules.length === 0 ? (
+                <small className="form-hint">No rules: every new log is reported</small>
+            ) : (
+                <div className="alert-rule-list">
+                    {rules.map(rule => (
+                        <div key={rule.id} className={`alert-rule ${rule.enabled ? "" : "disabled"}`}>
+                            <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} title="Enabled" />
+                            <div className="alert-rule-text">
+                                <span className="alert-rule-name">{rule.name}</span>
+                                <small>{describeAlertRule(rule)}</small>
+                            </div>
+                            <button className="btn btn-secondary btn-sm" onClick={() => removeRule(rule.id)} title="Remove rule">
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="alert-rule-form">
+                <select className="form-control" value={type} onChange={(e) => setType(e.target.value as AlertRuleType)}>
+                    {(Object.keys(RULE_TYPE_LABELS) as AlertRuleType[]).map(ruleType => (
+                        <option key={ruleType} value={ruleType}>{RULE_TYPE_LABELS[ruleType]}</option>
+                    ))}
+                </select>
+                {(type === "pluginException" || type === "duration") && (
+                    <input
+                        type="text"
+                        className="form-control"
+                        placeholder="Plugin type name (any plugin when empty)"
+                        value={pluginName}
+                        onChange={(e) => setPluginName(e.target.value)}
+                    />
+                )}
+                {type === "duration" && (
+                    <input
+                        type="number"
+                        className="form-control"
+                        placeholder="Threshold (ms)"
+                        title="Threshold in milliseconds"
+                        value={durationMs}
+                        min="1"
+                        onChange={(e) => setDurationMs(parseInt(e.target.value) || 0)}
+                    />
+                )}
+                {type === "text" && (
+                    <input type="text" className="form-control" placeholder="Text in the message block or exception" value={text} onChange={(e) => setText(e.target.value)} />
+                )}
+                {type === "entityMessage" && (
+                    <>
+                        <input type="text" className="form-control" placeholder="Entity logical name" value={entityName} onChange={(e) => setEntityName(e.target.value)} />
+                        <input type="text" className="form-control" placeholder="Message, e.g. Update" value={messageName} onChange={(e) => setMessageName(e.target.value)} />
+                    </>
+                )}
+                <input type="text" className="form-control" placeholder="Rule name (optional)" value={name} onChange={(e) => setName(e.target.value)} />
+                <button className="btn btn-secondary btn-sm" onClick={handleAdd} disabled={!isValid}>
+                    Add Rule
+                </button>
+            </div>
+        </div>
+    );
+}
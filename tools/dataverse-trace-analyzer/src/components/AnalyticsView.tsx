@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { PluginTraceLog } from "../models/interfaces";
+import { formatDateTime, formatDuration } from "../utils/DataParser";
+import { buildStepStatistics, buildTimeHistogram, StatisticsGrouping, StepStatistics } from "../utils/StatisticsBuilder";
+
+interface AnalyticsViewProps {
+    logs: PluginTraceLog[];
+    isPartial: boolean;
+}
+
+type SortColumn = "step" | "count" | "exceptionRate" | "minDuration" | "avgDuration" | "p95Duration" | "maxDuration";
+
+const HISTOGRAM_BUCKETS = 40;
+
+export function AnalyticsView({ logs, isPartial }: AnalyticsViewProps) {
+    const [grouping, setGrouping] = useState<StatisticsGrouping>("step");
+    const [sortColumn, setSortColumn] = useState<SortColumn>("p95Duration");
+    const [sortDescending, setSortDescending] = useState<boolean>(true);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+    const statistics = buildStepStatistics(logs, grouping).sort((a, b) => {
+        const cmp = sortColumn === "step" ? a.step.localeCompare(b.step) : a[sortColumn] - b[sortColumn];
+        return sortDescending ? -cmp : cmp;
+    });
+    const selected = statistics.find(s => s.key === selectedKey) || null;
+    const histogram = buildTimeHistogram(selected ? selected.logs : logs, HISTOGRAM_BUCKETS);
+    const maxBucketCount = Math.max(...histogram.map(b => b.count), 1);
+
+    const handleSort = (column: SortColumn) => {
+        if (column === sortColumn) {
+            setSortDescending(!sortDescending);
+        } else {
+            setSortColumn(column);
+            setSortDescending(column !== "step");
+        }
+    };
+
+    const handleGroupingChange = (value: StatisticsGrouping) => {
+        setGrouping(value);
+        setSelectedKey(null);
+    };
+
+    const renderHeader = (column: SortColumn, label: string) => (
+        <th className="sortable" onClick={() => handleSort(column)}>
+            {label} {sortColumn === column ? (sortDescending ? "↓" : "↑") : ""}
+        </th>
+    );
+
+    if (logs.length === 0) {
+        return <div className="empty-state">No trace logs to analyze</div>;
+    }
+
+    return (
+        <div className="analytics-view">
+            <div className="analytics-toolbar">
+                <label className="form-label" htmlFor="analytics-grouping">Group by:</label>
+                <select
+                    id="analytics-grouping"
+                    className="form-control analytics-grouping"
+                    value={grouping}
+                    onChange={(e) => handleGroupingChange(e.target.value as StatisticsGrouping)}
+                >
+                    <option value="step">Plugin step</option>
+                    <option value="stepMessageEntity">Plugin step, message and entity</option>
+                </select>
+                <span className="analytics-note">
+                    {logs.length} logs{isPartial ? " (partial result: load more logs for complete statistics)" : ""}
+                </span>
+            </div>
+
+            <div className="analytics-section">
+                <div className="analytics-section-title">
+                    Executions over time{selected ? `: ${selected.step}` : ""}
+                    {selected && (
+                        <button className="btn btn-secondary btn-sm" onClick={() => setSelectedKey(null)}>
+                            Show all
+                        </button>
+                    )}
+                </div>
+                <div className="histogram">
+                    {histogram.map(bucket => (
+                        <div
+                            key={bucket.start}
+                            className="histogram-bucket"
+                            title={`${formatDateTime(new Date(bucket.start).toISOString())} - ${formatDateTime(new Date(bucket.end).toISOString())}\n${bucket.count} executions, ${bucket.exceptionCount} failed\nAverage ${formatDuration(bucket.avgDuration)}`}
+                        >
+                            <div className="histogram-bar" style={{ height: `${(bucket.count / maxBucketCount) * 100}%` }}>
+                                <div className="histogram-bar-error" style={{ height: `${bucket.count > 0 ? (bucket.exceptionCount / bucket.count) * 100 : 0}%` }} />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                {histogram.length > 0 && (
+                    <div className="histogram-axis">
+                        <span>{formatDateTime(new Date(histogram[0].start).toISOString())}</span>
+                        <span>{formatDateTime(new Date(histogram[histogram.length - 1].end).toISOString())}</span>
+                    </div>
+                )}
+            </div>
+
+            <div className="analytics-section">
+                <div className="analytics-section-title">Plugin steps ({statistics.length}) - click a row to chart it</div>
+                <table className="analytics-table">
+                    <thead>
+                        <tr>
+                            {renderHeader("step", "Step")}
+                            {grouping === "stepMessageEntity" && <th>Message</th>}
+                            {grouping === "stepMessageEntity" && <th>Entity</th>}
+                            {renderHeader("count", "Calls")}
+                            {renderHeader("exceptionRate", "Exceptions")}
+                            {renderHeader("minDuration", "Min")}
+                            {renderHeader("avgDuration", "Avg")}
+                            {renderHeader("p95Duration", "P95")}
+                            {renderHeader("maxDuration", "Max")}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {statistics.map((stat: StepStatistics) => (
+                            <tr
+                                key={stat.key}
+                                className={stat.key === selectedKey ? "selected" : ""}
+                                onClick={() => setSelectedKey(stat.key === selectedKey ? null : stat.key)}
+                            >
+                                <td title={`${stat.step}\n${stat.assembly}`}>{stat.step}</td>
+                                {grouping === "stepMessageEntity" && <td>{stat.messageName}</td>}
+                                {grouping === "stepMessageEntity" && <td>{stat.primaryEntity || "-"}</td>}
+                                <td>{stat.count}</td>
+                                <td className={stat.exceptionCount > 0 ? "analytics-exceptions" : ""}>
+                                    {stat.exceptionCount} ({Math.round(stat.exceptionRate * 100)}%)
+                                </td>
+                                <td>{formatDuration(stat.minDuration)}</td>
+                                <td>{formatDuration(stat.avgDuration)}</td>
+                                <td>{formatDuration(stat.p95Duration)}</td>
+                                <td>{formatDuration(stat.maxDuration)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -1,11 +1,14 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { AlertRule } from "../models/interfaces";
+import { AlertRulesEditor } from "./AlertRulesEditor";
 
 interface AutoRefreshModalProps {
     isOpen: boolean;
     onClose: () => void;
     currentMode: 'off' | 'auto' | 'notify';
-    onSave: (mode: 'off' | 'auto' | 'notify', intervalSeconds: number) => void;
+    onSave: (mode: 'off' | 'auto' | 'notify', intervalSeconds: number, alertRules: AlertRule[]) => void;
     currentInterval: number;
+    currentAlertRules: AlertRule[];
 }
 
 export function AutoRefreshModal({ 
@@ -13,10 +16,19 @@ export function AutoRefreshModal({
     onClose, 
     currentMode, 
     onSave,
-    currentInterval 
+    currentInterval,
+    currentAlertRules
 }: AutoRefreshModalProps) {
     const [selectedMode, setSelectedMode] = useState<'off' | 'auto' | 'notify'>(currentMode);
     const [interval, setInterval] = useState<number>(currentInterval);
+    const [alertRules, setAlertRules] = useState<AlertRule[]>(currentAlertRules);
+
+    // Rules are loaded from settings after the modal is created
+    useEffect(() => {
+        if (isOpen) {
+            setAlertRules(currentAlertRules);
+        }
+    }, [isOpen]);
 
     if (!isOpen) return null;
 
@@ -25,7 +37,7 @@ export function AutoRefreshModal({
             alert('Interval must be at least 10 seconds');
             return;
         }
-        onSave(selectedMode, interval);
+        onSave(selectedMode, interval, alertRules);
         onClose();
     };
 
@@ -77,6 +89,14 @@ export function AutoRefreshModal({
                         </div>
                     </div>
 
+                    {selectedMode === 'notify' && (
+                        <div className="form-group">
+                            <label className="form-label">Alert Rules:</label>
+                            <AlertRulesEditor rules={alertRules} onChange={setAlertRules} />
+                            <small className="form-hint">Only new logs that match an enabled rule are notified; rules are saved with the saved filters</small>
+                        </div>
+                    )}
+
                     {selectedMode !== 'off' && (
                         <div className="form-group">
                             <label className="form-label" htmlFor="interval">
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { BulkDeleteJobStatus, TraceLogFilter } from "../models/interfaces";
+import { AGGREGATE_COUNT_LIMIT, DataverseClient } from "../utils/DataverseClient";
+
+interface BulkDeleteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    /** Filter of the logs to delete (the current filter of the log list) */
+    filter: TraceLogFilter;
+    activeFilterCount: number;
+    /** Called once logs were deleted so the list can be reloaded */
+    onDeleted: () => void;
+}
+
+/** Largest number of logs deleted with individual requests; larger sets are deleted by a BulkDelete job */
+const BATCH_DELETE_LIMIT = 1000;
+
+const JOB_POLL_INTERVAL = 5000;
+
+export function BulkDeleteModal({ isOpen, onClose, filter, activeFilterCount, onDeleted }: BulkDeleteModalProps) {
+    const [matchCount, setMatchCount] = useState<number | null>(null);
+    // Logs listed by the preview; "Delete now" deletes exactly these, not logs that match the filter later
+    const [previewIds, setPreviewIds] = useState<string[]>([]);
+    const [method, setMethod] = useState<'batch' | 'job'>('batch');
+    const [deleting, setDeleting] = useState<boolean>(false);
+    const [progress, setProgress] = useState<{ processed: number; total: number } | null>(null);
+    const [result, setResult] = useState<string>("");
+    const [jobId, setJobId] = useState<string>("");
+    const [jobStatus, setJobStatus] = useState<BulkDeleteJobStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Preview how many logs the filter matches each time the modal opens
+    useEffect(() => {
+        if (!isOpen) return;
+
+        setMatchCount(null);
+        setPreviewIds([]);
+        setProgress(null);
+        setResult("");
+        setJobId("");
+        setJobStatus(null);
+        setError(null);
+
+        const loadCount = async () => {
+            try {
+                const client = new DataverseClient();
+                const count = await client.countTraceLogs(filter);
+                if (count > 0 && count <= BATCH_DELETE_LIMIT) {
+                    const ids = await client.fetchTraceLogIds(filter, BATCH_DELETE_LIMIT);
+                    setPreviewIds(ids);
+                    setMatchCount(ids.length);
+                } else {
+                    setMatchCount(count);
+                }
+                setMethod(count <= BATCH_DELETE_LIMIT ? 'batch' : 'job');
+            } catch (err: any) {
+                setError(err.message);
+            }
+        };
+        loadCount();
+    }, [isOpen]);
+
+    // Track the submitted job until it completes
+    useEffect(() => {
+        if (!jobId || jobStatus?.isCompleted) return;
+
+        const timer = setInterval(async () => {
+            try {
+                const client = new DataverseClient();
+                const status = await client.getBulkDeleteJobStatus(jobId);
+                setJobStatus(status);
+                if (status.isCompleted) {
+                    onDeleted();
+                    window.toolboxAPI.utils.showNotification({
+                        title: status.isSucceeded ? "Bulk Delete Completed" : "Bulk Delete Ended",
+                        body: `${status.deletedCount} trace log(s) deleted${status.failedCount > 0 ? `, ${status.failedCount} failed` : ""}`,
+                        type: status.isSucceeded ? "success" : "error",
+                    });
+                }
+            } catch (err: any) {
+                setError(err.message);
+            }
+        }, JOB_POLL_INTERVAL);
+
+        return () => clearInterval(timer);
+    }, [jobId, jobStatus?.isCompleted]);
+
+    if (!isOpen) return null;
+
+    const countText = matchCount === null ? "..." : `${matchCount}${matchCount >= AGGREGATE_COUNT_LIMIT ? "+" : ""}`;
+
+    const handleDelete = async () => {
+        const scope = activeFilterCount > 0 ? "matching the current filter" : "in the environment (no filter is applied)";
+        if (!confirm(`Are you sure you want to permanently delete ${countText} trace log(s) ${scope}?`)) {
+            return;
+        }
+
+        setDeleting(true);
+        setError(null);
+        try {
+            const client = new DataverseClient();
+            if (method === 'batch') {
+                const { deleted, failed } = await client.deleteTraceLogs(previewIds, (processed, total) => setProgress({ processed, total }));
+                setResult(`${deleted} trace log(s) deleted${failed > 0 ? `, ${failed} could not be deleted` : ""}`);
+                onDeleted();
+            } else {
+                const id = await client.submitBulkDeleteJob(filter, `Plugin trace log cleanup (${new Date().toLocaleString()})`);
+                setJobId(id);
+                setJobStatus({ status: "Waiting", isCompleted: false, isSucceeded: false, deletedCount: 0, failedCount: 0 });
+            }
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setDeleting(false);
+        }
+    };
+
+    const isDone = !!result || !!jobId;
+
+    return (
+        <div className="modal-overlay" onClick={deleting ? undefined : onClose}>
+            <div className="modal-content bulk-delete-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Bulk Delete Trace Logs</h2>
+                    <button className="modal-close" onClick={onClose} disabled={deleting}>&times;</button>
+                </div>
+
+                <div className="modal-body">
+                    <div className="current-status">
+                        <strong>{countText}</strong> trace log(s) match {activeFilterCount > 0 ? `the current filter (${activeFilterCount} condition(s))` : "- no filter is applied, so this deletes all trace logs"}
+                    </div>
+
+                    {!isDone && matchCount !== null && matchCount > 0 && (
+                        <div className="form-group">
+                            <label className="form-label">Method:</label>
+                            <div className="radio-group">
+                                <label className="radio-option">
+                                    <input
+                                        type="radio"
+                                        name="bulkDeleteMethod"
+                                        value="batch"
+                                        checked={method === 'batch'}
+                                        onChange={() => setMethod('batch')}
+                                        disabled={deleting || previewIds.length === 0}
+                                    />
+                                    <span>Delete now</span>
+                                    <small>Deletes the {BATCH_DELETE_LIMIT} or fewer logs counted above one by one; logs written after this preview are kept</small>
+                                </label>
+                                <label className="radio-option">
+                                    <input
+                                        type="radio"
+                                        name="bulkDeleteMethod"
+                                        value="job"
+                                        checked={method === 'job'}
+                                        onChange={() => setMethod('job')}
+                                        disabled={deleting}
+                                    />
+                                    <span>BulkDelete job</span>
+                                    <small>Dataverse deletes the logs in the background; suited for large sets</small>
+                                </label>
+                            </div>
+                        </div>
+                    )}
+
+                    {progress && (
+                        <div className="bulk-delete-progress">
+                            <div className="progress-bar">
+                                <div className="progress-fill" style={{ width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 100}%` }} />
+                            </div>
+                            <small className="form-hint">{progress.processed} of {progress.total} processed</small>
+                        </div>
+                    )}
+
+                    {result && <div className="bulk-delete-result">{result}</div>}
+
+                    {jobStatus && (
+                        <div className="bulk-delete-result">
+                            <div>
+                                Job status: <strong>{jobStatus.status}</strong> | {jobStatus.deletedCount} deleted
+                                {jobStatus.failedCount > 0 && `, ${jobStatus.failedCount} failed`}
+                            </div>
+                            {jobStatus.message && <small className="form-hint">{jobStatus.message}</small>}
+                            {!jobStatus.isCompleted && (
+                                <small className="form-hint">
+                                    The job keeps running when this dialog is closed; it is listed under Bulk Record Deletion in the environment settings
+                                </small>
+                            )}
+                        </div>
+                    )}
+
+                    {error && <div className="error-message">{error}</div>}
+                </div>
+
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={onClose} disabled={deleting}>
+                        {isDone ? "Close" : "Cancel"}
+                    </button>
+                    {!isDone && (
+                        <button className="btn btn-danger" onClick={handleDelete} disabled={deleting || !matchCount}>
+                            {deleting ? "Deleting..." : `Delete ${countText} Logs`}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,3 +1,9 @@
+/** Choices for the number of logs loaded at a time (0 = all matching logs) */
+const MAX_LOGS_OPTIONS = [100, 250, 500, 1000, 5000, 0];
+
+/** Dataverse stops counting at 5000 matching records */
+const COUNT_LIMIT = 5000;
+
 interface CommandBarProps {
     onRetrieve: () => void;
     onOpenFilters: () => void;
@@ -5,8 +11,19 @@ interface CommandBarProps {
     onLoadFilter: () => void;
     onOpenAutoRefresh: () => void;
     onOpenTracingControl: () => void;
+    onImport: () => void;
+    onExport: () => void;
+    onBulkDelete: () => void;
+    /** Showing an imported log set rather than the logs of the connection */
+    isOffline: boolean;
     isLoading: boolean;
     logCount: number;
+    totalLogCount?: number;
+    hasMoreLogs: boolean;
+    maxLogs: number;
+    onMaxLogsChange: (maxLogs: number) => void;
+    viewMode: 'logs' | 'analytics';
+    onViewModeChange: (viewMode: 'logs' | 'analytics') => void;
     activeFilterCount: number;
     hasFiltersToSave: boolean;
     autoRefreshMode: 'off' | 'auto' | 'notify';
@@ -20,8 +37,18 @@ export function CommandBar({
     onLoadFilter, 
     onOpenAutoRefresh,
     onOpenTracingControl,
+    onImport,
+    onExport,
+    onBulkDelete,
+    isOffline,
     isLoading, 
     logCount, 
+    totalLogCount,
+    hasMoreLogs,
+    maxLogs,
+    onMaxLogsChange,
+    viewMode,
+    onViewModeChange,
     activeFilterCount,
     hasFiltersToSave,
     autoRefreshMode,
@@ -33,6 +60,12 @@ export function CommandBar({
         return '🔄 Notify: On';
     };
 
+    const getLogCountText = () => {
+        if (!hasMoreLogs) return `${logCount} logs`;
+        if (totalLogCount === undefined) return `${logCount}+ logs (partial)`;
+        return `${logCount} of ${totalLogCount}${totalLogCount >= COUNT_LIMIT ? '+' : ''} logs (partial)`;
+    };
+
     return (
         <div className="command-bar">
             <button className="btn btn-primary" onClick={onRetrieve} disabled={isLoading}>
@@ -55,7 +88,8 @@ export function CommandBar({
             <button 
                 className={`btn ${autoRefreshMode !== 'off' ? 'btn-success' : 'btn-secondary'}`}
                 onClick={onOpenAutoRefresh}
-                title="Configure auto-refresh settings"
+                disabled={isOffline}
+                title={isOffline ? "Auto-refresh is paused while analyzing imported logs" : "Configure auto-refresh settings"}
             >
                 {getAutoRefreshButtonText()}
             </button>
@@ -66,11 +100,53 @@ export function CommandBar({
             >
                 ⚙️ Tracing
             </button>
+            <button className="btn btn-secondary" onClick={onImport} title="Analyze trace logs from an exported JSON or CSV file">
+                📁 Import
+            </button>
+            <button className="btn btn-secondary" onClick={onExport} disabled={logCount === 0} title="Export the loaded trace logs to JSON or CSV">
+                📤 Export
+            </button>
+            <button
+                className="btn btn-secondary"
+                onClick={onBulkDelete}
+                disabled={isOffline}
+                title={isOffline ? "Not available for imported logs" : "Delete all trace logs matching the current filter"}
+            >
+                🗑️ Bulk Delete
+            </button>
+            <div className="view-switch">
+                <button className={`btn btn-sm ${viewMode === 'logs' ? 'btn-primary' : 'btn-secondary'}`} onClick={() => onViewModeChange('logs')}>
+                    📋 Logs
+                </button>
+                <button
+                    className={`btn btn-sm ${viewMode === 'analytics' ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => onViewModeChange('analytics')}
+                    title="Statistics per plugin step over the loaded logs"
+                >
+                    📊 Analytics
+                </button>
+            </div>
             <div className="command-spacer"></div>
             {newLogsCount !== undefined && newLogsCount > 0 && (
                 <span className="new-logs-badge">+{newLogsCount} new</span>
             )}
-            <span className="log-count">{logCount} logs</span>
+            {!isOffline && (
+                <select
+                    className="form-control max-logs-select"
+                    value={maxLogs}
+                    onChange={(e) => onMaxLogsChange(parseInt(e.target.value))}
+                    title="Maximum number of logs loaded at a time; scroll to the end of the list to load more"
+                >
+                    {MAX_LOGS_OPTIONS.map(option => (
+                        <option key={option} value={option}>
+                            {option === 0 ? 'Load all' : `Load ${option}`}
+                        </option>
+                    ))}
+                </select>
+            )}
+            <span className="log-count" title={hasMoreLogs ? 'More logs match the filter than are loaded' : undefined}>
+                {getLogCountText()}
+            </span>
         </div>
     );
 }
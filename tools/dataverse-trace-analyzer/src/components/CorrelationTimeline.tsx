@@ -0,0 +1,70 @@
+import { PluginTraceLog } from "../models/interfaces";
+import { formatDuration } from "../utils/DataParser";
+import { parsePluginTypeName } from "../utils/PluginParser";
+import { buildCorrelationTimeline } from "../utils/TimelineBuilder";
+
+interface CorrelationTimelineProps {
+    correlationId: string;
+    logs: PluginTraceLog[];
+    selectedLogId: string | null;
+    onSelectLog: (log: PluginTraceLog) => void;
+    isLoading: boolean;
+}
+
+/** Minimum bar width (percent of the axis) so instant executions stay visible */
+const MIN_BAR_WIDTH = 0.5;
+
+export function CorrelationTimeline({ correlationId, logs, selectedLogId, onSelectLog, isLoading }: CorrelationTimelineProps) {
+    const timeline = buildCorrelationTimeline(logs);
+    const axis = Math.max(timeline.totalDuration, 1);
+
+    return (
+        <>
+            <div className="detail-header">
+                <h3>Correlation Timeline</h3>
+                <span className="timeline-summary">
+                    {timeline.entries.length} executions | {formatDuration(timeline.totalDuration)}
+                    {timeline.exceptionCount > 0 && ` | ${timeline.exceptionCount} failed`}
+                </span>
+            </div>
+            <div className="detail-content">
+                <div className="timeline-correlation correlation-id">{correlationId}</div>
+                {isLoading && timeline.entries.length === 0 && <div className="loading">Loading correlated logs...</div>}
+                {!isLoading && timeline.entries.length === 0 && <div className="empty-state">No logs share this correlation ID</div>}
+                <div className="timeline">
+                    {timeline.entries.map(entry => {
+                        const pluginInfo = parsePluginTypeName(entry.log.typename);
+                        const left = (entry.startOffset / axis) * 100;
+                        const width = Math.max((entry.duration / axis) * 100, MIN_BAR_WIDTH);
+
+                        return (
+                            <div
+                                key={entry.log.plugintracelogid}
+                                className={`timeline-row ${selectedLogId === entry.log.plugintracelogid ? "selected" : ""}`}
+                                onClick={() => onSelectLog(entry.log)}
+                                title={`${pluginInfo.step}\n${entry.log.messagename} ${entry.log.primaryentity || ""}\nDepth ${entry.log.depth} | starts at +${formatDuration(entry.startOffset)} | ${formatDuration(entry.duration)}`}
+                            >
+                                <div className="timeline-label" style={{ paddingLeft: `${entry.level * 12}px` }}>
+                                    <span className="timeline-step">{pluginInfo.step}</span>
+                                    <span className="timeline-meta">
+                                        {entry.log.messagename} | {entry.log.primaryentity || "-"} | depth {entry.log.depth}
+                                    </span>
+                                </div>
+                                <div className="timeline-track">
+                                    <div
+                                        className={`timeline-bar ${entry.log.exceptiondetails ? "error" : ""} ${entry.isSlowest ? "slowest" : ""}`}
+                                        style={{ left: `${Math.min(left, 100 - width)}%`, width: `${width}%` }}
+                                    />
+                                </div>
+                                <span className="timeline-duration">
+                                    {formatDuration(entry.duration)}
+                                    {entry.log.exceptiondetails && <span className="error-badge">ERROR</span>}
+                                </span>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </>
+    );
+}
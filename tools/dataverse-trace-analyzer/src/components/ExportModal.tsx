@@ -0,0 +1,70 @@
+import { useState } from "react";
+
+interface ExportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onExport: (format: 'json' | 'csv') => void;
+    logCount: number;
+    isPartial: boolean;
+}
+
+export function ExportModal({ isOpen, onClose, onExport, logCount, isPartial }: ExportModalProps) {
+    const [format, setFormat] = useState<'json' | 'csv'>('json');
+
+    if (!isOpen) return null;
+
+    const handleExport = () => {
+        onExport(format);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content export-modal" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h2>Export Trace Logs</h2>
+                    <button className="modal-close" onClick={onClose}>&times;</button>
+                </div>
+
+                <div className="modal-body">
+                    <div className="form-group">
+                        <label className="form-label">Format:</label>
+                        <div className="radio-group">
+                            <label className="radio-option">
+                                <input
+                                    type="radio"
+                                    name="exportFormat"
+                                    value="json"
+                                    checked={format === 'json'}
+                                    onChange={() => setFormat('json')}
+                                />
+                                <span>JSON</span>
+                                <small>Complete logs with the source environment, for importing later</small>
+                            </label>
+                            <label className="radio-option">
+                                <input
+                                    type="radio"
+                                    name="exportFormat"
+                                    value="csv"
+                                    checked={format === 'csv'}
+                                    onChange={() => setFormat('csv')}
+                                />
+                                <span>CSV</span>
+                                <small>One row per log, for Excel; can be imported again as well</small>
+                            </label>
+                        </div>
+                    </div>
+                    <small className="form-hint">
+                        {logCount} loaded log(s) will be exported
+                        {isPartial && ". More logs match the filter: load them first to export them too"}
+                    </small>
+                </div>
+
+                <div className="modal-footer">
+                    <button className="btn btn-secondary" onClick={onClose}>Cancel</button>
+                    <button className="btn btn-primary" onClick={handleExport} disabled={logCount === 0}>Export</button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -16,6 +16,7 @@ interface FilterModalProps {
     selectedModes: number[];
     correlationFilter: string;
     exceptionOnly: boolean;
+    searchText: string;
     
     // Filter change handlers
     onDateFromChange: (value: string) => void;
@@ -26,6 +27,7 @@ interface FilterModalProps {
     onToggleMode: (mode: number) => void;
     onCorrelationChange: (value: string) => void;
     onExceptionOnlyChange: (checked: boolean) => void;
+    onSearchTextChange: (value: string) => void;
     
     // Filter options
     pluginOptions: FilterOption[];
@@ -46,6 +48,7 @@ export function FilterModal({
     selectedModes,
     correlationFilter,
     exceptionOnly,
+    searchText,
     onDateFromChange,
     onDateToChange,
     onTogglePlugin,
@@ -54,6 +57,7 @@ export function FilterModal({
     onToggleMode,
     onCorrelationChange,
     onExceptionOnlyChange,
+    onSearchTextChange,
     pluginOptions,
     messageOptions,
     entityOptions,
@@ -211,6 +215,18 @@ export function FilterModal({
                         />
                     </div>
 
+                    {/* Trace Text */}
+                    <div className="filter-section">
+                        <label>Text in Trace or Exception</label>
+                        <input
+                            type="text"
+                            placeholder="Text the plugin traced or threw..."
+                            value={searchText}
+                            onChange={(e) => onSearchTextChange(e.target.value)}
+                            className="filter-input"
+                        />
+                    </div>
+
                     {/* Exception Only */}
                     <div className="filter-section">
                         <label className="checkbox-label">
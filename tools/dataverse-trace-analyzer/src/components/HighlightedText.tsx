@@ -0,0 +1,33 @@
+interface HighlightedTextProps {
+    text: string;
+    search: string;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Counts case-insensitive occurrences of search in text
+ */
+export function countMatches(text: string | undefined, search: string): number {
+    if (!text || !search) return 0;
+    return text.match(new RegExp(escapeRegExp(search), "gi"))?.length || 0;
+}
+
+export function HighlightedText({ text, search }: HighlightedTextProps) {
+    if (!search) {
+        return <>{text}</>;
+    }
+
+    // Splitting on a capturing group keeps the matches at the odd indexes
+    const parts = text.split(new RegExp(`(${escapeRegExp(search)})`, "gi"));
+
+    return (
+        <>
+            {parts.map((part, index) =>
+                index % 2 === 1 ? <mark key={index} className="trace-highlight">{part}</mark> : part
+            )}
+        </>
+    );
+}
@@ -56,6 +56,7 @@ export function LoadFilterModal({ isOpen, onClose, onLoad, onDelete, savedFilter
             parts.push("Mode");
         if (filter.filter.correlationId) parts.push("Correlation ID");
         if (filter.filter.hasException) parts.push("Exceptions Only");
+        if (filter.filter.searchText) parts.push(`Text "${filter.filter.searchText}"`);
         
         return parts.length > 0 ? parts.join(", ") : "No filters";
     };
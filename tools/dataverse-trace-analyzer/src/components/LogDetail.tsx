@@ -1,14 +1,63 @@
+import { useEffect, useState } from "react";
 import { PluginTraceLog } from "../models/interfaces";
 import { formatDateTime, formatDuration, getModeLabel, getOperationTypeLabel } from "../utils/DataParser";
 import { parsePluginTypeName } from "../utils/PluginParser";
+import { parseExceptionDetails, parseMessageBlock, StackFrame } from "../utils/TraceParser";
+import { countMatches, HighlightedText } from "./HighlightedText";
+import { StepRegistrationSection } from "./StepRegistrationSection";
 
 interface LogDetailProps {
     log: PluginTraceLog;
     onDelete: (logId: string) => void;
+    /** Text of the active text filter, highlighted until another search is typed */
+    highlightText?: string;
+    /** Whether the step registration can be looked up (imported logs may come from another environment) */
+    canResolveStep?: boolean;
 }
 
-export function LogDetail({ log, onDelete }: LogDetailProps) {
+export function LogDetail({ log, onDelete, highlightText, canResolveStep }: LogDetailProps) {
+    const [search, setSearch] = useState<string>(highlightText || "");
+    const [showRaw, setShowRaw] = useState<boolean>(false);
+    const [showFrameworkFrames, setShowFrameworkFrames] = useState<boolean>(false);
+
+    useEffect(() => {
+        setSearch(highlightText || "");
+    }, [highlightText]);
+
     const pluginInfo = parsePluginTypeName(log.typename);
+    const traceLines = parseMessageBlock(log.messageblock);
+    const exception = parseExceptionDetails(log.exceptiondetails);
+    const matchCount = countMatches(log.messageblock, search) + countMatches(log.exceptiondetails, search);
+
+    const renderFrames = (frames: StackFrame[]) => {
+        const rows: JSX.Element[] = [];
+        let hidden = 0;
+
+        // Consecutive framework frames collapse into one row unless expanded or matching the search
+        frames.forEach((frame, index) => {
+            const visible = !frame.isFramework || showFrameworkFrames || countMatches(frame.text, search) > 0;
+            if (!visible) {
+                hidden++;
+            }
+            if (hidden > 0 && (visible || index === frames.length - 1)) {
+                rows.push(
+                    <div key={`collapsed-${index}`} className="stack-frame collapsed" onClick={() => setShowFrameworkFrames(true)}>
+                        ... {hidden} framework frame{hidden === 1 ? "" : "s"}
+                    </div>
+                );
+                hidden = 0;
+            }
+            if (visible) {
+                rows.push(
+                    <div key={index} className={`stack-frame ${frame.isFramework ? "framework" : ""}`}>
+                        <HighlightedText text={frame.text} search={search} />
+                    </div>
+                );
+            }
+        });
+
+        return rows;
+    };
 
     return (
         <>
@@ -66,17 +115,80 @@ export function LogDetail({ log, onDelete }: LogDetailProps) {
                     </div>
                 </div>
 
+                {canResolveStep && <StepRegistrationSection log={log} />}
+
+                {(log.messageblock || log.exceptiondetails) && (
+                    <div className="trace-search">
+                        <input
+                            type="text"
+                            className="form-control"
+                            placeholder="Search in trace..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                        />
+                        {search && <span className="trace-search-count">{matchCount} match{matchCount === 1 ? "" : "es"}</span>}
+                        <button className="btn btn-secondary btn-sm" onClick={() => setShowRaw(!showRaw)}>
+                            {showRaw ? "Structured" : "Raw"}
+                        </button>
+                    </div>
+                )}
+
                 {log.messageblock && (
                     <div className="detail-section">
                         <label className="section-label">Message Block:</label>
-                        <pre className="code-block">{log.messageblock}</pre>
+                        {showRaw ? (
+                            <pre className="code-block"><HighlightedText text={log.messageblock} search={search} /></pre>
+                        ) : (
+                            <div className="code-block trace-lines">
+                                {traceLines.map((line, index) => (
+                                    <div key={index} className="trace-line">
+                                        {line.timestamp && <span className="trace-timestamp">{line.timestamp}</span>}
+                                        {line.segments.map((segment, segmentIndex) =>
+                                            segment.key ? (
+                                                <span key={segmentIndex} className="trace-kv" title={`${segment.key} = ${segment.value}`}>
+                                                    <span className="trace-kv-key"><HighlightedText text={segment.key} search={search} /></span>
+                                                    =
+                                                    <span className="trace-kv-value"><HighlightedText text={segment.value || ""} search={search} /></span>
+                                                </span>
+                                            ) : (
+                                                <HighlightedText key={segmentIndex} text={segment.text} search={search} />
+                                            )
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
 
                 {log.exceptiondetails && (
                     <div className="detail-section error-section">
                         <label className="section-label">Exception Details:</label>
-                        <pre className="code-block error-block">{log.exceptiondetails}</pre>
+                        {exception.fault?.errorCode && (
+                            <div className="fault-code">
+                                OrganizationServiceFault error code: <strong>{exception.fault.errorCodeHex}</strong> ({exception.fault.errorCode})
+                                {exception.fault.message && <div className="fault-message">{exception.fault.message}</div>}
+                            </div>
+                        )}
+                        {showRaw || exception.exceptions.length === 0 ? (
+                            <pre className="code-block error-block"><HighlightedText text={log.exceptiondetails} search={search} /></pre>
+                        ) : (
+                            <>
+                                {exception.exceptions.map((item, index) => (
+                                    <div key={index} className="code-block error-block exception-entry">
+                                        {index > 0 && <div className="exception-inner-label">Inner exception</div>}
+                                        <div className="exception-type"><HighlightedText text={item.type || "Exception"} search={search} /></div>
+                                        {item.message && <div className="exception-message"><HighlightedText text={item.message} search={search} /></div>}
+                                        {item.frames.length > 0 && <div className="stack-frames">{renderFrames(item.frames)}</div>}
+                                    </div>
+                                ))}
+                                {showFrameworkFrames && (
+                                    <button className="btn btn-secondary btn-sm" onClick={() => setShowFrameworkFrames(false)}>
+                                        Collapse framework frames
+                                    </button>
+                                )}
+                            </>
+                        )}
                     </div>
                 )}
 
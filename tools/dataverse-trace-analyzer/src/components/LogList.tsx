@@ -1,30 +1,119 @@
+import { useState } from "react";
 import { PluginTraceLog } from "../models/interfaces";
+import { formatDateTime } from "../utils/DataParser";
+import { groupExceptions } from "../utils/ExceptionGrouper";
 import { LogItem } from "./LogItem";
 
+/** Distance from the end of the list (in pixels) at which the next logs are loaded */
+const LOAD_MORE_THRESHOLD = 200;
+
 interface LogListProps {
     logs: PluginTraceLog[];
     selectedLogId: string | null;
     highlightedLogIds: Set<string>;
     onSelectLog: (log: PluginTraceLog) => void;
     isLoading: boolean;
+    hasMore: boolean;
+    isLoadingMore: boolean;
+    onLoadMore: () => void;
+    /** Show each distinct exception once instead of every log */
+    isGrouped: boolean;
+    onGroupedChange: (isGrouped: boolean) => void;
 }
 
-export function LogList({ logs, selectedLogId, highlightedLogIds, onSelectLog, isLoading }: LogListProps) {
+export function LogList({ logs, selectedLogId, highlightedLogIds, onSelectLog, isLoading, hasMore, isLoadingMore, onLoadMore, isGrouped, onGroupedChange }: LogListProps) {
+    const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+
+    const groups = isGrouped ? groupExceptions(logs) : [];
+    const failedCount = groups.reduce((sum, group) => sum + group.count, 0);
+
+    const toggleGroup = (key: string) => {
+        setExpandedGroups(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const renderLogItem = (log: PluginTraceLog) => (
+        <LogItem
+            key={log.plugintracelogid}
+            log={log}
+            isSelected={selectedLogId === log.plugintracelogid}
+            isHighlighted={highlightedLogIds.has(log.plugintracelogid)}
+            onSelect={onSelectLog}
+        />
+    );
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const list = e.currentTarget;
+        if (hasMore && !isLoadingMore && list.scrollHeight - list.scrollTop - list.clientHeight < LOAD_MORE_THRESHOLD) {
+            onLoadMore();
+        }
+    };
+
     return (
         <>
-            <div className="logs-list">
+            <div className="logs-toolbar">
+                <label className="logs-group-toggle" title="Show each distinct exception once, with the logs that threw it">
+                    <input type="checkbox" checked={isGrouped} onChange={(e) => onGroupedChange(e.target.checked)} />
+                    Group exceptions
+                </label>
+                {isGrouped && (
+                    <span className="logs-toolbar-note">
+                        {groups.length} distinct | {failedCount} of {logs.length} logs failed
+                    </span>
+                )}
+            </div>
+            <div className="logs-list" onScroll={handleScroll}>
                 {logs.length === 0 && !isLoading && (
                     <div className="empty-state">No trace logs found</div>
                 )}
-                {logs.map((log) => (
-                    <LogItem
-                        key={log.plugintracelogid}
-                        log={log}
-                        isSelected={selectedLogId === log.plugintracelogid}
-                        isHighlighted={highlightedLogIds.has(log.plugintracelogid)}
-                        onSelect={onSelectLog}
-                    />
-                ))}
+                {isGrouped && logs.length > 0 && groups.length === 0 && (
+                    <div className="empty-state">No exceptions in the loaded logs</div>
+                )}
+                {isGrouped
+                    ? groups.map(group => (
+                        <div key={group.key} className="exception-group">
+                            <div className="exception-group-header" onClick={() => toggleGroup(group.key)}>
+                                <div className="log-header">
+                                    <span className="exception-group-type" title={group.type}>
+                                        {expandedGroups.has(group.key) ? "▾" : "▸"} {group.type}
+                                    </span>
+                                    <span className="exception-group-count">{group.count}×</span>
+                                </div>
+                                <div className="exception-group-message" title={[group.message, ...group.frames].join("\n")}>
+                                    {group.message}
+                                </div>
+                                <div className="log-info">
+                                    <span title={group.pluginTypes.join("\n")}>Plugins: {group.pluginTypes.join(", ")}</span>
+                                </div>
+                                <div className="log-info">
+                                    <span title={group.entities.join("\n")}>Entities: {group.entities.join(", ")}</span>
+                                </div>
+                                <div className="log-meta">
+                                    <span>First {formatDateTime(group.firstSeen)} | Last {formatDateTime(group.lastSeen)}</span>
+                                </div>
+                            </div>
+                            {expandedGroups.has(group.key) && (
+                                <div className="exception-group-logs">
+                                    {group.logs.map(renderLogItem)}
+                                </div>
+                            )}
+                        </div>
+                    ))
+                    : logs.map(renderLogItem)}
+                {hasMore && logs.length > 0 && (
+                    <div className="load-more">
+                        <button className="btn btn-secondary btn-sm" onClick={onLoadMore} disabled={isLoadingMore}>
+                            {isLoadingMore ? "Loading..." : "Load more"}
+                        </button>
+                    </div>
+                )}
             </div>
         </>
     );
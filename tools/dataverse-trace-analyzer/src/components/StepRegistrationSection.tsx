@@ -0,0 +1,171 @@
+import { useEffect, useState } from "react";
+import { PluginTraceLog, PluginTypeRegistration, StepRegistration } from "../models/interfaces";
+import { getModeLabel } from "../utils/DataParser";
+import { DataverseClient } from "../utils/DataverseClient";
+
+interface StepRegistrationSectionProps {
+    log: PluginTraceLog;
+}
+
+const PLUGIN_REGISTRATION_TOOL_ID = "@power-maverick/tool-plugin-registration";
+
+const STAGE_LABELS: Record<number, string> = {
+    10: "PreValidation",
+    20: "PreOperation",
+    30: "MainOperation",
+    40: "PostOperation",
+};
+
+const IMAGE_TYPE_LABELS: Record<number, string> = {
+    0: "PreImage",
+    1: "PostImage",
+    2: "Both",
+};
+
+export function StepRegistrationSection({ log }: StepRegistrationSectionProps) {
+    const [registration, setRegistration] = useState<PluginTypeRegistration | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [updatingStepId, setUpdatingStepId] = useState<string>("");
+    const [error, setError] = useState<string | null>(null);
+
+    // Logs of the same plugin type, message, entity and mode resolve to the same steps
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadRegistration = async () => {
+            setLoading(true);
+            setError(null);
+            setRegistration(null);
+            try {
+                const client = new DataverseClient();
+                const result = await client.resolveStepRegistration(log);
+                if (!cancelled) setRegistration(result);
+            } catch (err: any) {
+                if (!cancelled) setError(err.message);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+        loadRegistration();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [log.typename, log.messagename, log.primaryentity, log.mode]);
+
+    const handleToggleStep = async (step: StepRegistration) => {
+        const enable = !step.isEnabled;
+        if (!enable && !confirm(`Are you sure you want to disable the step "${step.name}"? The plugin stops running for ${step.messageName} until the step is enabled again.`)) {
+            return;
+        }
+
+        setUpdatingStepId(step.stepId);
+        setError(null);
+        try {
+            const client = new DataverseClient();
+            await client.setStepEnabled(step.stepId, enable);
+            setRegistration(current =>
+                current && {
+                    ...current,
+                    matchingSteps: current.matchingSteps.map(item => (item.stepId === step.stepId ? { ...item, isEnabled: enable } : item)),
+                }
+            );
+            window.toolboxAPI.utils.showNotification({
+                title: enable ? "Step Enabled" : "Step Disabled",
+                body: step.name,
+                type: "success",
+            });
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setUpdatingStepId("");
+        }
+    };
+
+    const handleOpenInPluginRegistration = async (step: StepRegistration) => {
+        if (!registration) return;
+
+        try {
+            await window.toolboxAPI.invocation.launchTool(
+                PLUGIN_REGISTRATION_TOOL_ID,
+                {
+                    pluginTypeId: registration.pluginTypeId,
+                    pluginTypeName: registration.typeName,
+                    stepId: step.stepId,
+                    stepName: step.name,
+                },
+                { noReturn: true }
+            );
+        } catch (err: any) {
+            window.toolboxAPI.utils.showNotification({
+                title: "Plugin Registration Not Opened",
+                body: err.message,
+                type: "error",
+            });
+        }
+    };
+
+    return (
+        <div className="detail-section step-registration">
+            <label className="section-label">Step Registration:</label>
+            {loading && <div className="step-registration-hint">Resolving registration...</div>}
+            {error && <div className="error-message">{error}</div>}
+            {!loading && !error && !registration && (
+                <div className="step-registration-hint">The plugin type is not registered in this environment</div>
+            )}
+            {registration && registration.matchingSteps.length === 0 && (
+                <div className="step-registration-hint">
+                    None of the {registration.totalStepCount} step(s) of {registration.typeName} runs for {log.messagename} on {log.primaryentity || "none"} ({getModeLabel(log.mode)})
+                </div>
+            )}
+            {registration?.matchingSteps.map(step => (
+                <div key={step.stepId} className={`step-card ${step.isEnabled ? "" : "disabled"}`}>
+                    <div className="step-card-header">
+                        <span className="step-card-name">{step.name}</span>
+                        <span className={`step-state ${step.isEnabled ? "enabled" : "disabled"}`}>{step.isEnabled ? "Enabled" : "Disabled"}</span>
+                    </div>
+                    <div className="detail-row">
+                        <label>Stage:</label>
+                        <span>{STAGE_LABELS[step.stage] || step.stage}</span>
+                    </div>
+                    <div className="detail-row">
+                        <label>Rank:</label>
+                        <span>{step.rank}</span>
+                    </div>
+                    <div className="detail-row">
+                        <label>Mode:</label>
+                        <span>{getModeLabel(step.mode)}</span>
+                    </div>
+                    <div className="detail-row">
+                        <label>Filtering Attributes:</label>
+                        <span>{step.filteringAttributes || "All attributes"}</span>
+                    </div>
+                    <div className="detail-row">
+                        <label>Images:</label>
+                        <span>
+                            {step.images.length === 0
+                                ? "None"
+                                : step.images.map((image, index) => (
+                                      <div key={index} className="step-image">
+                                          {image.name || image.entityAlias} ({IMAGE_TYPE_LABELS[image.imageType] || image.imageType}): {image.attributes || "All attributes"}
+                                      </div>
+                                  ))}
+                        </span>
+                    </div>
+                    <div className="step-card-actions">
+                        <button
+                            className={`btn btn-sm ${step.isEnabled ? "btn-danger" : "btn-secondary"}`}
+                            onClick={() => handleToggleStep(step)}
+                            disabled={updatingStepId === step.stepId}
+                        >
+                            {updatingStepId === step.stepId ? "Updating..." : step.isEnabled ? "Disable Step" : "Enable Step"}
+                        </button>
+                        <button className="btn btn-secondary btn-sm" onClick={() => handleOpenInPluginRegistration(step)}>
+                            Open in Plugin Registration
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
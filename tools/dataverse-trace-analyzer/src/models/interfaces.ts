@@ -24,6 +24,86 @@ export interface TraceLogFilter {
     correlationId?: string;
     hasException?: boolean;
     modes?: number[]; // Multi-select for modes (0=Sync, 1=Async)
+    searchText?: string; // Text in the message block or exception details
+}
+
+/**
+ * Where a paged trace log retrieval continues
+ */
+export interface TraceLogContinuation {
+    /** Filter of the retrieval being continued */
+    filter?: TraceLogFilter;
+    /** Number of logs per FetchXML page; kept for every page of the retrieval */
+    pageSize: number;
+    /** Number of the next FetchXML page */
+    page: number;
+    /** Paging cookie returned with the previous page, if any */
+    pagingCookie?: string;
+}
+
+/**
+ * Result of one trace log retrieval
+ */
+export interface TraceLogPage {
+    logs: PluginTraceLog[];
+    /** Number of logs matching the filter as reported by Dataverse (the FetchXML total record count, which stops at 5000) */
+    totalCount?: number;
+    /** Set when more logs match than were loaded */
+    continuation?: TraceLogContinuation;
+}
+
+/**
+ * Progress of a Dataverse BulkDelete job (system job)
+ */
+export interface BulkDeleteJobStatus {
+    /** Status reason of the system job, e.g. "Waiting" or "In Progress" */
+    status: string;
+    isCompleted: boolean;
+    isSucceeded: boolean;
+    deletedCount: number;
+    failedCount: number;
+    message?: string;
+}
+
+/**
+ * Image registered on a processing step
+ */
+export interface StepImageRegistration {
+    name: string;
+    entityAlias: string;
+    /** 0 = PreImage, 1 = PostImage, 2 = Both */
+    imageType: number;
+    /** Comma-separated attributes (empty = all) */
+    attributes: string;
+}
+
+/**
+ * Processing step (sdkmessageprocessingstep) registered for a plugin type
+ */
+export interface StepRegistration {
+    stepId: string;
+    name: string;
+    messageName: string;
+    primaryEntity: string;
+    /** 10 = PreValidation, 20 = PreOperation, 30 = MainOperation, 40 = PostOperation */
+    stage: number;
+    rank: number;
+    mode: number;
+    filteringAttributes: string;
+    isEnabled: boolean;
+    images: StepImageRegistration[];
+}
+
+/**
+ * Registration of the plugin type that wrote a trace log, with the steps that match the log
+ */
+export interface PluginTypeRegistration {
+    pluginTypeId: string;
+    typeName: string;
+    assemblyName: string;
+    /** Steps with the message, entity and mode of the log */
+    matchingSteps: StepRegistration[];
+    totalStepCount: number;
 }
 
 export interface FilterOption {
@@ -38,6 +118,37 @@ export interface SavedFilter {
     createdAt: string;
 }
 
+export type AlertRuleType = "pluginException" | "duration" | "text" | "entityMessage";
+
+/**
+ * Condition evaluated on the new logs of each auto-refresh in notify mode
+ */
+export interface AlertRule {
+    id: string;
+    name: string;
+    type: AlertRuleType;
+    enabled: boolean;
+    /** Part of the plugin type name (pluginException, optionally duration) */
+    pluginName?: string;
+    /** Duration threshold in milliseconds (duration) */
+    durationMs?: number;
+    /** Text in the message block or exception details (text) */
+    text?: string;
+    /** Entity and/or message (entityMessage) */
+    entityName?: string;
+    messageName?: string;
+}
+
+/**
+ * A new log that matched an alert rule
+ */
+export interface TriggeredAlert {
+    rule: AlertRule;
+    log: PluginTraceLog;
+    triggeredAt: string;
+}
+
 export interface SavedFiltersCollection {
     filters: SavedFilter[];
+    alertRules?: AlertRule[];
 }
@@ -0,0 +1,69 @@
+import { AlertRule, PluginTraceLog, TriggeredAlert } from "../models/interfaces";
+import { formatDuration } from "./DataParser";
+
+function containsIgnoreCase(value: string | undefined, search: string): boolean {
+    return (value || "").toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Whether a log meets the condition of an alert rule (empty optional fields match any log)
+ */
+export function matchesAlertRule(log: PluginTraceLog, rule: AlertRule): boolean {
+    const pluginMatches = !rule.pluginName || containsIgnoreCase(log.typename, rule.pluginName);
+
+    switch (rule.type) {
+        case "pluginException":
+            return !!log.exceptiondetails && pluginMatches;
+        case "duration":
+            return rule.durationMs !== undefined && log.performanceexecutionduration > rule.durationMs && pluginMatches;
+        case "text":
+            return !!rule.text && (containsIgnoreCase(log.messageblock, rule.text) || containsIgnoreCase(log.exceptiondetails, rule.text));
+        case "entityMessage":
+            return (
+                (!!rule.entityName || !!rule.messageName) &&
+                (!rule.entityName || (log.primaryentity || "").toLowerCase() === rule.entityName.toLowerCase()) &&
+                (!rule.messageName || log.messagename.toLowerCase() === rule.messageName.toLowerCase())
+            );
+        default:
+            return false;
+    }
+}
+
+/**
+ * Evaluates the enabled rules on new logs; every matching log/rule pair is an alert
+ */
+export function evaluateAlertRules(logs: PluginTraceLog[], rules: AlertRule[]): TriggeredAlert[] {
+    const triggeredAt = new Date().toISOString();
+    const alerts: TriggeredAlert[] = [];
+
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+        for (const log of logs) {
+            if (matchesAlertRule(log, rule)) {
+                alerts.push({ rule, log, triggeredAt });
+            }
+        }
+    }
+
+    return alerts;
+}
+
+/**
+ * Short description of the condition of a rule
+ */
+export function describeAlertRule(rule: AlertRule): string {
+    const plugin = rule.pluginName ? ` from "${rule.pluginName}"` : "";
+
+    switch (rule.type) {
+        case "pluginException":
+            return `Exception${plugin}`;
+        case "duration":
+            return `Duration above ${formatDuration(rule.durationMs || 0)}${plugin}`;
+        case "text":
+            return `Trace contains "${rule.text}"`;
+        case "entityMessage":
+            return [rule.messageName, rule.entityName].filter(Boolean).join(" on ");
+        default:
+            return "";
+    }
+}
@@ -1,4 +1,58 @@
-import { PluginTraceLog, TraceLogFilter } from "../models/interfaces";
+import { BulkDeleteJobStatus, PluginTraceLog, PluginTypeRegistration, StepRegistration, TraceLogContinuation, TraceLogFilter, TraceLogPage } from "../models/interfaces";
+import { parsePluginTypeName } from "./PluginParser";
+
+/** Number of delete requests sent at the same time by a batched delete */
+const DELETE_BATCH_SIZE = 10;
+
+/** Largest number of records Dataverse aggregates; counts above it are reported as this value */
+export const AGGREGATE_COUNT_LIMIT = 50000;
+
+/** Largest page Dataverse returns for a FetchXML query */
+const MAX_PAGE_SIZE = 5000;
+
+/** Columns read for the trace log list */
+const TRACE_LOG_ATTRIBUTES = [
+    "plugintracelogid",
+    "typename",
+    "messageblock",
+    "messagename",
+    "performanceexecutionstarttime",
+    "performanceexecutionduration",
+    "exceptiondetails",
+    "depth",
+    "correlationid",
+    "operationtype",
+    "primaryentity",
+    "createdon",
+    "mode",
+];
+
+/** Status reasons of a system job (asyncoperation statuscode) */
+const JOB_STATUS_LABELS: { [key: number]: string } = {
+    0: "Waiting for Resources",
+    10: "Waiting",
+    20: "In Progress",
+    21: "Pausing",
+    22: "Canceling",
+    30: "Succeeded",
+    31: "Failed",
+    32: "Canceled",
+};
+
+/**
+ * Turn text into a Like pattern that matches values containing it. Like wildcards in the text itself
+ * (%, _ and [) are bracketed so they match literally, for the log list as well as for BulkDelete jobs.
+ */
+function toContainsPattern(value: string): string {
+    return `%${value.replace(/[%_[]/g, "[$&]")}%`;
+}
+
+/**
+ * Escape text for an XML attribute value
+ */
+function escapeXml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+}
 
 export class DataverseClient {
     constructor() {
@@ -11,8 +65,9 @@ export class DataverseClient {
     private escapeODataValue(value: string): string {
         if (!value) return "''";
         
-        // Remove any single quotes and replace with double single quotes (OData escaping)
-        const escaped = value.replace(/'/g, "''");
+        // Remove any single quotes and replace with double single quotes (OData escaping), then URL-encode
+        // the literal so characters such as &, # or + reach Dataverse as typed
+        const escaped = encodeURIComponent(value.replace(/'/g, "''"));
         
         // Wrap in single quotes for OData string literals
         return `'${escaped}'`;
@@ -34,115 +89,137 @@ export class DataverseClient {
         return isoString;
     }
 
-    async fetchPluginTraceLogs(filter?: TraceLogFilter): Promise<PluginTraceLog[]> {
+    /**
+     * Fetch trace logs matching the filter, newest first, in FetchXML pages of at most maxRecords logs until
+     * maxRecords logs are read (all matching logs when maxRecords is not set). Pass the continuation of a
+     * previous page to load the logs that come after it.
+     */
+    async fetchPluginTraceLogs(filter?: TraceLogFilter, maxRecords?: number, continuation?: TraceLogContinuation): Promise<TraceLogPage> {
         try {
-            const entitySetName = await window.dataverseAPI.getEntitySetName("plugintracelog");
-
-            // Build OData filter query
-            // Note: plugintracelog entity doesn't have statecode property
-            let filterQuery = "";
-            const filterConditions: string[] = [];
-            
-            if (filter?.startDate) {
-                // Properly format date for OData query
-                const formattedDate = this.formatODataDate(filter.startDate);
-                filterConditions.push(`createdon ge ${formattedDate}`);
-            }
-            
-            if (filter?.endDate) {
-                // Properly format date for OData query
-                const formattedDate = this.formatODataDate(filter.endDate);
-                filterConditions.push(`createdon le ${formattedDate}`);
-            }
-            
-            // Multi-select entity filter
-            if (filter?.entityNames && filter.entityNames.length > 0) {
-                const entityConditions = filter.entityNames.map(entity => {
-                    const escaped = this.escapeODataValue(entity);
-                    return `contains(primaryentity, ${escaped})`;
-                });
-                if (entityConditions.length === 1) {
-                    filterConditions.push(entityConditions[0]);
-                } else {
-                    filterConditions.push(`(${entityConditions.join(' or ')})`);
-                }
-            }
-            
-            // Multi-select plugin filter
-            if (filter?.pluginNames && filter.pluginNames.length > 0) {
-                const pluginConditions = filter.pluginNames.map(plugin => {
-                    const escaped = this.escapeODataValue(plugin);
-                    return `contains(typename, ${escaped})`;
-                });
-                if (pluginConditions.length === 1) {
-                    filterConditions.push(pluginConditions[0]);
-                } else {
-                    filterConditions.push(`(${pluginConditions.join(' or ')})`);
-                }
-            }
-            
-            // Single-select message filter
-            if (filter?.messageName) {
-                // Escape and sanitize message name to prevent OData injection
-                const escapedMessage = this.escapeODataValue(filter.messageName);
-                filterConditions.push(`messagename eq ${escapedMessage}`);
-            }
-            
-            // Multi-select mode filter (0=Sync, 1=Async)
-            if (filter?.modes && filter.modes.length > 0) {
-                if (filter.modes.length === 1) {
-                    filterConditions.push(`mode eq ${filter.modes[0]}`);
-                } else {
-                    const modeConditions = filter.modes.map(mode => `mode eq ${mode}`);
-                    filterConditions.push(`(${modeConditions.join(' or ')})`);
-                }
-            }
-            
-            if (filter?.correlationId) {
-                // Escape and sanitize correlation ID to prevent OData injection
-                const escapedCorrelation = this.escapeODataValue(filter.correlationId);
-                filterConditions.push(`correlationid eq ${escapedCorrelation}`);
-            }
-            
-            if (filter?.hasException) {
-                filterConditions.push(`exceptiondetails ne null`);
-            }
+            const limit = maxRecords && maxRecords > 0 ? maxRecords : Infinity;
+            const pageFilter = continuation ? continuation.filter : filter;
+            // Paging cookies only hold for pages of the same size, so a continuation keeps its page size
+            const pageSize = continuation ? continuation.pageSize : Math.min(limit, MAX_PAGE_SIZE);
+            const logs: PluginTraceLog[] = [];
+            let page = continuation ? continuation.page : 1;
+            let pagingCookie = continuation?.pagingCookie;
+            let totalCount: number | undefined;
+            let moreRecords = true;
 
-            // Construct the filter query
-            if (filterConditions.length > 0) {
-                filterQuery = `$filter=${filterConditions.join(' and ')}`;
-            }
+            while (moreRecords && logs.length < limit) {
+                // The total count is only requested with the first page of a retrieval
+                const fetchXml = this.buildTraceLogFetchXml(pageFilter, pageSize, page, pagingCookie, !continuation && page === 1);
+                const response = (await window.dataverseAPI.fetchXmlQuery(fetchXml)) as {
+                    value: any[];
+                    "@Microsoft.Dynamics.CRM.fetchxmlpagingcookie"?: string;
+                    "@Microsoft.Dynamics.CRM.morerecords"?: boolean;
+                    "@Microsoft.Dynamics.CRM.totalrecordcount"?: number;
+                };
+                logs.push(...response.value.map((log) => this.mapTraceLog(log)));
 
-            // TODO: Add pagination support for datasets larger than 100 records
-            // Consider making the limit configurable via settings or adding infinite scroll
-            const filterPart = filterQuery ? `${filterQuery}&` : '';
-            const query = `${entitySetName}?$select=plugintracelogid,typename,messageblock,messagename,performanceexecutionstarttime,performanceexecutionduration,exceptiondetails,depth,correlationid,operationtype,primaryentity,createdon,mode&${filterPart}$orderby=createdon desc&$top=100`;
-
-            const response = await window.dataverseAPI.queryData(query);
+                const recordCount = response["@Microsoft.Dynamics.CRM.totalrecordcount"];
+                if (recordCount !== undefined && recordCount >= 0) {
+                    totalCount = recordCount;
+                }
 
-            const logs: PluginTraceLog[] = response.value.map((log: any) => ({
-                plugintracelogid: (log.plugintracelogid as string)?.toLowerCase(),
-                typename: log.typename || "",
-                messageblock: log.messageblock || "",
-                messagename: log.messagename || "",
-                performanceexecutionstarttime: log.performanceexecutionstarttime || "",
-                performanceexecutionduration: log.performanceexecutionduration || 0,
-                exceptiondetails: log.exceptiondetails,
-                depth: log.depth || 0,
-                correlationid: log.correlationid || "",
-                operationtype: log.operationtype || 0,
-                primaryentity: log.primaryentity || "",
-                createdon: log.createdon || "",
-                mode: log.mode,
-            }));
+                moreRecords = !!response["@Microsoft.Dynamics.CRM.morerecords"];
+                pagingCookie = this.extractPagingCookie(response["@Microsoft.Dynamics.CRM.fetchxmlpagingcookie"]);
+                page++;
+            }
 
-            return logs;
+            return {
+                logs,
+                totalCount,
+                continuation: moreRecords ? { filter: pageFilter, pageSize, page, pagingCookie } : undefined,
+            };
         } catch (error: any) {
             console.error("Failed to fetch plugin trace logs:", error);
             throw new Error(`Failed to fetch plugin trace logs: ${error.message}`);
         }
     }
 
+    /**
+     * Build the FetchXML query of one trace log page
+     */
+    private buildTraceLogFetchXml(filter: TraceLogFilter | undefined, pageSize: number, page: number, pagingCookie: string | undefined, returnTotalCount: boolean): string {
+        const pagingAttributes = `count="${pageSize}" page="${page}"${pagingCookie ? ` paging-cookie="${escapeXml(pagingCookie)}"` : ""}${returnTotalCount ? ' returntotalrecordcount="true"' : ""}`;
+        const attributes = TRACE_LOG_ATTRIBUTES.map((attribute) => `<attribute name="${attribute}" />`).join("");
+
+        return `<fetch ${pagingAttributes}><entity name="plugintracelog">${attributes}<order attribute="createdon" descending="true" />${this.buildTraceLogFilterXml(filter)}</entity></fetch>`;
+    }
+
+    /**
+     * Build the FetchXML filter element for a trace log filter (empty when nothing is filtered)
+     */
+    private buildTraceLogFilterXml(filter?: TraceLogFilter): string {
+        const condition = (attribute: string, operator: string, value?: string) =>
+            value === undefined ? `<condition attribute="${attribute}" operator="${operator}" />` : `<condition attribute="${attribute}" operator="${operator}" value="${escapeXml(value)}" />`;
+        const anyOf = (attributes: string[], values: string[]) =>
+            `<filter type="or">${attributes.flatMap((attribute) => values.map((value) => condition(attribute, "like", toContainsPattern(value)))).join("")}</filter>`;
+
+        const conditions: string[] = [];
+        if (filter?.startDate) {
+            conditions.push(condition("createdon", "ge", this.formatODataDate(filter.startDate)));
+        }
+        if (filter?.endDate) {
+            conditions.push(condition("createdon", "le", this.formatODataDate(filter.endDate)));
+        }
+        if (filter?.entityNames && filter.entityNames.length > 0) {
+            conditions.push(anyOf(["primaryentity"], filter.entityNames));
+        }
+        if (filter?.pluginNames && filter.pluginNames.length > 0) {
+            conditions.push(anyOf(["typename"], filter.pluginNames));
+        }
+        if (filter?.messageName) {
+            conditions.push(condition("messagename", "eq", filter.messageName));
+        }
+        if (filter?.modes && filter.modes.length > 0) {
+            conditions.push(`<condition attribute="mode" operator="in">${filter.modes.map((mode) => `<value>${mode}</value>`).join("")}</condition>`);
+        }
+        if (filter?.correlationId) {
+            conditions.push(condition("correlationid", "eq", filter.correlationId));
+        }
+        if (filter?.hasException) {
+            conditions.push(condition("exceptiondetails", "not-null"));
+        }
+        if (filter?.searchText) {
+            conditions.push(anyOf(["messageblock", "exceptiondetails"], [filter.searchText]));
+        }
+
+        return conditions.length > 0 ? `<filter type="and">${conditions.join("")}</filter>` : "";
+    }
+
+    /**
+     * Extract the paging cookie to send with the next page from the fetchxmlpagingcookie annotation
+     */
+    private extractPagingCookie(annotation: string | undefined): string | undefined {
+        if (!annotation) {
+            return undefined;
+        }
+
+        const cookieElement = new DOMParser().parseFromString(annotation, "text/xml").documentElement;
+        const encodedCookie = cookieElement?.getAttribute("pagingcookie");
+        return encodedCookie ? decodeURIComponent(decodeURIComponent(encodedCookie)) : undefined;
+    }
+
+    private mapTraceLog(log: any): PluginTraceLog {
+        return {
+            plugintracelogid: (log.plugintracelogid as string)?.toLowerCase(),
+            typename: log.typename || "",
+            messageblock: log.messageblock || "",
+            messagename: log.messagename || "",
+            performanceexecutionstarttime: log.performanceexecutionstarttime || "",
+            performanceexecutionduration: log.performanceexecutionduration || 0,
+            exceptiondetails: log.exceptiondetails,
+            depth: log.depth || 0,
+            correlationid: log.correlationid || "",
+            operationtype: log.operationtype || 0,
+            primaryentity: log.primaryentity || "",
+            createdon: log.createdon || "",
+            mode: log.mode,
+        };
+    }
+
     async getTraceLogDetails(logId: string): Promise<PluginTraceLog> {
         try {
             const log = await window.dataverseAPI.retrieve(
@@ -196,4 +273,243 @@ export class DataverseClient {
             throw new Error(`Failed to delete trace log: ${error.message}`);
         }
     }
+
+    /**
+     * Count the trace logs matching a filter with an aggregate query. Dataverse refuses to aggregate more
+     * than 50000 records, so larger sets are reported as AGGREGATE_COUNT_LIMIT.
+     */
+    async countTraceLogs(filter?: TraceLogFilter): Promise<number> {
+        try {
+            const fetchXml = `<fetch aggregate="true"><entity name="plugintracelog"><attribute name="plugintracelogid" alias="logcount" aggregate="count" />${this.buildTraceLogFilterXml(filter)}</entity></fetch>`;
+            const response = await window.dataverseAPI.fetchXmlQuery(fetchXml);
+            return (response.value[0]?.logcount as number) || 0;
+        } catch (error: any) {
+            if (String(error.message).includes("AggregateQueryRecordLimit")) {
+                return AGGREGATE_COUNT_LIMIT;
+            }
+            console.error("Failed to count trace logs:", error);
+            throw new Error(`Failed to count trace logs: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read the ids of the newest trace logs matching a filter, at most maxRecords of them
+     */
+    async fetchTraceLogIds(filter: TraceLogFilter, maxRecords: number): Promise<string[]> {
+        try {
+            const fetchXml = `<fetch count="${maxRecords}"><entity name="plugintracelog"><attribute name="plugintracelogid" /><order attribute="createdon" descending="true" />${this.buildTraceLogFilterXml(filter)}</entity></fetch>`;
+            const response = await window.dataverseAPI.fetchXmlQuery(fetchXml);
+            return response.value.map((log) => log.plugintracelogid as string);
+        } catch (error: any) {
+            console.error("Failed to fetch trace log ids:", error);
+            throw new Error(`Failed to fetch trace log ids: ${error.message}`);
+        }
+    }
+
+    /**
+     * Delete the given trace logs with individual delete requests, a few at a time
+     */
+    async deleteTraceLogs(ids: string[], onProgress: (processed: number, total: number) => void): Promise<{ deleted: number; failed: number }> {
+        let deleted = 0;
+        let failed = 0;
+        onProgress(0, ids.length);
+        for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+            const results = await Promise.allSettled(ids.slice(i, i + DELETE_BATCH_SIZE).map((id) => window.dataverseAPI.delete("plugintracelog", id)));
+            deleted += results.filter((result) => result.status === "fulfilled").length;
+            failed += results.filter((result) => result.status === "rejected").length;
+            onProgress(deleted + failed, ids.length);
+        }
+
+        return { deleted, failed };
+    }
+
+    /**
+     * Submit a Dataverse BulkDelete job for the trace logs matching a filter and return the id of the system job
+     */
+    async submitBulkDeleteJob(filter: TraceLogFilter, jobName: string): Promise<string> {
+        try {
+            const result = await window.dataverseAPI.execute({
+                operationName: "BulkDelete",
+                operationType: "action",
+                parameters: {
+                    QuerySet: [
+                        {
+                            "@odata.type": "Microsoft.Dynamics.CRM.QueryExpression",
+                            EntityName: "plugintracelog",
+                            ColumnSet: { AllColumns: false, Columns: ["plugintracelogid"] },
+                            Distinct: false,
+                            Criteria: this.buildBulkDeleteCriteria(filter),
+                        },
+                    ],
+                    JobName: jobName,
+                    SendEmailNotification: false,
+                    ToRecipients: [],
+                    CCRecipients: [],
+                    RecurrencePattern: "",
+                    StartDateTime: new Date().toISOString(),
+                },
+            });
+            return result.JobId as string;
+        } catch (error: any) {
+            console.error("Failed to submit bulk delete job:", error);
+            throw new Error(`Failed to submit bulk delete job: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read the status of a BulkDelete job and how many logs it deleted so far
+     */
+    async getBulkDeleteJobStatus(jobId: string): Promise<BulkDeleteJobStatus> {
+        try {
+            const job = await window.dataverseAPI.retrieve("asyncoperation", jobId, ["statecode", "statuscode", "message", "friendlymessage"]);
+            const operations = await window.dataverseAPI.queryData(`bulkdeleteoperations?$select=successcount,failurecount&$filter=_asyncoperationid_value eq ${jobId}`);
+            const operation = operations.value[0];
+            const statusCode = job.statuscode as number;
+
+            return {
+                status: JOB_STATUS_LABELS[statusCode] || `Status ${statusCode}`,
+                // statecode 3 = Completed
+                isCompleted: job.statecode === 3,
+                isSucceeded: statusCode === 30,
+                deletedCount: (operation?.successcount as number) || 0,
+                failedCount: (operation?.failurecount as number) || 0,
+                message: (job.friendlymessage as string) || (job.message as string) || undefined,
+            };
+        } catch (error: any) {
+            console.error("Failed to get bulk delete job status:", error);
+            throw new Error(`Failed to get bulk delete job status: ${error.message}`);
+        }
+    }
+
+    /**
+     * Resolve the plugin type that wrote a trace log and its steps for the message, entity and mode of the log
+     * (null when the plugin type is not registered in the environment)
+     */
+    async resolveStepRegistration(log: PluginTraceLog): Promise<PluginTypeRegistration | null> {
+        try {
+            const pluginInfo = parsePluginTypeName(log.typename);
+            const types = await window.dataverseAPI.queryData(
+                `plugintypes?$select=plugintypeid,typename,assemblyname&$filter=typename eq ${this.escapeODataValue(pluginInfo.step)}`
+            );
+            const pluginType = types.value.find((type) => type.assemblyname === pluginInfo.assembly) || types.value[0];
+            if (!pluginType) {
+                return null;
+            }
+
+            const pluginTypeId = pluginType.plugintypeid as string;
+            const stepsResponse = await window.dataverseAPI.queryData(
+                `sdkmessageprocessingsteps?$select=sdkmessageprocessingstepid,name,stage,rank,mode,filteringattributes,statecode&$filter=_eventhandler_value eq ${pluginTypeId}&$expand=sdkmessageid($select=name),sdkmessagefilterid($select=primaryobjecttypecode)&$orderby=name`
+            );
+            const steps = stepsResponse.value.map((step: any): StepRegistration => ({
+                stepId: step.sdkmessageprocessingstepid,
+                name: step.name || "",
+                messageName: step.sdkmessageid?.name || "",
+                primaryEntity: step.sdkmessagefilterid?.primaryobjecttypecode || "none",
+                stage: step.stage,
+                rank: step.rank,
+                mode: step.mode,
+                filteringAttributes: step.filteringattributes || "",
+                isEnabled: step.statecode === 0,
+                images: [],
+            }));
+
+            // A step without entity filter runs for every entity of its message
+            const matchingSteps = steps.filter((step) =>
+                step.messageName.toLowerCase() === log.messagename.toLowerCase() &&
+                (step.primaryEntity === "none" || step.primaryEntity === (log.primaryentity || "none")) &&
+                (log.mode === undefined || step.mode === log.mode)
+            );
+
+            for (const step of matchingSteps) {
+                const images = await window.dataverseAPI.queryData(
+                    `sdkmessageprocessingstepimages?$select=name,entityalias,imagetype,attributes&$filter=_sdkmessageprocessingstepid_value eq ${step.stepId}&$orderby=name`
+                );
+                step.images = images.value.map((image: any) => ({
+                    name: image.name || "",
+                    entityAlias: image.entityalias || "",
+                    imageType: image.imagetype,
+                    attributes: image.attributes || "",
+                }));
+            }
+
+            return {
+                pluginTypeId,
+                typeName: pluginType.typename as string,
+                assemblyName: pluginType.assemblyname as string,
+                matchingSteps,
+                totalStepCount: steps.length,
+            };
+        } catch (error: any) {
+            console.error("Failed to resolve step registration:", error);
+            throw new Error(`Failed to resolve step registration: ${error.message}`);
+        }
+    }
+
+    /**
+     * Enable or disable a processing step
+     */
+    async setStepEnabled(stepId: string, enabled: boolean): Promise<void> {
+        try {
+            await window.dataverseAPI.update("sdkmessageprocessingstep", stepId, enabled ? { statecode: 0, statuscode: 1 } : { statecode: 1, statuscode: 2 });
+        } catch (error: any) {
+            console.error("Failed to update step state:", error);
+            throw new Error(`Failed to ${enabled ? "enable" : "disable"} step: ${error.message}`);
+        }
+    }
+
+    /**
+     * Build the QueryExpression criteria of a BulkDelete job with the same conditions as the FetchXML filter
+     */
+    private buildBulkDeleteCriteria(filter: TraceLogFilter): Record<string, unknown> {
+        const condition = (attributeName: string, operator: string, values: unknown[] = [], type = "System.String") => ({
+            AttributeName: attributeName,
+            Operator: operator,
+            Values: values.map((value) => ({ Value: value, Type: type })),
+        });
+        const anyOf = (attributeName: string, values: string[]) => ({
+            FilterOperator: "Or",
+            Conditions: values.map((value) => condition(attributeName, "Like", [toContainsPattern(value)])),
+            Filters: [],
+        });
+
+        const conditions: unknown[] = [];
+        const filters: unknown[] = [];
+
+        if (filter.startDate) {
+            conditions.push(condition("createdon", "GreaterEqual", [this.formatODataDate(filter.startDate)], "System.DateTime"));
+        }
+        if (filter.endDate) {
+            conditions.push(condition("createdon", "LessEqual", [this.formatODataDate(filter.endDate)], "System.DateTime"));
+        }
+        if (filter.entityNames && filter.entityNames.length > 0) {
+            filters.push(anyOf("primaryentity", filter.entityNames));
+        }
+        if (filter.pluginNames && filter.pluginNames.length > 0) {
+            filters.push(anyOf("typename", filter.pluginNames));
+        }
+        if (filter.messageName) {
+            conditions.push(condition("messagename", "Equal", [filter.messageName]));
+        }
+        if (filter.modes && filter.modes.length > 0) {
+            conditions.push(condition("mode", "In", filter.modes, "System.Int32"));
+        }
+        if (filter.correlationId) {
+            conditions.push(condition("correlationid", "Equal", [filter.correlationId], "System.Guid"));
+        }
+        if (filter.hasException) {
+            conditions.push(condition("exceptiondetails", "NotNull"));
+        }
+        if (filter.searchText) {
+            filters.push({
+                FilterOperator: "Or",
+                Conditions: [
+                    condition("messageblock", "Like", [toContainsPattern(filter.searchText)]),
+                    condition("exceptiondetails", "Like", [toContainsPattern(filter.searchText)]),
+                ],
+                Filters: [],
+            });
+        }
+
+        return { FilterOperator: "And", Conditions: conditions, Filters: filters };
+    }
 }
@@ -0,0 +1,94 @@
+import { PluginTraceLog } from "../models/interfaces";
+import { parsePluginTypeName } from "./PluginParser";
+import { parseExceptionDetails } from "./TraceParser";
+
+/** Number of stack frames (of the plugin itself when there are any) that identify a failure */
+const FINGERPRINT_FRAMES = 3;
+
+/**
+ * What identifies a distinct failure, independent of the record, values and build it occurred with
+ */
+export interface ExceptionFingerprint {
+    key: string;
+    /** Type of the root cause (innermost exception) */
+    type: string;
+    /** Message of the root cause with GUIDs and numbers replaced */
+    message: string;
+    frames: string[];
+}
+
+/**
+ * All logs that failed with the same fingerprint
+ */
+export interface ExceptionGroup extends ExceptionFingerprint {
+    count: number;
+    firstSeen: string;
+    lastSeen: string;
+    entities: string[];
+    /** Plugin type (step) names */
+    pluginTypes: string[];
+    /** Newest first */
+    logs: PluginTraceLog[];
+}
+
+/**
+ * Replaces the variable parts of a message (GUIDs, hexadecimal and decimal numbers) with placeholders
+ */
+export function normalizeExceptionMessage(message: string): string {
+    return message
+        .replace(/\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?/gi, "<guid>")
+        .replace(/\b0x[0-9a-f]+\b/gi, "<n>")
+        .replace(/\d+(?:[.,]\d+)*/g, "<n>")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+/**
+ * Fingerprints exception details by root cause type, normalized message and top stack frames
+ * (without file paths and line numbers, which change between builds)
+ */
+export function fingerprintException(exceptionDetails: string): ExceptionFingerprint {
+    const parsed = parseExceptionDetails(exceptionDetails);
+    const rootCause = parsed.exceptions[parsed.exceptions.length - 1];
+
+    const type = rootCause?.type || "Exception";
+    const message = normalizeExceptionMessage(rootCause?.message || parsed.fault?.message || exceptionDetails.split(/\r?\n/)[0]);
+
+    const frames = rootCause?.frames || [];
+    const pluginFrames = frames.filter(frame => !frame.isFramework);
+    const topFrames = (pluginFrames.length > 0 ? pluginFrames : frames)
+        .slice(0, FINGERPRINT_FRAMES)
+        .map(frame => frame.text.replace(/ in .*$/, ""));
+
+    return { key: [type, message, ...topFrames].join("\n"), type, message, frames: topFrames };
+}
+
+/**
+ * Groups the failed logs by exception fingerprint, most frequent failure first
+ */
+export function groupExceptions(logs: PluginTraceLog[]): ExceptionGroup[] {
+    const groups = new Map<string, ExceptionGroup>();
+
+    for (const log of logs) {
+        if (!log.exceptiondetails) continue;
+
+        const fingerprint = fingerprintException(log.exceptiondetails);
+        let group = groups.get(fingerprint.key);
+        if (!group) {
+            group = { ...fingerprint, count: 0, firstSeen: log.createdon, lastSeen: log.createdon, entities: [], pluginTypes: [], logs: [] };
+            groups.set(fingerprint.key, group);
+        }
+
+        group.count++;
+        group.logs.push(log);
+        if (log.createdon < group.firstSeen) group.firstSeen = log.createdon;
+        if (log.createdon > group.lastSeen) group.lastSeen = log.createdon;
+
+        const entity = log.primaryentity || "none";
+        if (!group.entities.includes(entity)) group.entities.push(entity);
+        const pluginType = parsePluginTypeName(log.typename).step;
+        if (!group.pluginTypes.includes(pluginType)) group.pluginTypes.push(pluginType);
+    }
+
+    return Array.from(groups.values()).sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen));
+}
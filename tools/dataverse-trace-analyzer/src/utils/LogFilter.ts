@@ -0,0 +1,28 @@
+import { PluginTraceLog, TraceLogFilter } from "../models/interfaces";
+
+function containsIgnoreCase(value: string | undefined, search: string): boolean {
+    return (value || "").toLowerCase().includes(search.toLowerCase());
+}
+
+/**
+ * Applies a trace log filter in memory, with the same conditions the Dataverse query uses
+ * (used for imported log sets, which have no server to query)
+ */
+export function filterTraceLogs(logs: PluginTraceLog[], filter: TraceLogFilter): PluginTraceLog[] {
+    const startTime = filter.startDate ? new Date(filter.startDate).getTime() : undefined;
+    const endTime = filter.endDate ? new Date(filter.endDate).getTime() : undefined;
+
+    return logs.filter(log => {
+        const createdOn = new Date(log.createdon).getTime();
+        if (startTime !== undefined && !(createdOn >= startTime)) return false;
+        if (endTime !== undefined && !(createdOn <= endTime)) return false;
+        if (filter.entityNames?.length && !filter.entityNames.some(entity => containsIgnoreCase(log.primaryentity, entity))) return false;
+        if (filter.pluginNames?.length && !filter.pluginNames.some(plugin => containsIgnoreCase(log.typename, plugin))) return false;
+        if (filter.messageName && log.messagename.toLowerCase() !== filter.messageName.toLowerCase()) return false;
+        if (filter.modes?.length && (log.mode === undefined || !filter.modes.includes(log.mode))) return false;
+        if (filter.correlationId && log.correlationid.toLowerCase() !== filter.correlationId.toLowerCase()) return false;
+        if (filter.hasException && !log.exceptiondetails) return false;
+        if (filter.searchText && !containsIgnoreCase(log.messageblock, filter.searchText) && !containsIgnoreCase(log.exceptiondetails, filter.searchText)) return false;
+        return true;
+    });
+}
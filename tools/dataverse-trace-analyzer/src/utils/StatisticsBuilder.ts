@@ -0,0 +1,119 @@
+import { PluginTraceLog } from "../models/interfaces";
+import { parsePluginTypeName } from "./PluginParser";
+
+export type StatisticsGrouping = "step" | "stepMessageEntity";
+
+/**
+ * Aggregated execution statistics of one plugin step (optionally per message and entity)
+ */
+export interface StepStatistics {
+    key: string;
+    step: string;
+    assembly: string;
+    /** Set when grouped per message and entity */
+    messageName?: string;
+    primaryEntity?: string;
+    count: number;
+    exceptionCount: number;
+    /** Share of executions that threw (0-1) */
+    exceptionRate: number;
+    minDuration: number;
+    avgDuration: number;
+    p95Duration: number;
+    maxDuration: number;
+    logs: PluginTraceLog[];
+}
+
+export interface HistogramBucket {
+    start: number;
+    end: number;
+    count: number;
+    exceptionCount: number;
+    avgDuration: number;
+}
+
+/**
+ * Nearest-rank percentile of ascending sorted values
+ */
+function percentile(sortedValues: number[], p: number): number {
+    if (sortedValues.length === 0) return 0;
+    const rank = Math.ceil((p / 100) * sortedValues.length);
+    return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1];
+}
+
+/**
+ * Groups logs per plugin step (and message/entity) and computes call counts, exception rate and duration statistics
+ */
+export function buildStepStatistics(logs: PluginTraceLog[], grouping: StatisticsGrouping): StepStatistics[] {
+    const groups = new Map<string, PluginTraceLog[]>();
+    for (const log of logs) {
+        const step = parsePluginTypeName(log.typename).step;
+        const key = grouping === "step" ? step : `${step}|${log.messagename}|${log.primaryentity || ""}`;
+        const group = groups.get(key);
+        if (group) {
+            group.push(log);
+        } else {
+            groups.set(key, [log]);
+        }
+    }
+
+    return Array.from(groups.entries()).map(([key, groupLogs]) => {
+        const pluginInfo = parsePluginTypeName(groupLogs[0].typename);
+        const durations = groupLogs.map(log => log.performanceexecutionduration || 0).sort((a, b) => a - b);
+        const exceptionCount = groupLogs.filter(log => log.exceptiondetails).length;
+
+        return {
+            key,
+            step: pluginInfo.step,
+            assembly: pluginInfo.assembly,
+            messageName: grouping === "step" ? undefined : groupLogs[0].messagename,
+            primaryEntity: grouping === "step" ? undefined : groupLogs[0].primaryentity || "",
+            count: groupLogs.length,
+            exceptionCount,
+            exceptionRate: exceptionCount / groupLogs.length,
+            minDuration: durations[0],
+            avgDuration: Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length),
+            p95Duration: percentile(durations, 95),
+            maxDuration: durations[durations.length - 1],
+            logs: groupLogs,
+        };
+    });
+}
+
+/**
+ * Spreads logs over equal time buckets between the first and the last log (by created on)
+ */
+export function buildTimeHistogram(logs: PluginTraceLog[], bucketCount: number): HistogramBucket[] {
+    const times = logs.map(log => new Date(log.createdon).getTime()).filter(time => !isNaN(time));
+    if (times.length === 0) return [];
+
+    // Reduced rather than spread: Math.min(...times) overflows the call stack for large log sets
+    const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+    const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+    const bucketSize = Math.max((last - first) / bucketCount, 1000);
+    const count = Math.min(bucketCount, Math.floor((last - first) / bucketSize) + 1);
+
+    const buckets = Array.from({ length: count }, (_, i) => ({
+        start: first + i * bucketSize,
+        end: first + (i + 1) * bucketSize,
+        count: 0,
+        exceptionCount: 0,
+        avgDuration: 0,
+    }));
+
+    for (const log of logs) {
+        const time = new Date(log.createdon).getTime();
+        if (isNaN(time)) continue;
+        const bucket = buckets[Math.min(Math.floor((time - first) / bucketSize), count - 1)];
+        bucket.count++;
+        if (log.exceptiondetails) bucket.exceptionCount++;
+        // Running total, turned into the average below
+        bucket.avgDuration += log.performanceexecutionduration || 0;
+    }
+
+    for (const bucket of buckets) {
+        bucket.avgDuration = bucket.count > 0 ? Math.round(bucket.avgDuration / bucket.count) : 0;
+    }
+
+    return buckets;
+}
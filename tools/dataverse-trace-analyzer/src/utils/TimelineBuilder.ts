@@ -0,0 +1,55 @@
+import { PluginTraceLog } from "../models/interfaces";
+
+/**
+ * One execution in a correlation timeline, positioned relative to the start of the first execution
+ */
+export interface TimelineEntry {
+    log: PluginTraceLog;
+    /** Milliseconds between the start of the first execution and the start of this one */
+    startOffset: number;
+    duration: number;
+    /** Nesting level (depth 1 = the request that started the pipeline) */
+    level: number;
+    isSlowest: boolean;
+}
+
+export interface CorrelationTimeline {
+    entries: TimelineEntry[];
+    /** Milliseconds from the first start to the last end */
+    totalDuration: number;
+    exceptionCount: number;
+}
+
+function getStartTime(log: PluginTraceLog): number {
+    const start = new Date(log.performanceexecutionstarttime || log.createdon).getTime();
+    return isNaN(start) ? 0 : start;
+}
+
+/**
+ * Orders the logs of one correlation by execution start and positions them on a shared time axis
+ */
+export function buildCorrelationTimeline(logs: PluginTraceLog[]): CorrelationTimeline {
+    if (logs.length === 0) {
+        return { entries: [], totalDuration: 0, exceptionCount: 0 };
+    }
+
+    // Start times only have second precision on older logs; deeper executions start inside their caller
+    const sorted = [...logs].sort((a, b) => getStartTime(a) - getStartTime(b) || a.depth - b.depth);
+    const firstStart = getStartTime(sorted[0]);
+    const lastEnd = sorted.reduce((max, log) => Math.max(max, getStartTime(log) + (log.performanceexecutionduration || 0)), -Infinity);
+    const slowest = sorted.reduce((max, log) => Math.max(max, log.performanceexecutionduration || 0), 0);
+
+    const entries = sorted.map(log => ({
+        log,
+        startOffset: getStartTime(log) - firstStart,
+        duration: log.performanceexecutionduration || 0,
+        level: Math.max((log.depth || 1) - 1, 0),
+        isSlowest: slowest > 0 && log.performanceexecutionduration === slowest,
+    }));
+
+    return {
+        entries,
+        totalDuration: lastEnd - firstStart,
+        exceptionCount: sorted.filter(log => log.exceptiondetails).length,
+    };
+}
@@ -0,0 +1,162 @@
+import { PluginTraceLog } from "../models/interfaces";
+
+/** Columns of an exported CSV file, in order */
+const CSV_COLUMNS: (keyof PluginTraceLog)[] = [
+    "plugintracelogid",
+    "createdon",
+    "typename",
+    "messagename",
+    "primaryentity",
+    "mode",
+    "operationtype",
+    "depth",
+    "correlationid",
+    "performanceexecutionstarttime",
+    "performanceexecutionduration",
+    "messageblock",
+    "exceptiondetails",
+    "profile",
+];
+
+/**
+ * Content of an exported JSON file
+ */
+export interface TraceLogExport {
+    exportedAt: string;
+    /** URL of the environment the logs were read from */
+    source: string;
+    logs: PluginTraceLog[];
+}
+
+function toCsvCell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes trace logs to an export JSON document
+ */
+export function traceLogsToJson(logs: PluginTraceLog[], source: string): string {
+    const data: TraceLogExport = { exportedAt: new Date().toISOString(), source, logs };
+    return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Serializes trace logs to CSV with one row per log (multi-line texts are quoted)
+ */
+export function traceLogsToCsv(logs: PluginTraceLog[]): string {
+    const rows = logs.map(log => CSV_COLUMNS.map(column => toCsvCell(log[column])).join(","));
+    return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted cells with separators, quotes and line breaks
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(value => value !== ""));
+}
+
+/**
+ * Brings an imported record into the shape of a retrieved trace log
+ */
+function normalizeTraceLog(record: any, index: number): PluginTraceLog {
+    if (!record || typeof record !== "object" || !record.plugintracelogid) {
+        throw new Error(`Record ${index + 1} has no plugintracelogid`);
+    }
+
+    const toNumber = (value: unknown) => {
+        const number = value === "" || value === null || value === undefined ? NaN : Number(value);
+        return isNaN(number) ? undefined : number;
+    };
+
+    return {
+        plugintracelogid: String(record.plugintracelogid).toLowerCase(),
+        typename: record.typename || "",
+        messageblock: record.messageblock || "",
+        messagename: record.messagename || "",
+        performanceexecutionstarttime: record.performanceexecutionstarttime || "",
+        performanceexecutionduration: toNumber(record.performanceexecutionduration) || 0,
+        exceptiondetails: record.exceptiondetails || undefined,
+        depth: toNumber(record.depth) || 0,
+        correlationid: record.correlationid || "",
+        operationtype: toNumber(record.operationtype) || 0,
+        primaryentity: record.primaryentity || "",
+        createdon: record.createdon || "",
+        mode: toNumber(record.mode),
+        profile: record.profile || undefined,
+    };
+}
+
+/**
+ * Reads trace logs from an exported JSON (export document or plain array) or CSV file
+ */
+export function parseTraceLogFile(content: string, fileName: string): PluginTraceLog[] {
+    const text = content.replace(/^\uFEFF/, "");
+    let records: any[];
+
+    if (fileName.toLowerCase().endsWith(".csv")) {
+        const [header, ...rows] = parseCsv(text);
+        if (!header || !header.includes("plugintracelogid")) {
+            throw new Error("The CSV file has no plugintracelogid column");
+        }
+        records = rows.map(row => {
+            const record: Record<string, string> = {};
+            header.forEach((column, i) => {
+                record[column] = row[i] ?? "";
+            });
+            return record;
+        });
+    } else {
+        let data: any;
+        try {
+            data = JSON.parse(text);
+        } catch (error: any) {
+            throw new Error(`The file is not valid JSON: ${error.message}`);
+        }
+        records = Array.isArray(data) ? data : data?.logs;
+        if (!Array.isArray(records)) {
+            throw new Error("The JSON file contains no trace logs");
+        }
+    }
+
+    // Newest first, like a retrieval
+    return records.map(normalizeTraceLog).sort((a, b) => new Date(b.createdon).getTime() - new Date(a.createdon).getTime());
+}
@@ -0,0 +1,144 @@
+/**
+ * Parses the free text of plugin trace logs (exceptiondetails and messageblock) into structure
+ */
+
+export interface StackFrame {
+    text: string;
+    /** Frame of the .NET runtime or the Dataverse platform rather than of the plugin */
+    isFramework: boolean;
+}
+
+export interface ParsedException {
+    type: string;
+    message: string;
+    frames: StackFrame[];
+}
+
+export interface ParsedExceptionDetails {
+    /** Outermost exception first */
+    exceptions: ParsedException[];
+    /** Set when the exception is a FaultException<OrganizationServiceFault> */
+    fault?: {
+        errorCode?: string;
+        /** Error code as the hexadecimal value used in Dataverse documentation */
+        errorCodeHex?: string;
+        message?: string;
+    };
+}
+
+/** Piece of a trace line: plain text, or a key=value pair when key is set */
+export interface TraceLineSegment {
+    text: string;
+    key?: string;
+    value?: string;
+}
+
+export interface ParsedTraceLine {
+    text: string;
+    timestamp?: string;
+    /** Text after the timestamp, split into plain text and key=value pairs */
+    segments: TraceLineSegment[];
+}
+
+const FRAMEWORK_NAMESPACES = /^at (System|Microsoft\.Xrm|Microsoft\.Crm|Microsoft\.PowerPlatform|Microsoft\.Cds|Microsoft\.Dynamics|Microsoft\.Ppcd)\./;
+const INNER_EXCEPTION_END = /--- End of inner exception stack trace ---/;
+const EXCEPTION_HEADER = /^([A-Za-z_][\w.`]*(?:\[[^\]]*\])?(?:Exception|Fault)[\w.`]*(?:\[[^\]]*\])?)(?::\s*(.*))?$/;
+
+function parseFrames(block: string): StackFrame[] {
+    return block
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.startsWith("at "))
+        .map(text => ({ text, isFramework: FRAMEWORK_NAMESPACES.test(text) }));
+}
+
+/**
+ * Splits a .NET exception text (Exception.ToString() or the "Exception type: / Message:" layout Dataverse writes)
+ * into its exception chain with stack frames, and extracts the OrganizationServiceFault error code
+ */
+export function parseExceptionDetails(text: string | undefined): ParsedExceptionDetails {
+    const result: ParsedExceptionDetails = { exceptions: [] };
+    if (!text) return result;
+
+    const errorCode = /<ErrorCode>\s*(-?\d+)\s*<\/ErrorCode>/.exec(text)?.[1];
+    const faultMessage = /<Message>([\s\S]*?)<\/Message>/.exec(text)?.[1]?.trim();
+    if (/OrganizationServiceFault/.test(text)) {
+        result.fault = {
+            errorCode,
+            errorCodeHex: errorCode ? `0x${(parseInt(errorCode, 10) >>> 0).toString(16).padStart(8, "0")}` : undefined,
+            message: faultMessage,
+        };
+    }
+
+    // Dataverse layout: "Exception type: X" followed by "Message: Y" lines, possibly repeated for inner faults
+    const typeLines = Array.from(text.matchAll(/^\s*Exception type:\s*(.+)$/gm));
+    if (typeLines.length > 0) {
+        typeLines.forEach((match, index) => {
+            const sectionEnd = index + 1 < typeLines.length ? typeLines[index + 1].index : text.length;
+            const section = text.slice(match.index, sectionEnd);
+            const message = /^\s*Message:\s*(.*)$/m.exec(section)?.[1]?.trim() || "";
+            result.exceptions.push({ type: match[1].trim(), message, frames: parseFrames(section) });
+        });
+        return result;
+    }
+
+    // Exception.ToString() layout: "Outer: msg ---> Inner: msg", then the innermost stack first,
+    // each outer stack after an "End of inner exception stack trace" marker
+    const stackStart = text.search(/^\s*at /m);
+    const header = stackStart >= 0 ? text.slice(0, stackStart) : text;
+    const stacks = stackStart >= 0 ? text.slice(stackStart).split(INNER_EXCEPTION_END) : [];
+
+    const segments = header.split("--->").map(segment => segment.trim()).filter(Boolean);
+    for (const segment of segments) {
+        const firstLine = segment.split(/\r?\n/)[0];
+        const match = EXCEPTION_HEADER.exec(firstLine);
+        const rest = segment.slice(firstLine.length).trim();
+        if (match) {
+            result.exceptions.push({ type: match[1], message: [match[2] || "", rest].filter(Boolean).join("\n"), frames: [] });
+        } else {
+            result.exceptions.push({ type: "", message: segment, frames: [] });
+        }
+    }
+
+    if (result.exceptions.length === 0 && stacks.length > 0) {
+        result.exceptions.push({ type: "", message: "", frames: [] });
+    }
+
+    // Innermost stack belongs to the last exception in the chain
+    stacks.forEach((stack, index) => {
+        const exception = result.exceptions[result.exceptions.length - 1 - index] || result.exceptions[0];
+        exception.frames.push(...parseFrames(stack));
+    });
+
+    return result;
+}
+
+const TIMESTAMP = /^\[?(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?|\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?)\]?\s*[-:|]?\s*/;
+const KEY_VALUE = /([A-Za-z_][\w.-]*)\s*=\s*("[^"]*"|'[^']*'|[^\s,;]+)/g;
+
+/**
+ * Splits a message block into lines, recognizing a leading timestamp and key=value pairs
+ */
+export function parseMessageBlock(text: string | undefined): ParsedTraceLine[] {
+    if (!text) return [];
+
+    return text.split(/\r?\n/).map(line => {
+        const timestampMatch = TIMESTAMP.exec(line);
+        const content = timestampMatch ? line.slice(timestampMatch[0].length) : line;
+        const segments: TraceLineSegment[] = [];
+        let position = 0;
+
+        for (const match of content.matchAll(KEY_VALUE)) {
+            if (match.index > position) {
+                segments.push({ text: content.slice(position, match.index) });
+            }
+            segments.push({ text: match[0], key: match[1], value: match[2].replace(/^["']|["']$/g, "") });
+            position = match.index + match[0].length;
+        }
+        if (position < content.length) {
+            segments.push({ text: content.slice(position) });
+        }
+
+        return { text: line, timestamp: timestampMatch?.[1], segments };
+    });
+}
@@ -1,9 +1,9 @@
-import { SavedFilter, SavedFiltersCollection, TraceLogFilter } from "../models/interfaces";
+import { AlertRule, SavedFilter, SavedFiltersCollection, TraceLogFilter } from "../models/interfaces";
 
 const SETTINGS_KEY = "dataverse-trace-analyzer-filters";
 
 /**
- * Utility class for managing saved filters using PPTB tool settings
+ * Utility class for managing saved filters (and the alert rules stored with them) using PPTB tool settings
  */
 export class FilterStorage {
     /**
@@ -56,7 +56,8 @@ export class FilterStorage {
             }
 
             const collection: SavedFiltersCollection = {
-                filters: existingFilters
+                filters: existingFilters,
+                alertRules: await this.loadAlertRules()
             };
 
             await window.toolboxAPI.settings.set(SETTINGS_KEY, collection);
@@ -79,7 +80,8 @@ export class FilterStorage {
             const updatedFilters = existingFilters.filter(f => f.name !== name);
 
             const collection: SavedFiltersCollection = {
-                filters: updatedFilters
+                filters: updatedFilters,
+                alertRules: await this.loadAlertRules()
             };
 
             await window.toolboxAPI.settings.set(SETTINGS_KEY, collection);
@@ -101,4 +103,46 @@ export class FilterStorage {
             return null;
         }
     }
+
+    /**
+     * Load the alert rules of the notify auto-refresh mode from tool settings
+     */
+    static async loadAlertRules(): Promise<AlertRule[]> {
+        try {
+            if (!window.toolboxAPI) {
+                console.warn("PPTB API not available");
+                return [];
+            }
+
+            const settings = await window.toolboxAPI.settings.get(SETTINGS_KEY);
+            if (settings && settings.alertRules) {
+                return settings.alertRules as AlertRule[];
+            }
+            return [];
+        } catch (error) {
+            console.error("Error loading alert rules:", error);
+            return [];
+        }
+    }
+
+    /**
+     * Replace the saved alert rules
+     */
+    static async saveAlertRules(rules: AlertRule[]): Promise<void> {
+        try {
+            if (!window.toolboxAPI) {
+                throw new Error("PPTB API not available");
+            }
+
+            const collection: SavedFiltersCollection = {
+                filters: await this.loadFilters(),
+                alertRules: rules
+            };
+
+            await window.toolboxAPI.settings.set(SETTINGS_KEY, collection);
+        } catch (error) {
+            console.error("Error saving alert rules:", error);
+            throw error;
+        }
+    }
 }
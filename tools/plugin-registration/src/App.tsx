@@ -278,11 +278,48 @@ export default function App() {
         setLoading(false);
     }, []);
 
+    // Open the step another tool asked for (e.g. "Open in Plugin Registration" in the Dataverse Trace Analyzer).
+    // The tree loads lazily, so the assembly's plugin types and the plugin type's steps are loaded first.
+    const openLaunchContext = useCallback(async () => {
+        const launchContext = await window.toolboxAPI.invocation.getLaunchContext();
+        if (!launchContext) return;
+
+        // Dataverse returns lowercase IDs, which the tree nodes are keyed by
+        const pluginTypeId = typeof launchContext.pluginTypeId === "string" ? launchContext.pluginTypeId.toLowerCase() : "";
+        const stepId = typeof launchContext.stepId === "string" ? launchContext.stepId.toLowerCase() : "";
+        const stepName = typeof launchContext.stepName === "string" ? launchContext.stepName : "";
+        try {
+            const assemblyId = pluginTypeId ? await client.fetchPluginTypeAssemblyId(pluginTypeId) : null;
+            if (!assemblyId) {
+                throw new Error(`The plugin type ${launchContext.pluginTypeName ?? pluginTypeId} is not registered in this environment.`);
+            }
+
+            const [types, typeSteps] = await Promise.all([client.fetchPluginTypes(assemblyId), client.fetchSteps(pluginTypeId)]);
+            setPluginTypes((prev: Map<string, PluginType[]>) => new Map(prev).set(assemblyId, types));
+            setSteps((prev: Map<string, ProcessingStep[]>) => new Map(prev).set(pluginTypeId, typeSteps));
+            setExpandedIds((prev: Set<string>) => new Set(prev).add(assemblyId).add(pluginTypeId));
+
+            const step = typeSteps.find((s) => s.sdkmessageprocessingstepid.toLowerCase() === stepId);
+            if (!step) {
+                // The step may have been deleted or re-registered; show the plugin type's steps with that name instead
+                setSearchTerm(stepName);
+                throw new Error(`The step ${stepName || stepId} was not found${stepName ? "; showing steps with the same name" : ""}.`);
+            }
+
+            setSelectedNode({ id: step.sdkmessageprocessingstepid, type: "step", name: step.name, data: step, children: [], childrenLoaded: false });
+            const imgs = await client.fetchImages(step.sdkmessageprocessingstepid);
+            setImages((prev: Map<string, StepImage[]>) => new Map(prev).set(step.sdkmessageprocessingstepid, imgs));
+        } catch (err: unknown) {
+            const msg = err instanceof Error ? err.message : String(err);
+            void window.toolboxAPI.utils.showNotification({ title: "Step Not Opened", body: msg, type: "error" });
+        }
+    }, []);
+
     useEffect(() => {
         if (isPPTB) {
-            void loadAll();
+            void loadAll().then(openLaunchContext);
         }
-    }, [isPPTB, loadAll]);
+    }, [isPPTB, loadAll, openLaunchContext]);
 
     // Load children data when a node is selected (for bottom grid)
     const handleSelectNode = useCallback(
@@ -66,6 +66,23 @@ export class DataverseClient {
     }
   }
 
+  /** Resolve the assembly a plugin type belongs to, or null when the plugin type is not registered */
+  async fetchPluginTypeAssemblyId(pluginTypeId: string): Promise<string | null> {
+    // Validate GUID format to prevent injection
+    if (!isGuid(pluginTypeId)) {
+      return null;
+    }
+    try {
+      const response = await window.dataverseAPI.queryData(`plugintypes?$select=_pluginassemblyid_value&$filter=plugintypeid eq '${pluginTypeId}'&$top=1`, "primary");
+      const values = response.value as Record<string, unknown>[];
+      if (values.length === 0) return null;
+      return (values[0]["_pluginassemblyid_value"] as string) ?? null;
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch plugin type: ${msg}`);
+    }
+  }
+
   async fetchSteps(pluginTypeId: string): Promise<ProcessingStep[]> {
     try {
       const response = await window.dataverseAPI.queryData(